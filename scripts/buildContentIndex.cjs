@@ -0,0 +1,177 @@
+#!/usr/bin/env node
+
+/**
+ * Content Manifest Builder
+ * Regenerates public/content/index.json from the files under public/content
+ * so new containers and solver output show up in the library browsers.
+ * Containers keep their stored CID, recomputed (src/lib/cid.ts) only when it
+ * is empty or a placeholder; solutions get their canonical solution ID
+ * (src/lib/sid.ts) so the browser can collapse copies of the same solution.
+ * Every file gets the SHA-256 of its bytes, which keys
+ * the offline cache, and `updated` moves to today when that hash changes.
+ *
+ * Usage: node scripts/buildContentIndex.cjs
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+// Paths
+const CONTENT_DIR = path.join(__dirname, '../public/content');
+const INDEX_FILE = path.join(CONTENT_DIR, 'index.json');
+
+// Folder -> manifest item type (top-level .json files only; subfolders such as legacy results are skipped)
+const FOLDERS = {
+  containers: 'container',
+  solutions: 'solution',
+  partials: 'partial',
+  events: 'events',
+  status: 'status'
+};
+
+/**
+ * Normalize a CID to the "sha256:<hex>" form used by the manifest
+ */
+function normalizeCID(cid) {
+  if (!cid) return '';
+  const trimmed = String(cid).trim().toLowerCase();
+  return trimmed.startsWith('sha256:') ? trimmed : `sha256:${trimmed}`;
+}
+
+/**
+ * SHA-256 of the file bytes, in the same "sha256:<hex>" form as CIDs
+ */
+function hashFile(filePath) {
+  return `sha256:${crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex')}`;
+}
+
+/**
+ * Load the SID and CID modules (src/lib/sid.ts, src/lib/cid.ts) through Vite so there is one implementation
+ */
+async function loadModules() {
+  const { createServer } = await import('vite');
+  const server = await createServer({
+    root: path.join(__dirname, '..'),
+    configFile: false,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false },
+    optimizeDeps: { noDiscovery: true, include: [] }
+  });
+
+  try {
+    return {
+      sidModule: await server.ssrLoadModule('/src/lib/sid.ts'),
+      cidModule: await server.ssrLoadModule('/src/lib/cid.ts')
+    };
+  } finally {
+    await server.close();
+  }
+}
+
+/**
+ * Manifest fields read from the file itself: containers carry their CID and cell count,
+ * solutions their container's CID, piece (placement) count and canonical SID
+ */
+async function describeFile(type, filePath, { sidModule, cidModule }) {
+  if (type !== 'container' && type !== 'solution') {
+    return { cid: '', size: null };
+  }
+
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  if (type === 'container') {
+    const cells = data.cells || data.coordinates;
+    if (!Array.isArray(cells)) {
+      return { cid: normalizeCID(data.cid), size: null };
+    }
+    // Engine-issued CIDs are kept; empty, malformed and placeholder ones are recomputed
+    const stored = normalizeCID(data.cid);
+    if (cidModule.isValidCID(stored) && !cidModule.isPaddedCID(stored)) {
+      return { cid: stored, size: cells.length };
+    }
+    console.warn(`⚠️  ${path.basename(filePath)}: ${stored ? `unusable cid ${stored}` : 'no cid'}, indexed with the computed one (npm run content:migrate-cids)`);
+    return { cid: await cidModule.computeCID(cells.map(([x, y, z]) => ({ x, y, z }))), size: cells.length };
+  }
+  if (!Array.isArray(data.placements)) {
+    return { cid: normalizeCID(data.containerCidSha256), size: null };
+  }
+  const ids = await sidModule.computeSolutionIDs(data.placements);
+  return {
+    cid: normalizeCID(data.containerCidSha256),
+    size: data.placements.length,
+    sid: normalizeCID(ids.sid_state_canon_sha256)
+  };
+}
+
+async function buildIndex() {
+  const modules = await loadModules();
+  const previous = fs.existsSync(INDEX_FILE) ? JSON.parse(fs.readFileSync(INDEX_FILE, 'utf8')) : [];
+  const previousByUrl = new Map(previous.map(item => [item.url, item]));
+  const today = new Date().toISOString().slice(0, 10);
+
+  const items = [];
+  let added = 0;
+  let changed = 0;
+  let errors = 0;
+
+  for (const [folder, type] of Object.entries(FOLDERS)) {
+    const dir = path.join(CONTENT_DIR, folder);
+    if (!fs.existsSync(dir)) continue;
+
+    const names = fs.readdirSync(dir)
+      .filter(name => name.endsWith('.json') && fs.statSync(path.join(dir, name)).isFile())
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+    for (const name of names) {
+      const url = `/content/${folder}/${name}`;
+      const existing = previousByUrl.get(url);
+
+      try {
+        const filePath = path.join(dir, name);
+        const { cid, size, sid } = await describeFile(type, filePath, modules);
+        const hash = hashFile(filePath);
+        // Entries written before hashes were recorded keep their date
+        const edited = existing && existing.hash && existing.hash !== hash;
+        const item = {
+          type,
+          name,
+          cid: cid || (existing && existing.cid) || '',
+          size: size !== null ? size : (existing ? existing.size : null),
+          url,
+          updated: existing && !edited ? existing.updated : today,
+          hash
+        };
+        if (sid) item.sid = sid;
+        items.push(item);
+        if (!existing) added++;
+        if (edited) changed++;
+      } catch (error) {
+        console.error(`❌ Skipping ${url}: ${error.message}`);
+        errors++;
+      }
+    }
+  }
+
+  fs.writeFileSync(INDEX_FILE, JSON.stringify(items, null, 2) + '\n');
+
+  const removed = previous.filter(item => !items.some(i => i.url === item.url)).length;
+  console.log('📚 Content index rebuilt:');
+  Object.values(FOLDERS).forEach(type => {
+    const count = items.filter(item => item.type === type).length;
+    if (count > 0) console.log(`- ${type}: ${count}`);
+  });
+  const sids = items.filter(item => item.sid).map(item => item.sid);
+  const duplicates = sids.length - new Set(sids).size;
+  if (duplicates > 0) console.log(`🪞 ${duplicates} solution(s) duplicate another up to rotation`);
+  console.log(`✅ Added: ${added}, changed: ${changed}, removed: ${removed}, errors: ${errors}`);
+}
+
+if (require.main === module) {
+  buildIndex().catch(error => {
+    console.error('❌ Index build failed:', error.message);
+    process.exit(1);
+  });
+}
+
+module.exports = { buildIndex, normalizeCID };
@@ -0,0 +1,212 @@
+#!/usr/bin/env node
+
+/**
+ * CID Conformance Harness
+ * Checks src/lib/cid.ts against the CIDs the rest of the ecosystem uses:
+ * 1. FCC_LATTICE_ROTATIONS (used by computeCID) must be the 24 proper rotations of the FCC lattice (a closed group)
+ * 2. computeCID must give the same CID for every rotated and shifted copy of each container
+ * 3. computeCID for every container in data/containers and public/content/containers must match
+ *    the CID stored in the file (engine-issued), the manifest entry and the upstream fixtures
+ * Every mismatch is listed; --verbose also lists the containers that pass.
+ *
+ * Usage: node scripts/cidConformance.cjs [--verbose]
+ * Exits with code 1 when any check fails.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const ROOT = path.join(__dirname, '..');
+const CONTAINER_DIRS = ['data/containers', 'public/content/containers'];
+const MANIFEST_FILE = path.join(ROOT, 'public/content/index.json');
+const FIXTURES_FILE = path.join(__dirname, 'fixtures/upstream-cids.json');
+
+// Shift applied to rotated copies in the invariance check
+const TRANSLATION = [3, -2, 5];
+
+/**
+ * Load TS modules through Vite so the harness runs the shipped code
+ */
+async function loadModules(paths) {
+  const { createServer } = await import('vite');
+  const server = await createServer({
+    root: ROOT,
+    configFile: false,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false },
+    optimizeDeps: { noDiscovery: true, include: [] }
+  });
+
+  try {
+    const modules = [];
+    for (const modulePath of paths) {
+      modules.push(await server.ssrLoadModule(modulePath));
+    }
+    return modules;
+  } finally {
+    await server.close();
+  }
+}
+
+const multiply = (a, b) => a.map(row => b[0].map((_, j) => row.reduce((sum, value, k) => sum + value * b[k][j], 0)));
+const determinant = m =>
+  m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1])
+  - m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0])
+  + m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0]);
+const applyMatrix = (m, v) => m.map(row => row[0] * v[0] + row[1] * v[1] + row[2] * v[2]);
+const matrixKey = m => JSON.stringify(m);
+
+/**
+ * Group checks for the rotation table; a lattice rotation must permute the 12 neighbour offsets.
+ * Returns a list of failure messages.
+ */
+function checkRotationGroup(rotations, neighborOffsets) {
+  const failures = [];
+  const keys = new Set(rotations.map(matrixKey));
+  const identity = [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+
+  if (rotations.length !== 24) failures.push(`expected 24 matrices, found ${rotations.length}`);
+  if (keys.size !== rotations.length) failures.push(`${rotations.length - keys.size} duplicate matrices`);
+  if (!keys.has(matrixKey(identity))) failures.push('identity is missing');
+
+  const improper = rotations.filter(m => determinant(m) !== 1).length;
+  if (improper > 0) failures.push(`${improper} matrices have determinant != +1`);
+
+  let openProducts = 0;
+  let example = null;
+  rotations.forEach((a, i) => {
+    rotations.forEach((b, j) => {
+      if (!keys.has(matrixKey(multiply(a, b)))) {
+        openProducts++;
+        if (!example) example = `R${i} * R${j}`;
+      }
+    });
+  });
+  if (openProducts > 0) failures.push(`not closed: ${openProducts} of ${rotations.length ** 2} products fall outside the set (e.g. ${example})`);
+
+  const withoutInverse = rotations.filter(a => !rotations.some(b => matrixKey(multiply(a, b)) === matrixKey(identity))).length;
+  if (withoutInverse > 0) failures.push(`${withoutInverse} matrices have no inverse in the set`);
+
+  const neighborKeys = new Set(neighborOffsets.map(v => v.join(',')));
+  const breaksLattice = rotations.filter(m => !neighborOffsets.every(v => neighborKeys.has(applyMatrix(m, v).join(',')))).length;
+  if (breaksLattice > 0) failures.push(`${breaksLattice} matrices do not map the ${neighborOffsets.length} FCC neighbour offsets onto themselves`);
+
+  return failures;
+}
+
+/**
+ * Rotations (by index) under which computeCID gives a different CID for the shifted, rotated cells
+ */
+async function findVariantRotations(cidModule, rotations, cells, expected) {
+  const variant = [];
+  for (let index = 0; index < rotations.length; index++) {
+    const moved = cells.map(cell => {
+      const [x, y, z] = applyMatrix(rotations[index], cell);
+      return { x: x + TRANSLATION[0], y: y + TRANSLATION[1], z: z + TRANSLATION[2] };
+    });
+    if (await cidModule.computeCID(moved) !== expected) variant.push(index);
+  }
+  return variant;
+}
+
+function readContainers() {
+  const containers = [];
+  CONTAINER_DIRS.forEach(dir => {
+    const absolute = path.join(ROOT, dir);
+    if (!fs.existsSync(absolute)) return;
+    fs.readdirSync(absolute)
+      .filter(name => name.endsWith('.json'))
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+      .forEach(name => {
+        const data = JSON.parse(fs.readFileSync(path.join(absolute, name), 'utf8'));
+        containers.push({ file: `${dir}/${name}`, name, cells: data.cells || data.coordinates || [], storedCid: data.cid || '' });
+      });
+  });
+  return containers;
+}
+
+async function run({ verbose }) {
+  const [cidModule, latticeModule] = await loadModules(['/src/lib/cid.ts', '/src/lib/coords/lattice.ts']);
+  const rotations = latticeModule.FCC_LATTICE_ROTATIONS;
+  let failed = false;
+
+  // 1. Rotation group
+  console.log('🔄 FCC_LATTICE_ROTATIONS group check');
+  const groupFailures = checkRotationGroup(rotations, latticeModule.FCC_NEIGHBOR_OFFSETS);
+  if (groupFailures.length === 0) {
+    console.log('✅ 24 proper lattice rotations, closed under composition');
+  } else {
+    failed = true;
+    groupFailures.forEach(message => console.log(`❌ ${message}`));
+  }
+
+  // 2-3. Container CIDs
+  const manifest = JSON.parse(fs.readFileSync(MANIFEST_FILE, 'utf8'));
+  const manifestByUrl = new Map(manifest.map(item => [item.url, item]));
+  const fixtures = JSON.parse(fs.readFileSync(FIXTURES_FILE, 'utf8')).fixtures;
+  const fixturesByFile = new Map(fixtures.map(fixture => [fixture.file, fixture]));
+
+  console.log('\n🔐 Container CID check');
+  const totals = { containers: 0, invariant: [0, 0], stored: [0, 0], manifest: [0, 0], fixtures: [0, 0] };
+  const tally = (bucket, ok) => {
+    totals[bucket][ok ? 0 : 1]++;
+    return ok;
+  };
+
+  for (const container of readContainers()) {
+    totals.containers++;
+    const computed = await cidModule.computeCID(container.cells.map(([x, y, z]) => ({ x, y, z })));
+    const problems = [];
+
+    const variant = await findVariantRotations(cidModule, rotations, container.cells, computed);
+    if (!tally('invariant', variant.length === 0)) {
+      problems.push(`CID changes under rotation${variant.length !== 1 ? 's' : ''} ${variant.join(', ')}`);
+    }
+
+    if (container.storedCid && !tally('stored', container.storedCid === computed)) {
+      problems.push(`file     ${container.storedCid}`);
+    }
+
+    const manifestItem = container.file.startsWith('public/content/')
+      ? manifestByUrl.get(`/content/containers/${container.name}`)
+      : undefined;
+    if (manifestItem && manifestItem.cid && !tally('manifest', manifestItem.cid === computed)) {
+      problems.push(`manifest ${manifestItem.cid}`);
+    }
+
+    const fixture = fixturesByFile.get(container.file);
+    if (fixture && !tally('fixtures', fixture.cid === computed)) {
+      problems.push(`upstream ${fixture.cid}`);
+    }
+
+    if (problems.length > 0) {
+      failed = true;
+      console.log(`❌ ${container.file}: computed ${computed}`);
+      problems.forEach(problem => console.log(`     ≠ ${problem}`));
+    } else if (verbose) {
+      console.log(`✅ ${container.file}: ${computed}`);
+    }
+  }
+
+  console.log('\n📊 Conformance Summary:');
+  console.log(`Containers checked: ${totals.containers}`);
+  console.log(`Rotation invariant: ${totals.invariant[0]} yes, ${totals.invariant[1]} no`);
+  console.log(`Stored file CIDs:   ${totals.stored[0]} match, ${totals.stored[1]} differ`);
+  console.log(`Manifest CIDs:      ${totals.manifest[0]} match, ${totals.manifest[1]} differ`);
+  console.log(`Upstream fixtures:  ${totals.fixtures[0]} match, ${totals.fixtures[1]} differ (${fixtures.length} fixtures)`);
+  console.log(failed ? '\n❌ CID conformance FAILED' : '\n✅ CID conformance passed');
+
+  return !failed;
+}
+
+if (require.main === module) {
+  run({ verbose: process.argv.includes('--verbose') })
+    .then(passed => process.exit(passed ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Harness error:', error.message);
+      process.exit(2);
+    });
+}
+
+module.exports = { checkRotationGroup, findVariantRotations, run };
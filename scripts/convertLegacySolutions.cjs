@@ -4,7 +4,9 @@
  * Legacy Solution Format Converter
  * Converts legacy world-coordinate solution files to new ijk-only format
  * 
- * Usage: node scripts/convertLegacySolutions.js
+ * Usage: node scripts/convertLegacySolutions.cjs
+ *        node scripts/convertLegacySolutions.cjs --rederive   # recompute ori/t of the converter output in place
+ * Hosted solutions in public/content/solutions keep the ori/t they were published with.
  */
 
 const fs = require('fs');
@@ -16,31 +18,44 @@ const LEGACY_DIR = path.join(__dirname, '../public/content/solutions/legacy resu
 const OUTPUT_DIR = path.join(__dirname, '../public/content/solutions/converted');
 const SAMPLE_CORRECT_FILE = path.join(__dirname, '../public/content/solutions/16_cell_container.fcc_16cell_dlx_corrected_001.json');
 
-// Ensure output directory exists
-if (!fs.existsSync(OUTPUT_DIR)) {
-  fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+/**
+ * Load the piece library (src/lib/pieces/library.ts) through Vite so the
+ * orientation tables stay in one place
+ */
+async function loadPieceLibrary() {
+  const { createServer } = await import('vite');
+  const server = await createServer({
+    root: path.join(__dirname, '..'),
+    configFile: false,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false },
+    optimizeDeps: { noDiscovery: true, include: [] }
+  });
+
+  try {
+    return await server.ssrLoadModule('/src/lib/pieces/library.ts');
+  } finally {
+    await server.close();
+  }
 }
 
 /**
  * Calculate orientation and translation from piece coordinates
- * For now, we'll use simplified calculation - can be enhanced later
+ * using the piece library's orientation tables
  */
-function calculateOrientationAndTranslation(cells_ijk) {
-  // Simple approach: use first cell as translation, orientation as 0
-  // This can be enhanced with proper tetromino orientation detection
-  const firstCell = cells_ijk[0];
-  const translation = [...firstCell];
-  
-  // Normalize coordinates relative to first cell
-  const normalizedCells = cells_ijk.map(cell => [
-    cell[0] - firstCell[0],
-    cell[1] - firstCell[1], 
-    cell[2] - firstCell[2]
-  ]);
-  
+function calculateOrientationAndTranslation(pieceLibrary, pieceId, cells_ijk) {
+  const coords = cells_ijk.map(([x, y, z]) => ({ x, y, z }));
+  const match = pieceLibrary.findPieceOrientation(pieceId, coords);
+
+  if (!match) {
+    const reason = pieceLibrary.isMirroredPiece(pieceId, coords) ? 'mirror image of' : 'does not match';
+    throw new Error(`Piece ${pieceId} cells ${JSON.stringify(cells_ijk)} ${reason} library piece ${pieceId}`);
+  }
+
   return {
-    ori: 0, // Simplified - could calculate actual orientation
-    t: translation,
+    ori: match.ori,
+    t: [match.t.x, match.t.y, match.t.z],
     cells_ijk: cells_ijk // Keep original coordinates
   };
 }
@@ -56,7 +71,7 @@ function generateContainerCid(containerName, pieces) {
 /**
  * Convert legacy solution format to new format
  */
-function convertLegacySolution(legacyData, filename) {
+function convertLegacySolution(pieceLibrary, legacyData, filename) {
   console.log(`Converting: ${filename}`);
   
   // Extract container name from filename or legacy data
@@ -64,7 +79,7 @@ function convertLegacySolution(legacyData, filename) {
   
   // Convert pieces to placements
   const placements = legacyData.pieces.map(piece => {
-    const { ori, t, cells_ijk } = calculateOrientationAndTranslation(piece.cells_ijk);
+    const { ori, t, cells_ijk } = calculateOrientationAndTranslation(pieceLibrary, piece.id, piece.cells_ijk);
     
     return {
       piece: piece.id,
@@ -107,7 +122,7 @@ function convertLegacySolution(legacyData, filename) {
 /**
  * Main conversion function
  */
-function convertAllLegacyFiles() {
+async function convertAllLegacyFiles() {
   console.log('🔄 Starting legacy solution format conversion...');
   console.log(`📁 Input directory: ${LEGACY_DIR}`);
   console.log(`📁 Output directory: ${OUTPUT_DIR}`);
@@ -116,6 +131,12 @@ function convertAllLegacyFiles() {
   const legacyFiles = fs.readdirSync(LEGACY_DIR).filter(file => file.endsWith('.json'));
   console.log(`📋 Found ${legacyFiles.length} legacy files to convert`);
   
+  if (!fs.existsSync(OUTPUT_DIR)) {
+    fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+  }
+
+  const pieceLibrary = await loadPieceLibrary();
+  
   let convertedCount = 0;
   let errorCount = 0;
   
@@ -127,7 +148,7 @@ function convertAllLegacyFiles() {
       const legacyData = JSON.parse(fs.readFileSync(legacyPath, 'utf8'));
       
       // Convert to new format
-      const newData = convertLegacySolution(legacyData, filename);
+      const newData = convertLegacySolution(pieceLibrary, legacyData, filename);
       
       // Generate output filename (remove .world from name)
       const outputFilename = filename.replace('.world.json', '.json');
@@ -161,6 +182,54 @@ function convertAllLegacyFiles() {
   }
 }
 
+/**
+ * Recompute ori/t of converted solutions in the output directory from their cells_ijk,
+ * so they match the piece library's current orientation tables. Solver output is left alone.
+ */
+async function rederiveConvertedSolutions() {
+  console.log('🔄 Re-deriving ori/t of converted solutions...');
+  console.log(`📁 Directory: ${OUTPUT_DIR}`);
+
+  const pieceLibrary = await loadPieceLibrary();
+  const files = fs.readdirSync(OUTPUT_DIR).filter(file => file.endsWith('.json'));
+
+  let updatedCount = 0;
+  let errorCount = 0;
+
+  files.forEach(filename => {
+    const filePath = path.join(OUTPUT_DIR, filename);
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    if (data.solver?.engine !== 'legacy_converted') return;
+
+    let changed = false;
+    data.placements.forEach((placement, index) => {
+      try {
+        const { ori, t } = calculateOrientationAndTranslation(pieceLibrary, placement.piece, placement.cells_ijk);
+        if (placement.ori !== ori || placement.t.join(',') !== t.join(',')) {
+          placement.ori = ori;
+          placement.t = t;
+          changed = true;
+        }
+      } catch (error) {
+        // Keep the placement as it is; the solution validator reports its shape
+        console.error(`❌ Error in ${filename} (#${index}):`, error.message);
+        errorCount++;
+      }
+    });
+
+    if (changed) {
+      fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
+      console.log(`✅ Updated: ${filename}`);
+      updatedCount++;
+    }
+  });
+
+  console.log('\n📊 Re-derive Summary:');
+  console.log(`✅ Updated: ${updatedCount} files`);
+  console.log(`❌ Errors: ${errorCount} placements`);
+  if (errorCount > 0) process.exitCode = 1;
+}
+
 /**
  * Validation function to compare with correct format
  */
@@ -195,16 +264,25 @@ function validateConversion() {
 }
 
 // Run conversion
-if (require.main === module) {
-  convertAllLegacyFiles();
-  validateConversion();
-  
-  console.log('\n🚀 Conversion complete!');
-  console.log('📋 Next steps:');
-  console.log('1. Review converted files in:', OUTPUT_DIR);
-  console.log('2. Test with a few sample files');
-  console.log('3. Move converted files to main solutions directory');
-  console.log('4. Remove legacy files when satisfied');
+if (require.main === module && process.argv.includes('--rederive')) {
+  rederiveConvertedSolutions().catch(err => {
+    console.error(err);
+    process.exitCode = 1;
+  });
+} else if (require.main === module) {
+  convertAllLegacyFiles().then(() => {
+    validateConversion();
+    
+    console.log('\n🚀 Conversion complete!');
+    console.log('📋 Next steps:');
+    console.log('1. Review converted files in:', OUTPUT_DIR);
+    console.log('2. Test with a few sample files');
+    console.log('3. Move converted files to main solutions directory');
+    console.log('4. Remove legacy files when satisfied');
+  }).catch(err => {
+    console.error(err);
+    process.exitCode = 1;
+  });
 }
 
-module.exports = { convertLegacySolution, calculateOrientationAndTranslation };
+module.exports = { convertLegacySolution, calculateOrientationAndTranslation, rederiveConvertedSolutions, loadPieceLibrary };
@@ -0,0 +1,97 @@
+#!/usr/bin/env node
+
+/**
+ * Container CID Migration
+ * Rewrites library containers whose `cid` is empty, malformed, or a zero-padded
+ * placeholder (written by old saves) with the full CID from src/lib/cid.ts
+ *
+ * Usage: node scripts/migrateContainerCIDs.cjs [--check] [--include-mismatch] [dir...]
+ *   --check             report only, write nothing
+ *   --include-mismatch  also rewrite well-formed CIDs that differ from the recomputed one
+ *                       (hosted containers carry engine-issued CIDs that computeCID does not
+ *                       reproduce; rewriting them breaks links with engine output)
+ *   dir                 container folders (default: public/content/containers)
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const DEFAULT_DIR = path.join(__dirname, '../public/content/containers');
+
+/**
+ * Load the CID module (src/lib/cid.ts) through Vite so there is one implementation
+ */
+async function loadCidModule() {
+  const { createServer } = await import('vite');
+  const server = await createServer({
+    root: path.join(__dirname, '..'),
+    configFile: false,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false },
+    optimizeDeps: { noDiscovery: true, include: [] }
+  });
+
+  try {
+    return await server.ssrLoadModule('/src/lib/cid.ts');
+  } finally {
+    await server.close();
+  }
+}
+
+async function migrate(dirs, { check, includeMismatch }) {
+  const cidModule = await loadCidModule();
+  const counts = { match: 0, mismatch: 0, missing: 0, padded: 0, invalid: 0, rewritten: 0, errors: 0 };
+
+  for (const dir of dirs) {
+    const files = fs.readdirSync(dir).filter(name => name.endsWith('.fcc.json'));
+
+    for (const name of files) {
+      const filePath = path.join(dir, name);
+      try {
+        const container = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        const cells = container.cells || container.coordinates;
+        if (!Array.isArray(cells)) throw new Error('no cells');
+
+        const result = await cidModule.verifyCID(cells.map(([x, y, z]) => ({ x, y, z })), container.cid);
+        counts[result.status]++;
+        if (result.status === 'match') continue;
+
+        const rewrite = result.status !== 'mismatch' || includeMismatch;
+        console.log(`${rewrite ? '✏️ ' : '⚠️ '} ${name}: ${result.status} (stored ${result.stored || '(none)'}, computed ${result.computed})`);
+        if (!rewrite || check) continue;
+
+        container.cid = result.computed;
+        fs.writeFileSync(filePath, JSON.stringify(container, null, 2));
+        counts.rewritten++;
+      } catch (error) {
+        console.error(`❌ ${name}: ${error.message}`);
+        counts.errors++;
+      }
+    }
+  }
+
+  console.log('\n📊 CID Migration Summary:');
+  console.log(`✅ Verified: ${counts.match}`);
+  console.log(`⚠️  Mismatched: ${counts.mismatch}${includeMismatch ? '' : ' (left as is; engine-issued CIDs are kept)'}`);
+  console.log(`🕳️  Missing: ${counts.missing}, padded: ${counts.padded}, invalid: ${counts.invalid}`);
+  console.log(`✏️  Rewritten: ${counts.rewritten}${check ? ' (--check, nothing written)' : ''}`);
+  console.log(`❌ Errors: ${counts.errors}`);
+  if (counts.rewritten > 0) {
+    console.log('\n📋 Next step: npm run content:index to refresh the manifest CIDs');
+  }
+}
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const dirs = args.filter(arg => !arg.startsWith('--'));
+  migrate(dirs.length > 0 ? dirs : [DEFAULT_DIR], {
+    check: args.includes('--check'),
+    includeMismatch: args.includes('--include-mismatch')
+  }).catch(error => {
+    console.error('❌ Migration failed:', error.message);
+    process.exit(1);
+  });
+}
+
+module.exports = { migrate, loadCidModule };
@@ -2,6 +2,7 @@ import { HashRouter, Routes, Route } from 'react-router-dom';
 import HomePage from './views/HomePage';
 import PuzzleShapePage from './views/PuzzleShapePage';
 import ViewSolutionPage from './views/ViewSolutionPage';
+import StatusMonitorPage from './views/StatusMonitorPage';
 
 export default function App() {
   return (
@@ -17,7 +18,11 @@ export default function App() {
         <Routes>
           <Route path="/" element={<HomePage />} />
           <Route path="/puzzle-shape" element={<PuzzleShapePage />} />
+          <Route path="/shape" element={<PuzzleShapePage />} />
+          <Route path="/shape/:cid" element={<PuzzleShapePage />} />
           <Route path="/view-solution" element={<ViewSolutionPage />} />
+          <Route path="/solution/:file" element={<ViewSolutionPage />} />
+          <Route path="/status-monitor" element={<StatusMonitorPage />} />
         </Routes>
       </div>
     </HashRouter>
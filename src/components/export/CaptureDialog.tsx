@@ -0,0 +1,294 @@
+// Capture Dialog
+// PNG snapshot of the 3D view at any resolution, and WebM turntable or assembly recordings
+
+import React, { useState } from 'react';
+import {
+  CaptureTarget,
+  MAX_CAPTURE_SIZE,
+  capturePNG,
+  getVideoMimeType,
+  recordTurntable,
+  startCanvasRecording
+} from '../../services/capture';
+import { saveBlobFile } from '../../services/files';
+
+interface CaptureDialogProps {
+  title: string;
+  baseName: string;
+  getTarget: () => CaptureTarget | null;
+  assembly?: { start: () => void; durationMs: number }; // Solution view: replay the assembly while recording
+  onClose: () => void;
+}
+
+type SizePreset = 'screen' | 'screen2' | 'screen4' | 'square' | 'hd' | '4k' | 'custom';
+
+const SIZE_PRESETS: { id: SizePreset; label: string; size?: [number, number] }[] = [
+  { id: 'screen', label: 'Screen size' },
+  { id: 'screen2', label: 'Screen ×2' },
+  { id: 'screen4', label: 'Screen ×4' },
+  { id: 'square', label: 'Square 1080 × 1080', size: [1080, 1080] },
+  { id: 'hd', label: 'Full HD 1920 × 1080', size: [1920, 1080] },
+  { id: '4k', label: '4K 3840 × 2160', size: [3840, 2160] },
+  { id: 'custom', label: 'Custom' }
+];
+
+export default function CaptureDialog({ title, baseName, getTarget, assembly, onClose }: CaptureDialogProps) {
+  const screenSize = (): [number, number] => {
+    const canvas = getTarget()?.renderer.domElement;
+    const ratio = window.devicePixelRatio || 1;
+    return canvas ? [Math.round(canvas.clientWidth * ratio), Math.round(canvas.clientHeight * ratio)] : [1920, 1080];
+  };
+
+  const [preset, setPreset] = useState<SizePreset>('screen2');
+  const [customSize, setCustomSize] = useState<[number, number]>(screenSize);
+  const [transparent, setTransparent] = useState(false);
+  const [videoMode, setVideoMode] = useState<'turntable' | 'assembly'>('turntable');
+  const [turntableSeconds, setTurntableSeconds] = useState(8);
+  const [busy, setBusy] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  const videoSupported = getVideoMimeType() !== null;
+
+  const imageSize = (): [number, number] => {
+    const chosen = SIZE_PRESETS.find(p => p.id === preset)!;
+    if (chosen.size) return chosen.size;
+    if (preset === 'custom') return customSize;
+    const [width, height] = screenSize();
+    const scale = preset === 'screen4' ? 4 : preset === 'screen2' ? 2 : 1;
+    return [width * scale, height * scale];
+  };
+  const [width, height] = imageSize();
+  const oversize = Math.max(width, height) > MAX_CAPTURE_SIZE;
+
+  const save = async (blob: Blob, extension: string, description: string, mime: string) => {
+    try {
+      await saveBlobFile(blob, `${baseName}${extension}`, description, { [mime]: [extension] });
+    } catch (err) {
+      if ((err as Error).message !== 'Save cancelled') throw err;
+    }
+  };
+
+  const handleSnapshot = async () => {
+    const target = getTarget();
+    if (!target) return;
+    setBusy('Rendering...');
+    setError('');
+    try {
+      const blob = await capturePNG(target, { width, height, transparent });
+      await save(blob, '.png', 'PNG image', 'image/png');
+    } catch (err) {
+      setError(`Snapshot failed: ${(err as Error).message}`);
+    } finally {
+      setBusy('');
+    }
+  };
+
+  const handleRecord = async () => {
+    const target = getTarget();
+    if (!target) return;
+    setError('');
+    try {
+      let blob: Blob;
+      if (videoMode === 'assembly' && assembly) {
+        setBusy('Recording assembly...');
+        const recording = startCanvasRecording(target.renderer.domElement);
+        assembly.start();
+        await new Promise(resolve => setTimeout(resolve, assembly.durationMs));
+        blob = await recording.stop();
+      } else {
+        blob = await recordTurntable(target, turntableSeconds * 1000, fraction => setBusy(`Recording turntable... ${Math.round(fraction * 100)}%`));
+      }
+      setBusy('Saving...');
+      await save(blob, `.${videoMode}.webm`, 'WebM video', 'video/webm');
+    } catch (err) {
+      setError(`Recording failed: ${(err as Error).message}`);
+    } finally {
+      setBusy('');
+    }
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '80px',
+    padding: '6px 8px',
+    border: '1px solid #ced4da',
+    borderRadius: '6px',
+    fontSize: '14px'
+  };
+
+  const selectStyle: React.CSSProperties = {
+    padding: '8px 12px',
+    border: '1px solid #ced4da',
+    borderRadius: '6px',
+    fontSize: '14px',
+    backgroundColor: 'white'
+  };
+
+  const buttonStyle = (color: string, disabled: boolean): React.CSSProperties => ({
+    padding: '8px 16px',
+    backgroundColor: color,
+    color: 'white',
+    border: 'none',
+    borderRadius: '6px',
+    fontSize: '14px',
+    fontWeight: '500',
+    cursor: disabled ? 'not-allowed' : 'pointer',
+    opacity: disabled ? 0.6 : 1
+  });
+
+  const sectionTitle: React.CSSProperties = { fontSize: '14px', fontWeight: '600', color: '#333' };
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      zIndex: 2000,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: '20px'
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        borderRadius: '12px',
+        width: '100%',
+        maxWidth: '600px',
+        maxHeight: '80vh',
+        display: 'flex',
+        flexDirection: 'column',
+        boxShadow: '0 10px 25px rgba(0, 0, 0, 0.2)'
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: '20px',
+          borderBottom: '1px solid #e9ecef',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center'
+        }}>
+          <h2 style={{ margin: 0, fontSize: '20px', fontWeight: '600' }}>
+            {title}
+          </h2>
+          <button
+            onClick={onClose}
+            disabled={!!busy}
+            style={{
+              background: 'none',
+              border: 'none',
+              fontSize: '24px',
+              cursor: busy ? 'not-allowed' : 'pointer',
+              color: '#6c757d',
+              padding: '0',
+              width: '30px',
+              height: '30px',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center'
+            }}
+          >
+            ×
+          </button>
+        </div>
+
+        <div style={{ flex: 1, overflowY: 'auto', padding: '16px 20px', display: 'flex', flexDirection: 'column', gap: '12px' }}>
+          {/* Image */}
+          <div style={sectionTitle}>📸 Image</div>
+          <select value={preset} onChange={(e) => setPreset(e.target.value as SizePreset)} style={selectStyle}>
+            {SIZE_PRESETS.map(p => (
+              <option key={p.id} value={p.id}>{p.label}</option>
+            ))}
+          </select>
+          {preset === 'custom' && (
+            <div style={{ display: 'flex', gap: '8px', alignItems: 'center', fontSize: '14px', color: '#495057' }}>
+              <input
+                type="number"
+                min={1}
+                max={MAX_CAPTURE_SIZE}
+                value={customSize[0]}
+                onChange={(e) => setCustomSize([Number(e.target.value), customSize[1]])}
+                style={inputStyle}
+              />
+              ×
+              <input
+                type="number"
+                min={1}
+                max={MAX_CAPTURE_SIZE}
+                value={customSize[1]}
+                onChange={(e) => setCustomSize([customSize[0], Number(e.target.value)])}
+                style={inputStyle}
+              />
+              px
+            </div>
+          )}
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '14px', color: '#495057' }}>
+            <input type="checkbox" checked={transparent} onChange={(e) => setTransparent(e.target.checked)} />
+            Transparent background
+          </label>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '8px' }}>
+            <span style={{ fontSize: '12px', color: oversize ? '#dc3545' : '#6c757d' }}>
+              {width} × {height} px{oversize && ` · capped at ${MAX_CAPTURE_SIZE} px per side`}
+            </span>
+            <button onClick={handleSnapshot} disabled={!!busy} style={buttonStyle('#28a745', !!busy)}>
+              Save PNG
+            </button>
+          </div>
+
+          {/* Video */}
+          <div style={{ ...sectionTitle, marginTop: '8px' }}>🎬 Video</div>
+          {videoSupported ? (
+            <>
+              <select value={videoMode} onChange={(e) => setVideoMode(e.target.value as 'turntable' | 'assembly')} style={selectStyle}>
+                <option value="turntable">360° turntable</option>
+                {assembly && <option value="assembly">Assembly sequence</option>}
+              </select>
+              {videoMode === 'turntable' ? (
+                <label style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: '14px', color: '#495057' }}>
+                  Seconds per turn
+                  <input
+                    type="number"
+                    min={2}
+                    max={60}
+                    value={turntableSeconds}
+                    onChange={(e) => setTurntableSeconds(Math.min(60, Math.max(2, Number(e.target.value) || 2)))}
+                    style={inputStyle}
+                  />
+                </label>
+              ) : (
+                <div style={{ fontSize: '12px', color: '#6c757d' }}>
+                  Plays the assembly at the current speed (about {Math.round((assembly?.durationMs || 0) / 1000)} s).
+                </div>
+              )}
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '8px' }}>
+                <span style={{ fontSize: '12px', color: '#6c757d' }}>
+                  {busy || 'Records the view at screen size as WebM.'}
+                </span>
+                <button onClick={handleRecord} disabled={!!busy} style={buttonStyle('#dc3545', !!busy)}>
+                  ● Record
+                </button>
+              </div>
+            </>
+          ) : (
+            <div style={{ fontSize: '12px', color: '#6c757d' }}>
+              This browser cannot record WebM video from a canvas.
+            </div>
+          )}
+
+          {error && (
+            <div style={{
+              padding: '8px 10px',
+              backgroundColor: '#f8d7da',
+              color: '#721c24',
+              borderRadius: '6px',
+              fontSize: '12px'
+            }}>
+              {error}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
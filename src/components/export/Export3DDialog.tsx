@@ -0,0 +1,249 @@
+// Export 3D Dialog
+// Saves the current container or solution as STL, OBJ or glTF with ball size, tessellation and bonds
+
+import React, { useState } from 'react';
+import * as THREE from 'three';
+import { ModelOptions, DEFAULT_MODEL_OPTIONS, disposeModel } from '../../lib/geometry/exportModel';
+import { ExportFormat, EXPORT_FORMATS, saveModelFile } from '../../services/export3d';
+
+interface Export3DDialogProps {
+  title: string;
+  baseName: string;
+  ballCount: number;
+  buildModel: (options: ModelOptions) => THREE.Object3D;
+  onClose: () => void;
+}
+
+const FORMATS = Object.keys(EXPORT_FORMATS) as ExportFormat[];
+const EXPORT_OPTIONS_KEY = 'export3dOptions';
+
+export default function Export3DDialog({ title, baseName, ballCount, buildModel, onClose }: Export3DDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>('stl');
+  const [options, setOptions] = useState<ModelOptions>(() => {
+    try {
+      return { ...DEFAULT_MODEL_OPTIONS, ...JSON.parse(localStorage.getItem(EXPORT_OPTIONS_KEY) || '{}') };
+    } catch (err) {
+      return DEFAULT_MODEL_OPTIONS;
+    }
+  });
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const setOption = (field: keyof ModelOptions, value: number | boolean) => {
+    setOptions(prev => ({ ...prev, [field]: value }));
+  };
+
+  // Rough size so nobody is surprised by a huge file: 2 triangles per sphere quad
+  const trianglesPerBall = options.segments * Math.round(options.segments / 2) * 2;
+  const estimatedTriangles = ballCount * trianglesPerBall;
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError('');
+    localStorage.setItem(EXPORT_OPTIONS_KEY, JSON.stringify(options));
+    const model = buildModel(options);
+    try {
+      await saveModelFile(model, format, baseName);
+      onClose();
+    } catch (err) {
+      if ((err as Error).message !== 'Save cancelled') {
+        setError(`Export failed: ${(err as Error).message}`);
+      }
+    } finally {
+      disposeModel(model);
+      setExporting(false);
+    }
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '80px',
+    padding: '6px 8px',
+    border: '1px solid #ced4da',
+    borderRadius: '6px',
+    fontSize: '14px'
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    fontSize: '14px',
+    color: '#495057'
+  };
+
+  const numberField = (label: string, field: 'spacing' | 'radius' | 'segments' | 'bondRadius', min: number, max: number, step: number) => (
+    <label style={labelStyle}>
+      {label}
+      <input
+        type="number"
+        min={min}
+        max={max}
+        step={step}
+        value={options[field]}
+        onChange={(e) => {
+          const value = parseFloat(e.target.value);
+          if (!isNaN(value)) setOption(field, Math.min(max, Math.max(min, value)));
+        }}
+        style={inputStyle}
+      />
+    </label>
+  );
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      zIndex: 2000,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: '20px'
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        borderRadius: '12px',
+        width: '100%',
+        maxWidth: '600px',
+        maxHeight: '80vh',
+        display: 'flex',
+        flexDirection: 'column',
+        boxShadow: '0 10px 25px rgba(0, 0, 0, 0.2)'
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: '20px',
+          borderBottom: '1px solid #e9ecef',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center'
+        }}>
+          <h2 style={{ margin: 0, fontSize: '20px', fontWeight: '600' }}>
+            {title}
+          </h2>
+          <button
+            onClick={onClose}
+            style={{
+              background: 'none',
+              border: 'none',
+              fontSize: '24px',
+              cursor: 'pointer',
+              color: '#6c757d',
+              padding: '0',
+              width: '30px',
+              height: '30px',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center'
+            }}
+          >
+            ×
+          </button>
+        </div>
+
+        {/* Options */}
+        <div style={{ flex: 1, overflowY: 'auto', padding: '16px 20px', display: 'flex', flexDirection: 'column', gap: '12px' }}>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ExportFormat)}
+            style={{
+              padding: '8px 12px',
+              border: '1px solid #ced4da',
+              borderRadius: '6px',
+              fontSize: '14px',
+              backgroundColor: 'white'
+            }}
+          >
+            {FORMATS.map(f => (
+              <option key={f} value={f}>{EXPORT_FORMATS[f].label}</option>
+            ))}
+          </select>
+
+          {numberField('Ball spacing (mm between centres)', 'spacing', 1, 200, 1)}
+          {numberField('Ball radius (1 = just touching)', 'radius', 0.5, 1.5, 0.01)}
+          {numberField('Tessellation (segments)', 'segments', 6, 64, 2)}
+
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '14px', color: '#495057' }}>
+            <input
+              type="checkbox"
+              checked={options.bonds}
+              onChange={(e) => setOption('bonds', e.target.checked)}
+            />
+            Bonds between touching balls of a piece
+          </label>
+          {options.bonds && numberField('Bond thickness (× ball radius)', 'bondRadius', 0.05, 1, 0.05)}
+
+          <div style={{
+            padding: '10px',
+            backgroundColor: '#f8f9fa',
+            borderRadius: '6px',
+            fontSize: '13px',
+            color: '#495057'
+          }}>
+            <div style={{ fontFamily: 'monospace' }}>{baseName}{EXPORT_FORMATS[format].extension}</div>
+            <div>
+              {ballCount} balls · about {estimatedTriangles.toLocaleString()} triangles
+              {format === 'stl' || format === 'obj' ? ' · one merged mesh per piece' : ' · one node and material per piece'}
+            </div>
+          </div>
+
+          {error && (
+            <div style={{
+              padding: '8px 10px',
+              backgroundColor: '#f8d7da',
+              color: '#721c24',
+              borderRadius: '6px',
+              fontSize: '12px'
+            }}>
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div style={{
+          padding: '16px 20px',
+          borderTop: '1px solid #e9ecef',
+          display: 'flex',
+          justifyContent: 'flex-end',
+          gap: '8px'
+        }}>
+          <button
+            onClick={onClose}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: '#6c757d',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              fontSize: '14px',
+              cursor: 'pointer'
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={exporting || ballCount === 0}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: '#28a745',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              fontSize: '14px',
+              fontWeight: '500',
+              cursor: exporting || ballCount === 0 ? 'not-allowed' : 'pointer',
+              opacity: exporting ? 0.6 : 1
+            }}
+          >
+            {exporting ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
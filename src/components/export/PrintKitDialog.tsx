@@ -0,0 +1,256 @@
+// Print Kit Dialog
+// Per-piece STL/3MF models, bill of materials and assembly sheet for building a solution in the workshop
+
+import React, { useState, useMemo } from 'react';
+import { SolutionFile, SolutionSettings } from '../../types/solution';
+import { ModelOptions, DEFAULT_MODEL_OPTIONS } from '../../lib/geometry/exportModel';
+import { PieceFileFormat, billOfMaterials, savePrintKit, printAssemblySheet } from '../../services/printKit';
+
+interface PrintKitDialogProps {
+  solution: SolutionFile;
+  solutionName: string;
+  settings: SolutionSettings;
+  buildOrder: number[]; // Placement indices, bottom to top
+  onClose: () => void;
+}
+
+const PRINT_KIT_OPTIONS_KEY = 'printKitOptions';
+
+export default function PrintKitDialog({ solution, solutionName, settings, buildOrder, onClose }: PrintKitDialogProps) {
+  const [format, setFormat] = useState<PieceFileFormat>('stl');
+  const [options, setOptions] = useState<ModelOptions>(() => {
+    let saved: Partial<ModelOptions> = {};
+    try {
+      saved = JSON.parse(localStorage.getItem(PRINT_KIT_OPTIONS_KEY) || '{}');
+    } catch (err) {
+      saved = {};
+    }
+    // Bonds follow the viewer settings so prints match what is on screen
+    return {
+      ...DEFAULT_MODEL_OPTIONS,
+      ...saved,
+      bonds: settings.bonds?.enabled !== false,
+      bondRadius: settings.bonds?.thickness ?? DEFAULT_MODEL_OPTIONS.bondRadius
+    };
+  });
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const rows = useMemo(() => billOfMaterials(solution, settings.pieceColors), [solution, settings.pieceColors]);
+  const name = solutionName || 'solution';
+
+  const setOption = (field: keyof ModelOptions, value: number | boolean) => {
+    setOptions(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleDownload = async () => {
+    setExporting(true);
+    setError('');
+    localStorage.setItem(PRINT_KIT_OPTIONS_KEY, JSON.stringify({ spacing: options.spacing, radius: options.radius, segments: options.segments }));
+    try {
+      // Let "Building..." paint before the synchronous mesh and zip work
+      await new Promise(resolve => setTimeout(resolve, 0));
+      await savePrintKit(solution, name, buildOrder, settings.pieceColors, options, format);
+    } catch (err) {
+      if ((err as Error).message !== 'Save cancelled') {
+        setError(`Export failed: ${(err as Error).message}`);
+      }
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handlePrintSheet = () => {
+    if (!printAssemblySheet(solution, name, buildOrder, settings.pieceColors, format)) {
+      setError('The browser blocked the assembly sheet window; allow pop-ups for this site.');
+    }
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '80px',
+    padding: '6px 8px',
+    border: '1px solid #ced4da',
+    borderRadius: '6px',
+    fontSize: '14px'
+  };
+
+  const numberField = (label: string, field: 'spacing' | 'radius' | 'segments' | 'bondRadius', min: number, max: number, step: number) => (
+    <label style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: '14px', color: '#495057' }}>
+      {label}
+      <input
+        type="number"
+        min={min}
+        max={max}
+        step={step}
+        value={options[field]}
+        onChange={(e) => {
+          const value = parseFloat(e.target.value);
+          if (!isNaN(value)) setOption(field, Math.min(max, Math.max(min, value)));
+        }}
+        style={inputStyle}
+      />
+    </label>
+  );
+
+  const buttonStyle = (color: string, disabled = false): React.CSSProperties => ({
+    padding: '8px 16px',
+    backgroundColor: color,
+    color: 'white',
+    border: 'none',
+    borderRadius: '6px',
+    fontSize: '14px',
+    fontWeight: '500',
+    cursor: disabled ? 'not-allowed' : 'pointer',
+    opacity: disabled ? 0.6 : 1
+  });
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      zIndex: 2000,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: '20px'
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        borderRadius: '12px',
+        width: '100%',
+        maxWidth: '600px',
+        maxHeight: '80vh',
+        display: 'flex',
+        flexDirection: 'column',
+        boxShadow: '0 10px 25px rgba(0, 0, 0, 0.2)'
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: '20px',
+          borderBottom: '1px solid #e9ecef',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center'
+        }}>
+          <h2 style={{ margin: 0, fontSize: '20px', fontWeight: '600' }}>
+            Print Kit
+          </h2>
+          <button
+            onClick={onClose}
+            style={{
+              background: 'none',
+              border: 'none',
+              fontSize: '24px',
+              cursor: 'pointer',
+              color: '#6c757d',
+              padding: '0',
+              width: '30px',
+              height: '30px',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center'
+            }}
+          >
+            ×
+          </button>
+        </div>
+
+        <div style={{ flex: 1, overflowY: 'auto', padding: '16px 20px', display: 'flex', flexDirection: 'column', gap: '12px' }}>
+          {/* Piece models */}
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as PieceFileFormat)}
+            style={{
+              padding: '8px 12px',
+              border: '1px solid #ced4da',
+              borderRadius: '6px',
+              fontSize: '14px',
+              backgroundColor: 'white'
+            }}
+          >
+            <option value="stl">One STL per piece</option>
+            <option value="3mf">One 3MF per piece (with colour)</option>
+          </select>
+
+          {numberField('Ball spacing (mm between centres)', 'spacing', 1, 200, 1)}
+          {numberField('Ball radius (1 = just touching)', 'radius', 0.5, 1.5, 0.01)}
+          {numberField('Tessellation (segments)', 'segments', 6, 64, 2)}
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '14px', color: '#495057' }}>
+            <input
+              type="checkbox"
+              checked={options.bonds}
+              onChange={(e) => setOption('bonds', e.target.checked)}
+            />
+            Bonds between the balls of each piece
+          </label>
+          {options.bonds && numberField('Bond thickness (× ball radius)', 'bondRadius', 0.05, 1, 0.05)}
+
+          {/* Bill of materials */}
+          <div>
+            <div style={{ fontSize: '14px', fontWeight: '600', color: '#333', marginBottom: '6px' }}>
+              Bill of materials · {solution.placements.length} pieces
+            </div>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+              {rows.map(row => (
+                <span
+                  key={row.piece}
+                  style={{
+                    display: 'inline-flex',
+                    alignItems: 'center',
+                    gap: '4px',
+                    padding: '3px 8px',
+                    backgroundColor: '#f8f9fa',
+                    border: '1px solid #dee2e6',
+                    borderRadius: '4px',
+                    fontSize: '12px'
+                  }}
+                >
+                  <span style={{ width: '10px', height: '10px', borderRadius: '50%', backgroundColor: row.color }} />
+                  {row.piece}{row.count > 1 ? ` ×${row.count}` : ''}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div style={{ fontSize: '12px', color: '#6c757d' }}>
+            The zip holds the piece models numbered in build order, bom.csv, bom.json and assembly.html.
+            Everything is generated in this browser.
+          </div>
+
+          {error && (
+            <div style={{
+              padding: '8px 10px',
+              backgroundColor: '#f8d7da',
+              color: '#721c24',
+              borderRadius: '6px',
+              fontSize: '12px'
+            }}>
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div style={{
+          padding: '16px 20px',
+          borderTop: '1px solid #e9ecef',
+          display: 'flex',
+          justifyContent: 'flex-end',
+          gap: '8px',
+          flexWrap: 'wrap'
+        }}>
+          <button onClick={handlePrintSheet} style={buttonStyle('#6c757d')}>
+            🖨️ Assembly sheet
+          </button>
+          <button onClick={handleDownload} disabled={exporting} style={buttonStyle('#28a745', exporting)}>
+            {exporting ? 'Building...' : 'Download kit (.zip)'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
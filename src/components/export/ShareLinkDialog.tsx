@@ -0,0 +1,185 @@
+// Share Link Dialog
+// Link to the current shape or solution, optionally with the camera and colours, ready to copy or share
+
+import React, { useState, useEffect } from 'react';
+import { ShareLink } from '../../services/deepLinks';
+
+interface ShareLinkDialogProps {
+  title: string;
+  createLink: (includeView: boolean) => Promise<ShareLink>;
+  onClose: () => void;
+}
+
+export default function ShareLinkDialog({ title, createLink, onClose }: ShareLinkDialogProps) {
+  const [includeView, setIncludeView] = useState(true);
+  const [link, setLink] = useState<ShareLink | null>(null);
+  const [error, setError] = useState<string>('');
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLink(null);
+    setError('');
+    setCopied(false);
+    createLink(includeView)
+      .then(result => {
+        if (!cancelled) setLink(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError((err as Error).message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [includeView]);
+
+  const handleCopy = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link.url);
+      setCopied(true);
+      console.log(`🔗 SHARE: Copied ${link.url.length}-character link`);
+    } catch (err) {
+      setError('Copying is blocked in this browser; select the link and copy it by hand.');
+    }
+  };
+
+  const handleShare = async () => {
+    if (!link) return;
+    try {
+      await navigator.share({ title, url: link.url });
+    } catch (err) {
+      // Dismissing the share sheet rejects too; nothing to report
+    }
+  };
+
+  const buttonStyle = (color: string, disabled: boolean): React.CSSProperties => ({
+    padding: '8px 16px',
+    backgroundColor: color,
+    color: 'white',
+    border: 'none',
+    borderRadius: '6px',
+    fontSize: '14px',
+    fontWeight: '500',
+    cursor: disabled ? 'not-allowed' : 'pointer',
+    opacity: disabled ? 0.6 : 1
+  });
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      zIndex: 2000,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: '20px'
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        borderRadius: '12px',
+        width: '100%',
+        maxWidth: '600px',
+        maxHeight: '80vh',
+        display: 'flex',
+        flexDirection: 'column',
+        boxShadow: '0 10px 25px rgba(0, 0, 0, 0.2)'
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: '20px',
+          borderBottom: '1px solid #e9ecef',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center'
+        }}>
+          <h2 style={{ margin: 0, fontSize: '20px', fontWeight: '600' }}>
+            {title}
+          </h2>
+          <button
+            onClick={onClose}
+            style={{
+              background: 'none',
+              border: 'none',
+              fontSize: '24px',
+              cursor: 'pointer',
+              color: '#6c757d',
+              padding: '0',
+              width: '30px',
+              height: '30px',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center'
+            }}
+          >
+            ×
+          </button>
+        </div>
+
+        <div style={{ flex: 1, overflowY: 'auto', padding: '16px 20px', display: 'flex', flexDirection: 'column', gap: '12px' }}>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '14px', color: '#495057' }}>
+            <input type="checkbox" checked={includeView} onChange={(e) => setIncludeView(e.target.checked)} />
+            Include the current view (camera and colours)
+          </label>
+
+          <textarea
+            readOnly
+            value={link ? link.url : ''}
+            placeholder={error ? '' : 'Creating link...'}
+            onFocus={(e) => e.target.select()}
+            rows={3}
+            style={{
+              padding: '8px 12px',
+              border: '1px solid #ced4da',
+              borderRadius: '6px',
+              fontSize: '12px',
+              fontFamily: 'monospace',
+              resize: 'none',
+              wordBreak: 'break-all'
+            }}
+          />
+
+          {link && (
+            <div style={{ fontSize: '12px', color: '#6c757d' }}>
+              {link.description}
+            </div>
+          )}
+
+          {error && (
+            <div style={{
+              padding: '8px 10px',
+              backgroundColor: '#f8d7da',
+              color: '#721c24',
+              borderRadius: '6px',
+              fontSize: '12px'
+            }}>
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div style={{
+          padding: '16px 20px',
+          borderTop: '1px solid #e9ecef',
+          display: 'flex',
+          justifyContent: 'flex-end',
+          gap: '8px'
+        }}>
+          {typeof navigator.share === 'function' && (
+            <button onClick={handleShare} disabled={!link} style={buttonStyle('#6c757d', !link)}>
+              Share...
+            </button>
+          )}
+          <button onClick={handleCopy} disabled={!link} style={buttonStyle('#007bff', !link)}>
+            {copied ? '✓ Copied' : 'Copy link'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
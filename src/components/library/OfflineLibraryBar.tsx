@@ -0,0 +1,115 @@
+// Offline Library Bar
+// How much of the hosted library is cached on this device, with download and remove actions
+
+import React, { useState, useEffect } from 'react';
+import {
+  OfflineStatus,
+  offlineCachingSupported,
+  getOfflineStatus,
+  downloadLibraryForOffline,
+  removeOfflineLibrary,
+  formatBytes
+} from '../../services/offline';
+
+export default function OfflineLibraryBar() {
+  const [status, setStatus] = useState<OfflineStatus | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [confirmRemove, setConfirmRemove] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const refresh = async () => {
+    try {
+      setStatus(await getOfflineStatus());
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  useEffect(() => {
+    if (offlineCachingSupported()) refresh();
+  }, []);
+
+  if (!offlineCachingSupported()) return null;
+
+  const handleDownload = async () => {
+    setError('');
+    setProgress({ done: 0, total: 0 });
+    try {
+      const failed = await downloadLibraryForOffline((done, total) => setProgress({ done, total }));
+      if (failed > 0) setError(`${failed} file${failed !== 1 ? 's' : ''} could not be downloaded; try again when the connection is better.`);
+    } catch (err) {
+      setError(`Download failed: ${(err as Error).message}`);
+    } finally {
+      setProgress(null);
+      await refresh();
+    }
+  };
+
+  const handleRemove = async () => {
+    setError('');
+    setConfirmRemove(false);
+    try {
+      await removeOfflineLibrary();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+    await refresh();
+  };
+
+  const complete = status !== null && status.totalFiles > 0 && status.cachedFiles === status.totalFiles;
+
+  const smallButton = (color: string, disabled = false): React.CSSProperties => ({
+    fontSize: '11px',
+    color,
+    fontWeight: '500',
+    padding: '4px 8px',
+    backgroundColor: '#f8f9fa',
+    borderRadius: '4px',
+    border: `1px solid ${color}`,
+    cursor: disabled ? 'not-allowed' : 'pointer',
+    opacity: disabled ? 0.6 : 1
+  });
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', marginTop: '8px' }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '8px', flexWrap: 'wrap' }}>
+        <span>
+          {progress
+            ? `Downloading ${progress.done} of ${progress.total}...`
+            : status
+              ? `Offline: ${status.cachedFiles} of ${status.totalFiles} files`
+              : 'Checking offline copy...'}
+          {status?.usage != null && !progress && (
+            ` · ${formatBytes(status.usage)}${status.quota ? ` of ${formatBytes(status.quota)}` : ''} used`
+          )}
+        </span>
+
+        {confirmRemove ? (
+          <>
+            <button onClick={handleRemove} style={smallButton('#dc3545')}>Remove</button>
+            <button onClick={() => setConfirmRemove(false)} style={smallButton('#6c757d')}>Keep</button>
+          </>
+        ) : (
+          <>
+            {!complete && (
+              <button onClick={handleDownload} disabled={!!progress || !status} style={smallButton('#007bff', !!progress || !status)}>
+                ⬇️ Download for offline
+              </button>
+            )}
+            {status && status.cachedFiles > 0 && !progress && (
+              <button onClick={() => setConfirmRemove(true)} style={smallButton('#dc3545')} title="Remove offline copy">
+                🗑️
+              </button>
+            )}
+          </>
+        )}
+      </div>
+
+      {error && (
+        <div style={{ color: '#721c24' }}>
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
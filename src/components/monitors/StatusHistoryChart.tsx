@@ -0,0 +1,67 @@
+// Status History Chart
+// Small SVG chart of progress (%) and node rate over elapsed time
+
+import React from 'react';
+import { StatusHistoryPoint, formatElapsed } from '../../lib/status/metrics';
+
+interface StatusHistoryChartProps {
+  points: StatusHistoryPoint[];
+  height?: number;
+}
+
+const WIDTH = 320;
+const PADDING = 4;
+
+export default function StatusHistoryChart({ points, height = 120 }: StatusHistoryChartProps) {
+  if (points.length < 2) {
+    return (
+      <div style={{
+        height: `${height}px`,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        color: '#6c757d',
+        fontSize: '12px',
+        backgroundColor: '#f8f9fa',
+        borderRadius: '6px'
+      }}>
+        History appears after two snapshots
+      </div>
+    );
+  }
+
+  const maxTime = Math.max(...points.map(p => p.elapsedMs), 1);
+  const rates = points.map(p => p.nodesPerSecond).filter((r): r is number => r !== null);
+  const maxRate = Math.max(...rates, 1);
+
+  const x = (ms: number) => PADDING + (ms / maxTime) * (WIDTH - 2 * PADDING);
+  const y = (fraction: number) => height - PADDING - fraction * (height - 2 * PADDING);
+
+  const line = (values: (number | null)[], scale: number) => points
+    .map((p, i) => (values[i] === null ? null : `${x(p.elapsedMs).toFixed(1)},${y(values[i]! / scale).toFixed(1)}`))
+    .filter(Boolean)
+    .join(' ');
+
+  const progressLine = line(points.map(p => p.progressPercent), 100);
+  const rateLine = line(points.map(p => p.nodesPerSecond), maxRate);
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        style={{ width: '100%', height: `${height}px`, backgroundColor: '#f8f9fa', borderRadius: '6px' }}
+        preserveAspectRatio="none"
+      >
+        {[0.25, 0.5, 0.75].map(fraction => (
+          <line key={fraction} x1={PADDING} x2={WIDTH - PADDING} y1={y(fraction)} y2={y(fraction)} stroke="#e9ecef" strokeWidth={1} />
+        ))}
+        {rateLine && <polyline points={rateLine} fill="none" stroke="#fd7e14" strokeWidth={1.5} />}
+        {progressLine && <polyline points={progressLine} fill="none" stroke="#007bff" strokeWidth={2} />}
+      </svg>
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '10px', color: '#6c757d', marginTop: '2px' }}>
+        <span><span style={{ color: '#007bff' }}>■</span> progress %  <span style={{ color: '#fd7e14' }}>■</span> nodes/s (max {Math.round(maxRate).toLocaleString()})</span>
+        <span>{formatElapsed(maxTime)}</span>
+      </div>
+    </div>
+  );
+}
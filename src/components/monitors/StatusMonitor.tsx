@@ -0,0 +1,112 @@
+// Status Monitor
+// Progress, node rate, depth and elapsed time for the latest solver status snapshot
+
+import React from 'react';
+import { StatusSnapshot } from '../../lib/guards/statusV1';
+import { computeStatusMetrics, buildStatusHistory, formatElapsed } from '../../lib/status/metrics';
+import StatusHistoryChart from './StatusHistoryChart';
+
+interface StatusMonitorProps {
+  history: StatusSnapshot[]; // Oldest first
+}
+
+const STATE_COLORS: Record<string, string> = {
+  solving: '#007bff',
+  solved: '#28a745',
+  failed: '#dc3545',
+  stopped: '#6c757d',
+  idle: '#6c757d'
+};
+
+function MetricCard({ label, value }: { label: string; value: string }) {
+  return (
+    <div style={{
+      flex: '1 1 120px',
+      padding: '10px 12px',
+      backgroundColor: '#f8f9fa',
+      borderRadius: '6px'
+    }}>
+      <div style={{ fontSize: '11px', color: '#6c757d', marginBottom: '2px' }}>{label}</div>
+      <div style={{ fontSize: '18px', fontWeight: '600', color: '#333', fontFamily: 'monospace' }}>{value}</div>
+    </div>
+  );
+}
+
+export default function StatusMonitor({ history }: StatusMonitorProps) {
+  const metrics = computeStatusMetrics(history);
+
+  if (!metrics) {
+    return (
+      <div style={{ textAlign: 'center', color: '#666', padding: '40px 20px' }}>
+        <div style={{ fontSize: '48px', marginBottom: '16px' }}>📈</div>
+        <h2 style={{ margin: '0 0 8px 0', fontSize: '20px' }}>No Status Loaded</h2>
+        <p style={{ margin: 0, fontSize: '14px' }}>
+          Load a status snapshot file or watch a status URL
+        </p>
+      </div>
+    );
+  }
+
+  const latest = history[history.length - 1];
+  const stateColor = STATE_COLORS[metrics.state] || '#6c757d';
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+      {/* State + container */}
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: '6px' }}>
+        <span style={{
+          padding: '4px 10px',
+          borderRadius: '12px',
+          backgroundColor: stateColor,
+          color: 'white',
+          fontSize: '12px',
+          fontWeight: '600',
+          textTransform: 'uppercase'
+        }}>
+          {metrics.state}
+        </span>
+        <span style={{ fontSize: '12px', color: '#6c757d' }}>
+          {latest.container_id || 'Unknown container'} · {new Date(latest.timestamp).toLocaleTimeString()}
+        </span>
+      </div>
+
+      {/* Progress bar */}
+      <div>
+        <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', color: '#495057', marginBottom: '4px' }}>
+          <span>Progress</span>
+          <span>
+            {metrics.progressPercent !== null ? `${metrics.progressPercent.toFixed(1)}%` : '—'}
+            {latest.pieces_placed !== undefined && latest.total_pieces !== undefined && ` · ${latest.pieces_placed}/${latest.total_pieces} pieces`}
+          </span>
+        </div>
+        <div style={{ height: '10px', backgroundColor: '#e9ecef', borderRadius: '5px', overflow: 'hidden' }}>
+          <div style={{
+            width: `${metrics.progressPercent ?? 0}%`,
+            height: '100%',
+            backgroundColor: stateColor,
+            transition: 'width 0.3s'
+          }} />
+        </div>
+      </div>
+
+      {/* Metrics */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
+        <MetricCard
+          label="Nodes / sec"
+          value={metrics.nodesPerSecond !== null ? Math.round(metrics.nodesPerSecond).toLocaleString() : '—'}
+        />
+        <MetricCard label="Depth" value={metrics.depth !== null ? String(metrics.depth) : '—'} />
+        <MetricCard label="Elapsed" value={metrics.elapsedMs !== null ? formatElapsed(metrics.elapsedMs) : '—'} />
+        <MetricCard
+          label="Nodes explored"
+          value={metrics.nodesExplored !== null ? metrics.nodesExplored.toLocaleString() : '—'}
+        />
+        <MetricCard label="Memory" value={metrics.memoryMb !== null ? `${metrics.memoryMb.toFixed(1)} MB` : '—'} />
+        <MetricCard label="Snapshots" value={String(history.length)} />
+      </div>
+
+      {/* History */}
+      <StatusHistoryChart points={buildStatusHistory(history)} />
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+// Container Solutions Panel
+// Library solutions for the loaded container, found through the manifest CID index
+
+import React, { useState, useEffect } from 'react';
+import { LibraryItem, CIDMatch, fetchCIDIndex, findSolutionsForContainer, sortContainers } from '../../services/library';
+
+interface ContainerSolutionsPanelProps {
+  containerCid: string;  // CID stored in the loaded container file ('' for unsaved shapes)
+  containerName: string;
+  onOpenSolution: (item: LibraryItem) => void;
+  onClose: () => void;
+}
+
+export default function ContainerSolutionsPanel({ containerCid, containerName, onOpenSolution, onClose }: ContainerSolutionsPanelProps) {
+  const [match, setMatch] = useState<CIDMatch<LibraryItem[]> | null>(null);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchCIDIndex()
+      .then(index => {
+        if (cancelled) return;
+        const found = findSolutionsForContainer(index, containerCid, containerName);
+        console.log(`🔗 LINK: ${found.result.length} solution(s) for ${containerName || containerCid} (matched by ${found.matchedBy || 'nothing'})`);
+        setMatch({ ...found, result: sortContainers(found.result, 'name') });
+      })
+      .catch(err => {
+        if (!cancelled) setError((err as Error).message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [containerCid, containerName]);
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      zIndex: 2000,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: '20px'
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        borderRadius: '12px',
+        width: '100%',
+        maxWidth: '600px',
+        maxHeight: '80vh',
+        display: 'flex',
+        flexDirection: 'column',
+        boxShadow: '0 10px 25px rgba(0, 0, 0, 0.2)'
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: '20px',
+          borderBottom: '1px solid #e9ecef',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center'
+        }}>
+          <div style={{ minWidth: 0 }}>
+            <h2 style={{ margin: 0, fontSize: '20px', fontWeight: '600' }}>
+              Solutions for {containerName || 'this shape'}
+            </h2>
+            {containerCid && (
+              <div style={{ fontSize: '11px', color: '#6c757d', fontFamily: 'monospace', marginTop: '4px' }}>
+                CID: {containerCid.replace('sha256:', '').substring(0, 8)}
+              </div>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            style={{
+              background: 'none',
+              border: 'none',
+              fontSize: '24px',
+              cursor: 'pointer',
+              color: '#6c757d',
+              padding: '0',
+              width: '30px',
+              height: '30px',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center'
+            }}
+          >
+            ×
+          </button>
+        </div>
+
+        {/* Content Area */}
+        <div style={{ flex: 1, overflowY: 'auto', padding: '12px' }}>
+          {error ? (
+            <div style={{ padding: '40px 20px', color: '#dc3545', textAlign: 'center', fontSize: '14px' }}>
+              {error}
+            </div>
+          ) : !match ? (
+            <div style={{ padding: '40px 20px', color: '#6c757d', textAlign: 'center' }}>
+              Loading library...
+            </div>
+          ) : match.result.length === 0 ? (
+            <div style={{ padding: '40px 20px', color: '#6c757d', textAlign: 'center', fontSize: '14px' }}>
+              No known solutions for this shape yet.
+            </div>
+          ) : (
+            <>
+              {match.matchedBy === 'name' && (
+                <div style={{
+                  padding: '8px 10px',
+                  marginBottom: '8px',
+                  backgroundColor: '#fff3cd',
+                  color: '#856404',
+                  borderRadius: '6px',
+                  fontSize: '12px'
+                }}>
+                  No solution carries this container's CID; showing solutions named after the container.
+                </div>
+              )}
+              {match.result.map(item => (
+                <div
+                  key={item.url}
+                  onClick={() => onOpenSolution(item)}
+                  style={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center',
+                    padding: '10px',
+                    margin: '4px 0',
+                    border: '1px solid #e9ecef',
+                    borderRadius: '6px',
+                    cursor: 'pointer'
+                  }}
+                  onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#f8f9fa'}
+                  onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                >
+                  <div style={{ minWidth: 0 }}>
+                    <div style={{ fontSize: '13px', fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                      {item.name.replace(/\.json$/, '')}
+                    </div>
+                    <div style={{ fontSize: '11px', color: '#6c757d' }}>
+                      {item.size !== null ? `${item.size} pieces` : 'Pieces not counted'} · {item.updated}
+                    </div>
+                  </div>
+                  <div style={{
+                    fontSize: '11px',
+                    color: '#007bff',
+                    fontWeight: '500',
+                    marginLeft: '8px',
+                    padding: '4px 8px',
+                    backgroundColor: '#f8f9fa',
+                    borderRadius: '4px',
+                    border: '1px solid #007bff',
+                    minWidth: '50px',
+                    textAlign: 'center'
+                  }}>
+                    View
+                  </div>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div style={{
+          padding: '16px 20px',
+          borderTop: '1px solid #e9ecef',
+          fontSize: '12px',
+          color: '#6c757d',
+          textAlign: 'center'
+        }}>
+          {match ? `${match.result.length} solution${match.result.length !== 1 ? 's' : ''}` : ''}
+        </div>
+      </div>
+    </div>
+  );
+}
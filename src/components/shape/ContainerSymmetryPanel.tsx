@@ -0,0 +1,171 @@
+// Container Symmetry Panel
+// Rotation group, chirality and mirror-image CID of the shape in the editor
+
+import React, { useState, useEffect } from 'react';
+import { FCCCoord } from '../../lib/coords/fcc';
+import { ContainerSymmetry, analyzeContainerSymmetry } from '../../lib/symmetry';
+import { LibraryItem, fetchCIDIndex, normalizeCID } from '../../services/library';
+
+interface ContainerSymmetryPanelProps {
+  coordinates: FCCCoord[];
+  containerName: string;
+  onClose: () => void;
+}
+
+const formatCID = (cid: string) => cid.replace('sha256:', '').substring(0, 8);
+
+export default function ContainerSymmetryPanel({ coordinates, containerName, onClose }: ContainerSymmetryPanelProps) {
+  const [symmetry, setSymmetry] = useState<ContainerSymmetry | null>(null);
+  const [mirrorMatches, setMirrorMatches] = useState<LibraryItem[]>([]);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    let cancelled = false;
+    analyzeContainerSymmetry(coordinates)
+      .then(async result => {
+        if (cancelled) return;
+        console.log(`🪞 SYMMETRY: ${result.groupName} (order ${result.order}), ${result.chiral ? 'chiral' : 'achiral'}`);
+        setSymmetry(result);
+
+        // A chiral shape's mirror image already in the library would be a mirror duplicate
+        if (result.chiral) {
+          const index = await fetchCIDIndex();
+          if (!cancelled) setMirrorMatches(index.containersByCid.get(normalizeCID(result.mirrorCid)) || []);
+        }
+      })
+      .catch(err => {
+        if (!cancelled) setError((err as Error).message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [coordinates]);
+
+  const row = (label: string, value: React.ReactNode) => (
+    <div style={{ display: 'flex', justifyContent: 'space-between', padding: '6px 0', borderBottom: '1px solid #f1f3f5', fontSize: '13px' }}>
+      <span style={{ color: '#6c757d' }}>{label}</span>
+      <span style={{ fontWeight: '500', textAlign: 'right' }}>{value}</span>
+    </div>
+  );
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      zIndex: 2000,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: '20px'
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        borderRadius: '12px',
+        width: '100%',
+        maxWidth: '600px',
+        maxHeight: '80vh',
+        display: 'flex',
+        flexDirection: 'column',
+        boxShadow: '0 10px 25px rgba(0, 0, 0, 0.2)'
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: '20px',
+          borderBottom: '1px solid #e9ecef',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center'
+        }}>
+          <h2 style={{ margin: 0, fontSize: '20px', fontWeight: '600' }}>
+            Symmetry of {containerName || 'this shape'}
+          </h2>
+          <button
+            onClick={onClose}
+            style={{
+              background: 'none',
+              border: 'none',
+              fontSize: '24px',
+              cursor: 'pointer',
+              color: '#6c757d',
+              padding: '0',
+              width: '30px',
+              height: '30px',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center'
+            }}
+          >
+            ×
+          </button>
+        </div>
+
+        {/* Content Area */}
+        <div style={{ flex: 1, overflowY: 'auto', padding: '12px 20px' }}>
+          {error ? (
+            <div style={{ padding: '40px 20px', color: '#dc3545', textAlign: 'center', fontSize: '14px' }}>
+              {error}
+            </div>
+          ) : !symmetry ? (
+            <div style={{ padding: '40px 20px', color: '#6c757d', textAlign: 'center' }}>
+              Analyzing...
+            </div>
+          ) : (
+            <>
+              {row('Rotation group', `${symmetry.groupName} (order ${symmetry.order})`)}
+              {row('Mirror symmetries', symmetry.reflections)}
+              {row('Chiral', symmetry.chiral ? 'Yes - the mirror image is a different shape' : 'No - the mirror image is the same shape')}
+              {row('Mirror image CID', <span style={{ fontFamily: 'monospace' }}>{formatCID(symmetry.mirrorCid)}</span>)}
+
+              {mirrorMatches.length > 0 && (
+                <div style={{
+                  padding: '8px 10px',
+                  margin: '8px 0',
+                  backgroundColor: '#fff3cd',
+                  color: '#856404',
+                  borderRadius: '6px',
+                  fontSize: '12px'
+                }}>
+                  The library already has this shape's mirror image: {mirrorMatches.map(item => item.name.replace('.fcc.json', '')).join(', ')}
+                </div>
+              )}
+
+              <div style={{ fontSize: '12px', color: '#495057', margin: '12px 0', lineHeight: 1.5 }}>
+                {symmetry.order > 1
+                  ? `Every solution fits this shape in ${symmetry.order} rotated ways, so a solver that counts raw solutions finds each distinct one ${symmetry.order} times (fewer only for solutions that are themselves symmetric).`
+                  : 'No rotation maps this shape onto itself, so every solution the solver finds is distinct.'}
+              </div>
+
+              <div style={{ fontSize: '13px', fontWeight: '600', margin: '12px 0 4px' }}>
+                Rotations mapping the shape onto itself
+              </div>
+              {symmetry.rotations.map(rotation => (
+                <div
+                  key={rotation.index}
+                  style={{ display: 'flex', justifyContent: 'space-between', padding: '4px 0', fontSize: '12px', fontFamily: 'monospace' }}
+                >
+                  <span>R{rotation.index}</span>
+                  <span>{rotation.angle === 0 ? 'identity' : `${rotation.angle}° about [${rotation.axis.join(', ')}]`}</span>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div style={{
+          padding: '16px 20px',
+          borderTop: '1px solid #e9ecef',
+          fontSize: '12px',
+          color: '#6c757d',
+          textAlign: 'center'
+        }}>
+          {coordinates.length} cells · axes in world x, y, z
+        </div>
+      </div>
+    </div>
+  );
+}
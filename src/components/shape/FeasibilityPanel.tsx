@@ -0,0 +1,232 @@
+// Feasibility Panel
+// Cheap checks that rule out a tiling of the current shape before anyone spends solver time on it
+
+import React, { useState, useMemo } from 'react';
+import { FCCCoord } from '../../lib/coords/fcc';
+import { PIECE_IDS } from '../../lib/pieces/library';
+import { PieceSet } from '../../lib/solver/dlx';
+import { analyzeFeasibility } from '../../lib/solver/feasibility';
+
+interface FeasibilityPanelProps {
+  coordinates: FCCCoord[];
+  containerName: string;
+  onSelectCells: (cells: FCCCoord[]) => void;
+  onClose: () => void;
+}
+
+const MAX_COPIES = 4;
+
+const COLOR_CHECK_TEXT = {
+  passed: 'some piece placement matches these counts',
+  failed: 'no piece placement matches these counts',
+  skipped: 'not checked'
+};
+
+export default function FeasibilityPanel({ coordinates, containerName, onSelectCells, onClose }: FeasibilityPanelProps) {
+  const [pieces, setPieces] = useState<PieceSet>(() =>
+    PIECE_IDS.reduce((set, pieceId) => ({ ...set, [pieceId]: 1 }), {} as PieceSet)
+  );
+
+  const report = useMemo(() => {
+    const start = performance.now();
+    const result = analyzeFeasibility(coordinates, pieces);
+    console.log(`🧪 FEASIBILITY: ${result.feasible ? 'no obstacles' : `${result.issues.length} issue(s)`} in ${(performance.now() - start).toFixed(0)}ms`);
+    return result;
+  }, [coordinates, pieces]);
+
+  const cyclePiece = (pieceId: string) => {
+    setPieces(prev => ({ ...prev, [pieceId]: ((prev[pieceId] || 0) + 1) % (MAX_COPIES + 1) }));
+  };
+
+  const setAllPieces = (count: number) => {
+    setPieces(PIECE_IDS.reduce((set, pieceId) => ({ ...set, [pieceId]: count }), {} as PieceSet));
+  };
+
+  const rowStyle: React.CSSProperties = {
+    display: 'flex',
+    justifyContent: 'space-between',
+    padding: '6px 0',
+    borderBottom: '1px solid #e9ecef',
+    fontSize: '14px'
+  };
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      zIndex: 2000,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: '20px'
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        borderRadius: '12px',
+        width: '100%',
+        maxWidth: '600px',
+        maxHeight: '80vh',
+        display: 'flex',
+        flexDirection: 'column',
+        boxShadow: '0 10px 25px rgba(0, 0, 0, 0.2)'
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: '20px',
+          borderBottom: '1px solid #e9ecef',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center'
+        }}>
+          <h2 style={{ margin: 0, fontSize: '20px', fontWeight: '600' }}>
+            Feasibility Check{containerName ? ` · ${containerName}` : ''}
+          </h2>
+          <button
+            onClick={onClose}
+            style={{
+              background: 'none',
+              border: 'none',
+              fontSize: '24px',
+              cursor: 'pointer',
+              color: '#6c757d',
+              padding: '0',
+              width: '30px',
+              height: '30px',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center'
+            }}
+          >
+            ×
+          </button>
+        </div>
+
+        <div style={{ flex: 1, overflowY: 'auto', padding: '16px 20px' }}>
+          {/* Piece set */}
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+            <span style={{ fontSize: '14px', fontWeight: '600', color: '#333' }}>Pieces</span>
+            <div style={{ display: 'flex', gap: '6px' }}>
+              <button onClick={() => setAllPieces(1)} style={{ padding: '4px 8px', fontSize: '12px', cursor: 'pointer' }}>
+                All
+              </button>
+              <button onClick={() => setAllPieces(0)} style={{ padding: '4px 8px', fontSize: '12px', cursor: 'pointer' }}>
+                None
+              </button>
+            </div>
+          </div>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginBottom: '16px' }}>
+            {PIECE_IDS.map(pieceId => {
+              const count = pieces[pieceId] || 0;
+              return (
+                <button
+                  key={pieceId}
+                  onClick={() => cyclePiece(pieceId)}
+                  style={{
+                    width: '40px',
+                    padding: '6px 0',
+                    backgroundColor: count > 0 ? '#007bff' : '#f8f9fa',
+                    color: count > 0 ? 'white' : '#6c757d',
+                    border: '1px solid #dee2e6',
+                    borderRadius: '4px',
+                    fontSize: '12px',
+                    fontWeight: '600',
+                    cursor: 'pointer'
+                  }}
+                  title="Tap to change number of copies"
+                >
+                  {pieceId}{count > 1 ? `×${count}` : ''}
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Verdict */}
+          <div style={{
+            padding: '10px 12px',
+            borderRadius: '6px',
+            marginBottom: '12px',
+            fontSize: '14px',
+            fontWeight: '600',
+            backgroundColor: report.feasible ? '#d4edda' : '#f8d7da',
+            color: report.feasible ? '#155724' : '#721c24'
+          }}>
+            {report.feasible
+              ? '✓ No obvious obstacle; only a search can tell whether a solution exists'
+              : '✗ This shape cannot be tiled by the chosen pieces'}
+          </div>
+
+          {/* Invariants */}
+          <div style={{ marginBottom: '12px' }}>
+            <div style={rowStyle}>
+              <span>Cells</span>
+              <span style={{ color: report.cellCount % 4 === 0 ? '#333' : '#dc3545' }}>
+                {report.cellCount}{report.cellCount % 4 !== 0 && ' (not a multiple of 4)'}
+              </span>
+            </div>
+            <div style={rowStyle}>
+              <span>Connected parts</span>
+              <span style={{ fontFamily: 'monospace' }}>
+                {report.componentSizes.length === 0 ? '–' : report.componentSizes.join(' + ')}
+              </span>
+            </div>
+            <div style={rowStyle}>
+              <span>Dead-end / isolated cells</span>
+              <span>{report.deadEndCells.length} / {report.isolatedCells.length}</span>
+            </div>
+            <div style={rowStyle}>
+              <span title="Cells on each of the 4 simple cubic sublattices of the FCC lattice">Sublattice counts</span>
+              <span style={{ fontFamily: 'monospace' }}>{report.colorCounts.join(' / ')}</span>
+            </div>
+            <div style={{ fontSize: '12px', color: report.colorCheck === 'failed' ? '#dc3545' : '#6c757d', paddingTop: '4px' }}>
+              Colouring: {COLOR_CHECK_TEXT[report.colorCheck]}
+            </div>
+          </div>
+
+          {/* Issues */}
+          {report.issues.map((issue, index) => (
+            <div
+              key={index}
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                gap: '8px',
+                padding: '8px 10px',
+                marginBottom: '6px',
+                borderRadius: '6px',
+                borderLeft: `4px solid ${issue.severity === 'error' ? '#dc3545' : '#ffc107'}`,
+                backgroundColor: '#f8f9fa',
+                fontSize: '13px',
+                color: '#333'
+              }}
+            >
+              <span>{issue.message}</span>
+              {issue.cells && issue.cells.length > 0 && (
+                <button
+                  onClick={() => onSelectCells(issue.cells!)}
+                  style={{
+                    padding: '4px 10px',
+                    backgroundColor: '#007bff',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '4px',
+                    fontSize: '12px',
+                    cursor: 'pointer',
+                    flexShrink: 0
+                  }}
+                  title="Select these cells in the editor"
+                >
+                  Select
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
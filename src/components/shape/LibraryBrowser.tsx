@@ -2,15 +2,19 @@ import React, { useState, useEffect } from 'react';
 import { LibraryItem, fetchLibraryManifest, fetchLibraryContainer, getContainersFromManifest, searchContainers, sortContainers } from '../../services/library';
 import { loadJSONFile } from '../../services/files';
 import { validateContainerV1 } from '../../lib/guards/containerV1';
+import WorkspaceList from '../workspace/WorkspaceList';
+import OfflineLibraryBar from '../library/OfflineLibraryBar';
 
 interface LibraryBrowserProps {
   onContainerSelect: (container: any, name: string) => void;
   onClose: () => void;
   loading?: boolean;
+  currentName?: string;                               // Suggested name for a workspace save
+  onSaveToWorkspace?: (name: string) => Promise<void>; // Omitted when there is no shape to save
 }
 
-export default function LibraryBrowser({ onContainerSelect, onClose, loading = false }: LibraryBrowserProps) {
-  const [mode, setMode] = useState<'library' | 'local'>('library');
+export default function LibraryBrowser({ onContainerSelect, onClose, loading = false, currentName = '', onSaveToWorkspace }: LibraryBrowserProps) {
+  const [mode, setMode] = useState<'library' | 'workspace' | 'local'>('library');
   const [containers, setContainers] = useState<LibraryItem[]>([]);
   const [filteredContainers, setFilteredContainers] = useState<LibraryItem[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
@@ -149,7 +153,7 @@ export default function LibraryBrowser({ onContainerSelect, onClose, loading = f
           alignItems: 'center'
         }}>
           <h2 style={{ margin: 0, fontSize: '20px', fontWeight: '600' }}>
-            {mode === 'library' ? 'Shape Library' : 'Load Local File'}
+            {mode === 'library' ? 'Shape Library' : mode === 'workspace' ? 'My Workspace' : 'Load Local File'}
           </h2>
           <button
             onClick={onClose}
@@ -195,6 +199,23 @@ export default function LibraryBrowser({ onContainerSelect, onClose, loading = f
           >
             📚 Browse Library
           </button>
+          <button
+            onClick={() => setMode('workspace')}
+            style={{
+              flex: 1,
+              padding: '10px 16px',
+              backgroundColor: mode === 'workspace' ? '#007bff' : '#f8f9fa',
+              color: mode === 'workspace' ? 'white' : '#495057',
+              border: '1px solid #dee2e6',
+              borderRadius: '6px',
+              fontSize: '14px',
+              fontWeight: '500',
+              cursor: 'pointer',
+              transition: 'all 0.2s'
+            }}
+          >
+            💾 My Workspace
+          </button>
           <button
             onClick={() => setMode('local')}
             style={{
@@ -368,6 +389,17 @@ export default function LibraryBrowser({ onContainerSelect, onClose, loading = f
             })
           )}
         </div>
+        ) : mode === 'workspace' ? (
+        <WorkspaceList
+          types={['container']}
+          saveType="container"
+          defaultName={currentName}
+          onSave={onSaveToWorkspace}
+          onOpen={(item) => {
+            onContainerSelect(item.data, item.name);
+            onClose();
+          }}
+        />
         ) : (
         <div style={{
           flex: 1,
@@ -448,6 +480,7 @@ export default function LibraryBrowser({ onContainerSelect, onClose, loading = f
           textAlign: 'center'
         }}>
           {filteredContainers.length} container{filteredContainers.length !== 1 ? 's' : ''} available
+          <OfflineLibraryBar />
         </div>
         )}
       </div>
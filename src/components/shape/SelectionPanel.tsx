@@ -0,0 +1,145 @@
+// Selection Panel
+// Select-mode tools and bulk edits (delete, duplicate, move) for the selected cells
+
+import React from 'react';
+import { CellOffset } from '../../lib/coords/selection';
+
+interface SelectionPanelProps {
+  selectedCount: number;
+  totalCount: number;
+  selectTool: 'tap' | 'box';
+  offset: CellOffset;
+  moveCollisionCount: number; // Filled cells outside the selection that the move would land on
+  onSelectToolChange: (tool: 'tap' | 'box') => void;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onSelectLayer: () => void;
+  onOffsetChange: (offset: CellOffset) => void;
+  onDelete: () => void;
+  onDuplicate: () => void;
+  onMove: () => void;
+}
+
+const AXES = ['i', 'j', 'k'];
+
+export default function SelectionPanel({
+  selectedCount,
+  totalCount,
+  selectTool,
+  offset,
+  moveCollisionCount,
+  onSelectToolChange,
+  onSelectAll,
+  onClearSelection,
+  onSelectLayer,
+  onOffsetChange,
+  onDelete,
+  onDuplicate,
+  onMove
+}: SelectionPanelProps) {
+  const none = selectedCount === 0;
+  const noOffset = offset.every(step => step === 0);
+  const moveBlocked = none || noOffset || moveCollisionCount > 0;
+
+  const actionStyle = (color: string, disabled: boolean): React.CSSProperties => ({
+    padding: '5px 8px',
+    backgroundColor: disabled ? '#6c757d' : color,
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '11px',
+    cursor: disabled ? 'not-allowed' : 'pointer',
+    opacity: disabled ? 0.6 : 1
+  });
+
+  const stepStyle: React.CSSProperties = {
+    padding: '3px 8px',
+    backgroundColor: '#6c757d',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '11px',
+    cursor: 'pointer'
+  };
+
+  const step = (axis: number, delta: number) => {
+    const next = [...offset] as CellOffset;
+    next[axis] += delta;
+    onOffsetChange(next);
+  };
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '12px',
+      left: '12px',
+      width: '220px',
+      maxWidth: 'calc(100% - 24px)',
+      backgroundColor: 'rgba(255, 255, 255, 0.95)',
+      borderRadius: '8px',
+      borderLeft: '4px solid #007bff',
+      boxShadow: '0 4px 12px rgba(0,0,0,0.2)',
+      fontSize: '12px',
+      zIndex: 10
+    }}>
+      {/* Header */}
+      <div style={{ padding: '8px 10px', fontWeight: '600', color: '#333' }}>
+        ▢ {selectedCount} of {totalCount} cells selected
+      </div>
+
+      <div style={{ padding: '0 10px 10px', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+        {/* Selection tools */}
+        <div style={{ display: 'flex', gap: '4px' }}>
+          {(['tap', 'box'] as const).map(tool => (
+            <button
+              key={tool}
+              onClick={() => onSelectToolChange(tool)}
+              style={{ ...actionStyle(selectTool === tool ? '#007bff' : '#adb5bd', false), flex: 1 }}
+              title={tool === 'tap' ? 'Tap a cell to toggle it; drag to orbit' : 'Drag a rectangle to add cells; camera is locked'}
+            >
+              {tool === 'tap' ? 'Tap' : 'Box'}
+            </button>
+          ))}
+        </div>
+        <div style={{ display: 'flex', gap: '4px', flexWrap: 'wrap' }}>
+          <button onClick={onSelectAll} style={actionStyle('#6c757d', false)}>All</button>
+          <button onClick={onClearSelection} disabled={none} style={actionStyle('#6c757d', none)}>None</button>
+          <button
+            onClick={onSelectLayer}
+            disabled={none}
+            style={actionStyle('#6c757d', none)}
+            title="Add cells connected to the selection in the same horizontal layer"
+          >
+            Connected layer
+          </button>
+        </div>
+
+        {/* Offset for duplicate / move */}
+        <div style={{ color: '#495057' }}>
+          Offset (lattice steps)
+          {AXES.map((axis, index) => (
+            <div key={axis} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginTop: '4px' }}>
+              <span style={{ fontFamily: 'monospace' }}>{axis}: {offset[index]}</span>
+              <span style={{ display: 'flex', gap: '4px' }}>
+                <button onClick={() => step(index, -1)} style={stepStyle}>−</button>
+                <button onClick={() => step(index, 1)} style={stepStyle}>+</button>
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {/* Bulk edits */}
+        <div style={{ display: 'flex', gap: '4px' }}>
+          <button onClick={onDelete} disabled={none} style={{ ...actionStyle('#dc3545', none), flex: 1 }}>Delete</button>
+          <button onClick={onDuplicate} disabled={none || noOffset} style={{ ...actionStyle('#28a745', none || noOffset), flex: 1 }}>Duplicate</button>
+          <button onClick={onMove} disabled={moveBlocked} style={{ ...actionStyle('#fd7e14', moveBlocked), flex: 1 }}>Move</button>
+        </div>
+        {moveCollisionCount > 0 && (
+          <div style={{ color: '#856404', backgroundColor: '#fff3cd', borderRadius: '4px', padding: '4px 6px', fontSize: '11px' }}>
+            ⚠️ {moveCollisionCount} target cell{moveCollisionCount !== 1 ? 's are' : ' is'} already filled; moving would merge cells. Change the offset to move.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,10 +2,14 @@
 import React, { useEffect, useRef, useState, forwardRef, useImperativeHandle } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
-import { FCCCoord, fccToWorld, getFCCNeighbors, centerFCCCoords } from '../../lib/coords/fcc';
+import { FCCCoord, fccToWorld, centerFCCCoords } from '../../lib/coords/fcc';
+import { getFCCNeighbors } from '../../lib/coords/lattice';
 import { AppSettings, MaterialSettings } from './SettingsModal';
 import { calculateOptimalCameraPosition } from '../../lib/geometry/hull';
 import { PBRIntegrationService } from '../../services/pbrIntegration';
+import { CaptureTarget } from '../../services/capture';
+import { CameraView } from '../../services/deepLinks';
+import { cellKey, toggleCell, mergeSelection } from '../../lib/coords/selection';
 
 // New CellRecord structure - single source of truth
 interface CellRecord {
@@ -17,9 +21,13 @@ interface CellRecord {
 interface ShapeEditor3DProps {
   coordinates: FCCCoord[];
   onCoordinatesChange: (coordinates: FCCCoord[]) => void;
-  editMode: 'add' | 'delete';
+  editMode: 'add' | 'delete' | 'select';
   editingEnabled: boolean;
   settings: AppSettings;
+  previewCoordinates?: FCCCoord[] | null; // Ghost of a pending whole-shape transform or offset copy
+  selectedCells?: FCCCoord[];
+  selectTool?: 'tap' | 'box'; // Select mode: tap toggles one cell, box drags a rectangle
+  onSelectionChange?: (cells: FCCCoord[]) => void;
 }
 
 export interface ShapeEditor3DRef {
@@ -27,6 +35,9 @@ export interface ShapeEditor3DRef {
   applyCenterOrientTransform: (transformMatrix: THREE.Matrix4) => Promise<void>;
   resetToOriginalTransform: (engineCoords: FCCCoord[]) => CellRecord[];
   updateMaterialSettings: (materialSettings: MaterialSettings) => Promise<void>;
+  getCaptureTarget: () => CaptureTarget | null;
+  getCameraView: () => CameraView | null; // For share links
+  setCameraView: (view: CameraView) => void;
 }
 
 const ShapeEditor3D = forwardRef<ShapeEditor3DRef, ShapeEditor3DProps>(({
@@ -34,7 +45,11 @@ const ShapeEditor3D = forwardRef<ShapeEditor3DRef, ShapeEditor3DProps>(({
   settings,
   editMode,
   editingEnabled,
-  onCoordinatesChange
+  onCoordinatesChange,
+  previewCoordinates = null,
+  selectedCells = [],
+  selectTool = 'tap',
+  onSelectionChange
 }, ref) => {
   const instanceId = useRef(Math.random().toString(36).substr(2, 9));
   console.log(`ShapeEditor3D [${instanceId.current}]: Component render/re-render`, {
@@ -64,6 +79,11 @@ const ShapeEditor3D = forwardRef<ShapeEditor3DRef, ShapeEditor3DProps>(({
   const [pendingAddPosition, setPendingAddPosition] = useState<CellRecord | null>(null);
   const neighborSpheresRef = useRef<THREE.Mesh[]>([]);
   const debugNeighborSpheresRef = useRef<THREE.Mesh[]>([]);
+  const ghostSpheresRef = useRef<THREE.Mesh[]>([]);
+
+  // Select mode: pointer-down position, and the rectangle while box selecting (container pixels)
+  const selectStartRef = useRef<{ x: number; y: number } | null>(null);
+  const [selectionBox, setSelectionBox] = useState<{ left: number; top: number; width: number; height: number } | null>(null);
   
   // Transformation state for center & orient functionality
   const [currentTransformation, setCurrentTransformation] = useState<THREE.Matrix4 | null>(null);
@@ -217,76 +237,36 @@ const ShapeEditor3D = forwardRef<ShapeEditor3DRef, ShapeEditor3DProps>(({
     
     console.log(`Using world center: (${worldCenter.x.toFixed(2)}, ${worldCenter.y.toFixed(2)}, ${worldCenter.z.toFixed(2)})`);
     
-    activeCells.forEach((activeCell, cellIndex) => {
-      const neighbors = getFCCNeighbors(activeCell.engineCoord);
-      console.log(`\n=== CELL ${cellIndex} at Engine(${activeCell.engineCoord.x},${activeCell.engineCoord.y},${activeCell.engineCoord.z}) ===`);
-      console.log(`Generated ${neighbors.length} neighbors (should be 12):`);
-      
-      let validNeighborsForThisCell = 0;
-      
-      neighbors.forEach((neighborCoord, neighborIndex) => {
+    // Every empty cell touching the shape is an add candidate (12 neighbours per cell)
+    const activeKeys = new Set(activeCells.map(cell => `${cell.engineCoord.x},${cell.engineCoord.y},${cell.engineCoord.z}`));
+    activeCells.forEach(activeCell => {
+      getFCCNeighbors(activeCell.engineCoord).forEach(neighborCoord => {
         const key = `${neighborCoord.x},${neighborCoord.y},${neighborCoord.z}`;
-        
-        // Skip if this position is already an active cell
-        const isActiveCell = activeCells.some(active => 
-          active.engineCoord.x === neighborCoord.x && 
-          active.engineCoord.y === neighborCoord.y && 
-          active.engineCoord.z === neighborCoord.z
+        if (activeKeys.has(key) || neighborMap.has(key)) return;
+
+        // Apply world-space centering (same as active cells)
+        const worldPos = fccToWorld(neighborCoord);
+        let neighborWorldCoord = new THREE.Vector3(
+          worldPos.x - worldCenter.x,
+          worldPos.y - worldCenter.y,
+          worldPos.z - worldCenter.z
         );
-        
-        const alreadyInMap = neighborMap.has(key);
-        
-        // DETAILED LOGGING FOR MISSING NEIGHBORS
-        if (isActiveCell) {
-          const matchingCell = activeCells.find(active => 
-            active.engineCoord.x === neighborCoord.x && 
-            active.engineCoord.y === neighborCoord.y && 
-            active.engineCoord.z === neighborCoord.z
-          );
-          console.log(`  ${neighborIndex}: Engine(${neighborCoord.x},${neighborCoord.y},${neighborCoord.z}) SKIPPED - matches active cell at Engine(${matchingCell?.engineCoord.x},${matchingCell?.engineCoord.y},${matchingCell?.engineCoord.z})`);
-        } else {
-          console.log(`  ${neighborIndex}: Engine(${neighborCoord.x},${neighborCoord.y},${neighborCoord.z}) isActive=${isActiveCell} inMap=${alreadyInMap}`);
-        }
-        
-        if (!isActiveCell && !alreadyInMap) {
-          validNeighborsForThisCell++;
-          // Apply world-space centering (same as active cells)
-          const worldPos = fccToWorld(neighborCoord);
-          const centeredWorldPos = {
-            x: worldPos.x - worldCenter.x,
-            y: worldPos.y - worldCenter.y,
-            z: worldPos.z - worldCenter.z
-          };
-          
-          let neighborWorldCoord = new THREE.Vector3(centeredWorldPos.x, centeredWorldPos.y, centeredWorldPos.z);
-          
-          // Apply current transformation if one exists
-          if (currentTransformation) {
-            neighborWorldCoord = neighborWorldCoord.clone().applyMatrix4(currentTransformation);
-            console.log(`    Applied transformation: Engine(${neighborCoord.x},${neighborCoord.y},${neighborCoord.z}) -> Transformed World(${neighborWorldCoord.x.toFixed(2)},${neighborWorldCoord.y.toFixed(2)},${neighborWorldCoord.z.toFixed(2)})`);
-          }
-          
-          // No distance filtering needed for rhombohedral lattice - all 6 neighbors are valid
-          const neighborRecord: CellRecord = {
-            engineCoord: neighborCoord, // KEEP original integer coordinate
-            worldCoord: neighborWorldCoord,
-            id: `neighbor_${key}_${Date.now()}`
-          };
-          neighborMap.set(key, neighborRecord);
-          console.log(`    ADDED to neighbor map (rhombohedral neighbor)`);
-        } else {
-          console.log(`    SKIPPED: isActive=${isActiveCell} inMap=${alreadyInMap}`);
+
+        // Apply current transformation if one exists
+        if (currentTransformation) {
+          neighborWorldCoord = neighborWorldCoord.clone().applyMatrix4(currentTransformation);
         }
+
+        neighborMap.set(key, {
+          engineCoord: neighborCoord, // KEEP original integer coordinate
+          worldCoord: neighborWorldCoord,
+          id: `neighbor_${key}_${Date.now()}`
+        });
       });
-      
-      console.log(`Cell ${cellIndex} contributed ${validNeighborsForThisCell} valid neighbors to the map`);
     });
     
     const neighborRecords = Array.from(neighborMap.values());
-    console.log(`Found ${neighborRecords.length} neighbor positions`);
-    neighborRecords.forEach(record => {
-      console.log(`  Neighbor Engine(${record.engineCoord.x},${record.engineCoord.y},${record.engineCoord.z}) -> World(${record.worldCoord.x.toFixed(2)},${record.worldCoord.y.toFixed(2)},${record.worldCoord.z.toFixed(2)})`);
-    });
+    console.log(`Found ${neighborRecords.length} neighbor positions around ${activeCells.length} cells`);
     
     // Debug visualization removed - neighbor filtering working correctly
     
@@ -347,7 +327,7 @@ const ShapeEditor3D = forwardRef<ShapeEditor3DRef, ShapeEditor3DProps>(({
         offsetHeight: container.offsetHeight
       });
       
-      const renderer = new THREE.WebGLRenderer({ canvas: canvas, antialias: true });
+      const renderer = new THREE.WebGLRenderer({ canvas: canvas, antialias: true, alpha: true }); // Alpha for transparent captures
     
     console.log('ShapeEditor3D: Container dimensions:', container.clientWidth, 'x', container.clientHeight);
     console.log('ShapeEditor3D: Container element:', container);
@@ -633,6 +613,75 @@ const ShapeEditor3D = forwardRef<ShapeEditor3DRef, ShapeEditor3DProps>(({
     });
   }, [cellRecords, settings.material]);
 
+  // Highlight selected cells with an emissive tint (base emissive kept in material.userData)
+  const applySelectionHighlight = () => {
+    const selectedKeys = new Set(selectedCells.map(cellKey));
+    spheresRef.current.forEach(sphere => {
+      const material = sphere.material as THREE.MeshStandardMaterial;
+      const record = (sphere as any).cellRecord as CellRecord | undefined;
+      if (!material || !material.emissive || !record) return;
+
+      if (!material.userData.baseEmissive) {
+        material.userData.baseEmissive = { color: material.emissive.getHex(), intensity: material.emissiveIntensity };
+      }
+      const base = material.userData.baseEmissive;
+      const selected = selectedKeys.has(cellKey(record.engineCoord));
+      material.emissive.setHex(selected ? 0x007bff : base.color);
+      material.emissiveIntensity = selected ? 0.6 : base.intensity;
+    });
+  };
+
+  useEffect(() => {
+    applySelectionHighlight();
+  }, [selectedCells, cellRecords, settings.material]);
+
+  // Box selection drags draw a rectangle instead of orbiting the camera
+  useEffect(() => {
+    if (!controlsRef.current) return;
+    controlsRef.current.enabled = !(editingEnabled && editMode === 'select' && selectTool === 'box');
+  }, [editingEnabled, editMode, selectTool]);
+
+  // Ghost spheres for a pending transform, placed in the same frame as the current shape
+  // (centered on the current shape, not the ghost) so translations show up
+  useEffect(() => {
+    if (!sceneRef.current) return;
+
+    ghostSpheresRef.current.forEach(sphere => {
+      sceneRef.current!.remove(sphere);
+      sphere.geometry.dispose();
+      (sphere.material as THREE.Material).dispose();
+    });
+    ghostSpheresRef.current = [];
+
+    if (!previewCoordinates || previewCoordinates.length === 0 || coordinates.length === 0) return;
+
+    const worldCoords = coordinates.map(coord => fccToWorld(coord));
+    const center = new THREE.Vector3(
+      (Math.min(...worldCoords.map(w => w.x)) + Math.max(...worldCoords.map(w => w.x))) / 2,
+      (Math.min(...worldCoords.map(w => w.y)) + Math.max(...worldCoords.map(w => w.y))) / 2,
+      (Math.min(...worldCoords.map(w => w.z)) + Math.max(...worldCoords.map(w => w.z))) / 2
+    );
+
+    const geometry = new THREE.SphereGeometry(0.283, 16, 16);
+    previewCoordinates.forEach(coord => {
+      const world = fccToWorld(coord);
+      const position = new THREE.Vector3(world.x, world.y, world.z).sub(center);
+      if (isTransformed && currentTransformation) position.applyMatrix4(currentTransformation);
+
+      const ghost = new THREE.Mesh(geometry.clone(), new THREE.MeshStandardMaterial({
+        color: 0xfd7e14,
+        transparent: true,
+        opacity: 0.45,
+        depthWrite: false
+      }));
+      ghost.position.copy(position);
+      ghost.userData.isTransformGhost = true;
+      sceneRef.current!.add(ghost);
+      ghostSpheresRef.current.push(ghost);
+    });
+    geometry.dispose();
+  }, [previewCoordinates, coordinates, isTransformed, currentTransformation]);
+
   // Update lighting and materials based on settings
   useEffect(() => {
     if (!sceneRef.current) return;
@@ -780,14 +829,14 @@ const ShapeEditor3D = forwardRef<ShapeEditor3DRef, ShapeEditor3DProps>(({
 
   // Mouse event handlers for add/delete functionality
   const handleMouseDown = (event: React.MouseEvent) => {
-    if (!editingEnabled) return;
+    if (!editingEnabled || editMode === 'select') return;
     
     setIsMouseDown(true);
     setMouseMoved(false);
   };
 
   const handleMouseMove = (event: React.MouseEvent) => {
-    if (!editingEnabled) {
+    if (!editingEnabled || editMode === 'select') {
       clearHoverEffects();
       return;
     }
@@ -1032,6 +1081,66 @@ const ShapeEditor3D = forwardRef<ShapeEditor3DRef, ShapeEditor3DProps>(({
     setMouseMoved(false);
   };
 
+  // Select mode uses pointer events so box selection also works with touch
+  const handleSelectPointerDown = (event: React.PointerEvent) => {
+    if (!editingEnabled || editMode !== 'select' || !containerRef.current) return;
+    const rect = containerRef.current.getBoundingClientRect();
+    selectStartRef.current = { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handleSelectPointerMove = (event: React.PointerEvent) => {
+    const start = selectStartRef.current;
+    if (!start || selectTool !== 'box' || !containerRef.current) return;
+    const rect = containerRef.current.getBoundingClientRect();
+    const x = event.clientX - rect.left;
+    const y = event.clientY - rect.top;
+    if (!selectionBox && Math.hypot(x - start.x, y - start.y) < 6) return;
+    setSelectionBox({
+      left: Math.min(start.x, x),
+      top: Math.min(start.y, y),
+      width: Math.abs(x - start.x),
+      height: Math.abs(y - start.y)
+    });
+  };
+
+  const handleSelectPointerUp = (event: React.PointerEvent) => {
+    const start = selectStartRef.current;
+    selectStartRef.current = null;
+    if (!start || !containerRef.current || !cameraRef.current || !onSelectionChange) return;
+
+    const rect = containerRef.current.getBoundingClientRect();
+    const x = event.clientX - rect.left;
+    const y = event.clientY - rect.top;
+
+    if (selectionBox) {
+      // Every cell whose center projects inside the rectangle, including cells behind the front layer
+      const box = selectionBox;
+      setSelectionBox(null);
+      const inside = spheresRef.current
+        .filter(sphere => {
+          const projected = sphere.position.clone().project(cameraRef.current!);
+          const px = (projected.x + 1) / 2 * rect.width;
+          const py = (1 - projected.y) / 2 * rect.height;
+          return projected.z < 1 && px >= box.left && px <= box.left + box.width && py >= box.top && py <= box.top + box.height;
+        })
+        .map(sphere => ((sphere as any).cellRecord as CellRecord).engineCoord);
+      console.log(`▢ SELECT: Box selected ${inside.length} cells`);
+      onSelectionChange(mergeSelection(selectedCells, inside));
+      return;
+    }
+
+    // Anything more than a small drag orbited the camera
+    if (Math.hypot(x - start.x, y - start.y) >= 6) return;
+
+    const raycaster = new THREE.Raycaster();
+    raycaster.setFromCamera(new THREE.Vector2((x / rect.width) * 2 - 1, -(y / rect.height) * 2 + 1), cameraRef.current);
+    const intersects = raycaster.intersectObjects(spheresRef.current);
+    if (intersects.length === 0) return;
+
+    const record = (intersects[0].object as any).cellRecord as CellRecord;
+    if (record) onSelectionChange(toggleCell(selectedCells, record.engineCoord));
+  };
+
   const handleMouseLeave = () => {
     // Clear all hover effects when mouse leaves the canvas
     clearHoverEffects();
@@ -1039,8 +1148,35 @@ const ShapeEditor3D = forwardRef<ShapeEditor3DRef, ShapeEditor3DProps>(({
     setMouseMoved(false);
   };
 
+  // Live renderer, scene, camera and controls for PNG and video capture
+  const getCaptureTarget = (): CaptureTarget | null => {
+    if (!rendererRef.current || !sceneRef.current || !cameraRef.current) return null;
+    return { renderer: rendererRef.current, scene: sceneRef.current, camera: cameraRef.current, controls: controlsRef.current };
+  };
+
+  // Camera position, orbit target and zoom, for share links
+  const getCameraView = (): CameraView | null => {
+    if (!cameraRef.current || !controlsRef.current) return null;
+    const { position, zoom } = cameraRef.current;
+    const { target } = controlsRef.current;
+    return { position: [position.x, position.y, position.z], target: [target.x, target.y, target.z], zoom };
+  };
+
+  const setCameraView = (view: CameraView) => {
+    if (!cameraRef.current || !controlsRef.current) return;
+    cameraRef.current.position.set(...view.position);
+    cameraRef.current.zoom = view.zoom;
+    cameraRef.current.updateProjectionMatrix();
+    controlsRef.current.target.set(...view.target);
+    controlsRef.current.update();
+  };
+
   // Expose methods for hull-based center & orient functionality
   useImperativeHandle(ref, () => ({
+    getCaptureTarget,
+    getCameraView,
+    setCameraView,
+    
     getCellRecords: () => {
       return cellRecords;
     },
@@ -1125,12 +1261,13 @@ const ShapeEditor3D = forwardRef<ShapeEditor3DRef, ShapeEditor3DProps>(({
           previewSphereRef.current.material = previewMaterial;
         }
         
+        applySelectionHighlight();
         console.log('🎨 Material settings updated successfully');
       } catch (error) {
         console.error('🎨 Failed to update material settings:', error);
       }
     }
-  }), [cellRecords, calculateNeighborRecords, coordinates, currentTransformation, resetToOriginalTransform]);
+  }), [cellRecords, calculateNeighborRecords, coordinates, currentTransformation, resetToOriginalTransform, selectedCells]);
 
   return (
     <div 
@@ -1139,6 +1276,13 @@ const ShapeEditor3D = forwardRef<ShapeEditor3DRef, ShapeEditor3DProps>(({
       onMouseMove={handleMouseMove}
       onMouseUp={handleMouseUp}
       onMouseLeave={handleMouseLeave}
+      onPointerDown={handleSelectPointerDown}
+      onPointerMove={handleSelectPointerMove}
+      onPointerUp={handleSelectPointerUp}
+      onPointerLeave={() => {
+        selectStartRef.current = null;
+        setSelectionBox(null);
+      }}
       style={{
         position: 'absolute',
         top: 0,
@@ -1148,7 +1292,21 @@ const ShapeEditor3D = forwardRef<ShapeEditor3DRef, ShapeEditor3DProps>(({
         overflow: 'hidden',
         cursor: editingEnabled ? (editMode === 'add' ? 'crosshair' : 'pointer') : 'default'
       }}
-    />
+    >
+      {selectionBox && (
+        <div style={{
+          position: 'absolute',
+          left: selectionBox.left,
+          top: selectionBox.top,
+          width: selectionBox.width,
+          height: selectionBox.height,
+          border: '1px dashed #007bff',
+          backgroundColor: 'rgba(0, 123, 255, 0.1)',
+          pointerEvents: 'none',
+          zIndex: 2
+        }} />
+      )}
+    </div>
   );
 });
 
@@ -0,0 +1,208 @@
+// Shape Generator Dialog
+// Builds pyramid, tetrahedron, octahedron, prism, slab and sphere containers from parameters
+
+import React, { useState, useMemo } from 'react';
+import { FCCCoord } from '../../lib/coords/fcc';
+import { GeneratorKind, GeneratorParams, generateShape, generatedShapeName } from '../../lib/coords/generators';
+
+interface ShapeGeneratorDialogProps {
+  onGenerate: (cells: FCCCoord[], name: string) => void;
+  onClose: () => void;
+}
+
+const GENERATORS: { kind: GeneratorKind; label: string; sizeLabel: string }[] = [
+  { kind: 'pyramid', label: 'Square pyramid', sizeLabel: 'Base edge (balls)' },
+  { kind: 'tetrahedron', label: 'Tetrahedron', sizeLabel: 'Edge (balls)' },
+  { kind: 'octahedron', label: 'Octahedron', sizeLabel: 'Edge (balls)' },
+  { kind: 'rhombicPrism', label: 'Rhombic prism', sizeLabel: 'Length (balls)' },
+  { kind: 'slab', label: 'Slab', sizeLabel: 'Length (balls)' },
+  { kind: 'sphere', label: 'Sphere', sizeLabel: 'Radius (ball diameters)' }
+];
+
+const MAX_SIZE = 20;
+const LARGE_SHAPE = 1000; // Cells; larger shapes get slow to render and solve
+
+export default function ShapeGeneratorDialog({ onGenerate, onClose }: ShapeGeneratorDialogProps) {
+  const [kind, setKind] = useState<GeneratorKind>('tetrahedron');
+  const [params, setParams] = useState<GeneratorParams>({ size: 4, width: 4, height: 2, hollow: false });
+
+  const generator = GENERATORS.find(g => g.kind === kind)!;
+  const hasBox = kind === 'rhombicPrism' || kind === 'slab';
+  const shapeParams: GeneratorParams = hasBox ? params : { size: params.size, hollow: params.hollow };
+
+  const cells = useMemo(() => generateShape(kind, shapeParams), [kind, params]);
+  const name = generatedShapeName(kind, shapeParams);
+
+  const inputStyle: React.CSSProperties = {
+    width: '80px',
+    padding: '6px 8px',
+    border: '1px solid #ced4da',
+    borderRadius: '6px',
+    fontSize: '14px'
+  };
+
+  const numberField = (label: string, field: 'size' | 'width' | 'height', step = 1) => (
+    <label style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: '14px', color: '#495057' }}>
+      {label}
+      <input
+        type="number"
+        min={kind === 'sphere' && field === 'size' ? 0 : 1}
+        max={MAX_SIZE}
+        step={step}
+        value={params[field]}
+        onChange={(e) => {
+          const value = parseFloat(e.target.value);
+          if (!isNaN(value)) setParams({ ...params, [field]: Math.min(MAX_SIZE, Math.max(0, value)) });
+        }}
+        style={inputStyle}
+      />
+    </label>
+  );
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      zIndex: 2000,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: '20px'
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        borderRadius: '12px',
+        width: '100%',
+        maxWidth: '600px',
+        maxHeight: '80vh',
+        display: 'flex',
+        flexDirection: 'column',
+        boxShadow: '0 10px 25px rgba(0, 0, 0, 0.2)'
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: '20px',
+          borderBottom: '1px solid #e9ecef',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center'
+        }}>
+          <h2 style={{ margin: 0, fontSize: '20px', fontWeight: '600' }}>
+            Generate Shape
+          </h2>
+          <button
+            onClick={onClose}
+            style={{
+              background: 'none',
+              border: 'none',
+              fontSize: '24px',
+              cursor: 'pointer',
+              color: '#6c757d',
+              padding: '0',
+              width: '30px',
+              height: '30px',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center'
+            }}
+          >
+            ×
+          </button>
+        </div>
+
+        {/* Parameters */}
+        <div style={{ flex: 1, overflowY: 'auto', padding: '16px 20px', display: 'flex', flexDirection: 'column', gap: '12px' }}>
+          <select
+            value={kind}
+            onChange={(e) => setKind(e.target.value as GeneratorKind)}
+            style={{
+              padding: '8px 12px',
+              border: '1px solid #ced4da',
+              borderRadius: '6px',
+              fontSize: '14px',
+              backgroundColor: 'white'
+            }}
+          >
+            {GENERATORS.map(g => (
+              <option key={g.kind} value={g.kind}>{g.label}</option>
+            ))}
+          </select>
+
+          {numberField(generator.sizeLabel, 'size', kind === 'sphere' ? 0.5 : 1)}
+          {hasBox && numberField('Width (balls)', 'width')}
+          {hasBox && numberField(kind === 'slab' ? 'Layers' : 'Height (balls)', 'height')}
+
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '14px', color: '#495057' }}>
+            <input
+              type="checkbox"
+              checked={!!params.hollow}
+              onChange={(e) => setParams({ ...params, hollow: e.target.checked })}
+            />
+            Hollow (keep only the outer shell)
+          </label>
+
+          <div style={{
+            padding: '10px',
+            backgroundColor: '#f8f9fa',
+            borderRadius: '6px',
+            fontSize: '13px',
+            color: '#495057'
+          }}>
+            <div style={{ fontFamily: 'monospace' }}>{name}</div>
+            <div>
+              {cells.length} cell{cells.length !== 1 ? 's' : ''}
+              {cells.length % 4 !== 0 && ' · not a multiple of 4, so no tetromino solution exists'}
+            </div>
+            {cells.length > LARGE_SHAPE && (
+              <div style={{ color: '#dc3545' }}>Large shape: rendering and solving will be slow.</div>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div style={{
+          padding: '16px 20px',
+          borderTop: '1px solid #e9ecef',
+          display: 'flex',
+          justifyContent: 'flex-end',
+          gap: '8px'
+        }}>
+          <button
+            onClick={onClose}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: '#6c757d',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              fontSize: '14px',
+              cursor: 'pointer'
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onGenerate(cells, name)}
+            disabled={cells.length === 0}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: '#28a745',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              fontSize: '14px',
+              fontWeight: '500',
+              cursor: cells.length === 0 ? 'not-allowed' : 'pointer'
+            }}
+          >
+            Load into editor
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,32 @@
 // UI-only port; engines remain upstream.
 import React from 'react';
+import { CIDCheck } from '../../lib/cid';
 
 interface ShapeToolbarProps {
   cellCount: number;
   currentCID: string;
   originalCID: string;
-  editMode: 'add' | 'delete';
+  cidCheck?: CIDCheck | null; // Stored vs recomputed CID of the loaded file
+  editMode: 'add' | 'delete' | 'select';
   editingEnabled: boolean;
   canUndo: boolean;
+  transformActive?: boolean; // Transform panel open
   onSave: () => void;
+  onExport: () => void;
+  onCapture: () => void;
+  onShare: () => void;
   onBrowseLibrary: () => void;
+  onGenerate: () => void;
   onSettings: () => void;
-  onEditModeChange: (mode: 'add' | 'delete') => void;
+  onEditModeChange: (mode: 'add' | 'delete' | 'select') => void;
   onEditingEnabledChange: (enabled: boolean) => void;
   onUndo: () => void;
+  onTransform: () => void;
   onCenterOrient: () => void;
+  onSolve: () => void;
+  onShowSolutions: () => void;
+  onShowSymmetry: () => void;
+  onCheckFeasibility: () => void;
   loading?: boolean;
 }
 
@@ -22,20 +34,41 @@ export default function ShapeToolbar({
   cellCount,
   currentCID,
   originalCID,
+  cidCheck = null,
   editMode,
   editingEnabled,
   canUndo,
+  transformActive = false,
   onSave,
+  onExport,
+  onCapture,
+  onShare,
   onBrowseLibrary,
+  onGenerate,
   onSettings,
   onEditModeChange,
   onEditingEnabledChange,
   onUndo,
+  onTransform,
   onCenterOrient,
+  onSolve,
+  onShowSolutions,
+  onShowSymmetry,
+  onCheckFeasibility,
   loading = false
 }: ShapeToolbarProps) {
   const hasChanges = originalCID && currentCID !== originalCID;
 
+  // Problems with the CID stored in the loaded file (stale once the shape is edited)
+  const cidWarning = !hasChanges && cidCheck && cidCheck.status !== 'match'
+    ? {
+        mismatch: 'stored CID differs',
+        padded: 'placeholder CID',
+        invalid: 'invalid stored CID',
+        missing: 'no stored CID'
+      }[cidCheck.status]
+    : null;
+
   return (
     <div style={{
       backgroundColor: '#ffffff',
@@ -73,6 +106,25 @@ export default function ShapeToolbar({
             Browse
           </button>
           
+          <button
+            onClick={onGenerate}
+            disabled={loading}
+            style={{
+              padding: '6px 12px',
+              backgroundColor: '#17a2b8',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              fontSize: '12px',
+              fontWeight: '500',
+              cursor: loading ? 'not-allowed' : 'pointer',
+              opacity: loading ? 0.6 : 1
+            }}
+            title="Generate a pyramid, tetrahedron, octahedron, prism, slab or sphere"
+          >
+            Generate
+          </button>
+          
           <button
             onClick={onSave}
             disabled={loading || cellCount === 0}
@@ -91,6 +143,139 @@ export default function ShapeToolbar({
             Save
           </button>
           
+          <button
+            onClick={onExport}
+            disabled={loading || cellCount === 0}
+            style={{
+              padding: '6px 12px',
+              backgroundColor: cellCount === 0 ? '#6c757d' : '#28a745',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              fontSize: '12px',
+              fontWeight: '500',
+              cursor: (loading || cellCount === 0) ? 'not-allowed' : 'pointer',
+              opacity: (loading || cellCount === 0) ? 0.6 : 1
+            }}
+            title="Export as STL, OBJ or glTF for 3D printing and modelling"
+          >
+            Export 3D
+          </button>
+          
+          <button
+            onClick={onCapture}
+            disabled={loading || cellCount === 0}
+            style={{
+              padding: '6px 12px',
+              backgroundColor: cellCount === 0 ? '#6c757d' : '#e83e8c',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              fontSize: '12px',
+              fontWeight: '500',
+              cursor: (loading || cellCount === 0) ? 'not-allowed' : 'pointer',
+              opacity: (loading || cellCount === 0) ? 0.6 : 1
+            }}
+            title="Save the view as PNG or record a turntable video"
+          >
+            Capture
+          </button>
+          
+          <button
+            onClick={onShare}
+            disabled={loading || cellCount === 0}
+            style={{
+              padding: '6px 12px',
+              backgroundColor: cellCount === 0 ? '#6c757d' : '#17a2b8',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              fontSize: '12px',
+              fontWeight: '500',
+              cursor: (loading || cellCount === 0) ? 'not-allowed' : 'pointer',
+              opacity: (loading || cellCount === 0) ? 0.6 : 1
+            }}
+            title="Link that opens this shape and view"
+          >
+            Share
+          </button>
+          
+          <button
+            onClick={onSolve}
+            disabled={loading || cellCount === 0}
+            style={{
+              padding: '6px 12px',
+              backgroundColor: cellCount === 0 ? '#6c757d' : '#6f42c1',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              fontSize: '12px',
+              fontWeight: '500',
+              cursor: (loading || cellCount === 0) ? 'not-allowed' : 'pointer',
+              opacity: (loading || cellCount === 0) ? 0.6 : 1
+            }}
+            title="Solve with the in-browser solver"
+          >
+            Solve
+          </button>
+          
+          <button
+            onClick={onShowSolutions}
+            disabled={loading || cellCount === 0}
+            style={{
+              padding: '6px 12px',
+              backgroundColor: cellCount === 0 ? '#6c757d' : '#20c997',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              fontSize: '12px',
+              fontWeight: '500',
+              cursor: (loading || cellCount === 0) ? 'not-allowed' : 'pointer',
+              opacity: (loading || cellCount === 0) ? 0.6 : 1
+            }}
+            title="Known solutions for this shape"
+          >
+            Solutions
+          </button>
+          
+          <button
+            onClick={onShowSymmetry}
+            disabled={loading || cellCount === 0}
+            style={{
+              padding: '6px 12px',
+              backgroundColor: cellCount === 0 ? '#6c757d' : '#fd7e14',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              fontSize: '12px',
+              fontWeight: '500',
+              cursor: (loading || cellCount === 0) ? 'not-allowed' : 'pointer',
+              opacity: (loading || cellCount === 0) ? 0.6 : 1
+            }}
+            title="Rotation group, chirality and mirror-image CID"
+          >
+            Symmetry
+          </button>
+          
+          <button
+            onClick={onCheckFeasibility}
+            disabled={loading || cellCount === 0}
+            style={{
+              padding: '6px 12px',
+              backgroundColor: cellCount === 0 ? '#6c757d' : '#6610f2',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              fontSize: '12px',
+              fontWeight: '500',
+              cursor: (loading || cellCount === 0) ? 'not-allowed' : 'pointer',
+              opacity: (loading || cellCount === 0) ? 0.6 : 1
+            }}
+            title="Cell count, connectivity, dead ends and colouring checks for a piece set"
+          >
+            Check
+          </button>
+          
           <button
             onClick={onSettings}
             disabled={loading}
@@ -208,6 +393,44 @@ export default function ShapeToolbar({
               - Delete
             </button>
             
+            <button
+              onClick={() => onEditModeChange('select')}
+              style={{
+                padding: '6px 12px',
+                backgroundColor: editMode === 'select' ? '#007bff' : '#6c757d',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                fontSize: '12px',
+                fontWeight: '500',
+                cursor: 'pointer',
+                minWidth: '60px'
+              }}
+              title="Select cells to delete, duplicate or move together"
+            >
+              ▢ Select
+            </button>
+            
+            <button
+              onClick={onTransform}
+              disabled={cellCount === 0}
+              style={{
+                padding: '6px 12px',
+                backgroundColor: transformActive ? '#fd7e14' : '#6c757d',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                fontSize: '12px',
+                fontWeight: '500',
+                cursor: cellCount === 0 ? 'not-allowed' : 'pointer',
+                opacity: cellCount === 0 ? 0.6 : 1,
+                minWidth: '60px'
+              }}
+              title="Rotate, mirror or move the whole shape"
+            >
+              ⟲ Transform
+            </button>
+            
             <button
               onClick={onUndo}
               disabled={!canUndo}
@@ -266,6 +489,18 @@ export default function ShapeToolbar({
               (modified)
             </span>
           )}
+          {cidWarning && (
+            <span
+              style={{
+                color: cidCheck!.status === 'missing' ? '#6c757d' : '#dc3545',
+                fontSize: '9px',
+                fontWeight: '500'
+              }}
+              title={`Stored: ${cidCheck!.stored || '(none)'}\nComputed: ${cidCheck!.computed}`}
+            >
+              {cidCheck!.status === 'missing' ? '' : '⚠️ '}{cidWarning}
+            </span>
+          )}
         </div>
       )}
     </div>
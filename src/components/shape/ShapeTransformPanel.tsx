@@ -0,0 +1,153 @@
+// Shape Transform Panel
+// Pending whole-shape rotation, mirror and translation, previewed as a ghost until applied
+
+import React from 'react';
+import { FCC_LATTICE_ROTATIONS } from '../../lib/coords/lattice';
+import { MIRROR_PLANES, ShapeTransform, IDENTITY_TRANSFORM, isIdentityTransform } from '../../lib/coords/transform';
+import { describeRotation } from '../../lib/symmetry';
+
+interface ShapeTransformPanelProps {
+  transform: ShapeTransform;
+  onTransformChange: (transform: ShapeTransform) => void;
+  onApply: () => void;
+  onClose: () => void;
+}
+
+// Rotation labels, e.g. "90° about [0, 0, 1]"
+const ROTATION_LABELS = FCC_LATTICE_ROTATIONS.map((matrix, index) => {
+  const { angle, axis } = describeRotation(matrix);
+  return index === 0 ? 'None' : `${angle}° about [${axis.join(', ')}]`;
+});
+
+const AXES = ['i', 'j', 'k'];
+
+export default function ShapeTransformPanel({ transform, onTransformChange, onApply, onClose }: ShapeTransformPanelProps) {
+  const unchanged = isIdentityTransform(transform);
+
+  const selectStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '4px 6px',
+    border: '1px solid #ced4da',
+    borderRadius: '4px',
+    fontSize: '12px',
+    backgroundColor: 'white'
+  };
+
+  const stepStyle: React.CSSProperties = {
+    padding: '3px 8px',
+    backgroundColor: '#6c757d',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '11px',
+    cursor: 'pointer'
+  };
+
+  const step = (axis: number, delta: number) => {
+    const offset = [...transform.offset] as [number, number, number];
+    offset[axis] += delta;
+    onTransformChange({ ...transform, offset });
+  };
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '12px',
+      right: '12px',
+      width: '240px',
+      maxWidth: 'calc(100% - 24px)',
+      backgroundColor: 'rgba(255, 255, 255, 0.95)',
+      borderRadius: '8px',
+      borderLeft: '4px solid #fd7e14',
+      boxShadow: '0 4px 12px rgba(0,0,0,0.2)',
+      fontSize: '12px',
+      zIndex: 10
+    }}>
+      {/* Header */}
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', padding: '8px 10px' }}>
+        <span style={{ fontWeight: '600', color: '#333' }}>⟲ Transform shape</span>
+        <button
+          onClick={onClose}
+          style={{ background: 'none', border: 'none', color: '#6c757d', fontSize: '16px', cursor: 'pointer', padding: '0 4px' }}
+          title="Close without applying"
+        >
+          ×
+        </button>
+      </div>
+
+      <div style={{ padding: '0 10px 10px', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: '4px', color: '#495057' }}>
+          Mirror across plane
+          <select
+            value={transform.mirror || ''}
+            onChange={(e) => onTransformChange({ ...transform, mirror: e.target.value || null })}
+            style={selectStyle}
+          >
+            <option value="">None</option>
+            {MIRROR_PLANES.map(plane => (
+              <option key={plane.id} value={plane.id}>{plane.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label style={{ display: 'flex', flexDirection: 'column', gap: '4px', color: '#495057' }}>
+          Rotate
+          <select
+            value={transform.rotation}
+            onChange={(e) => onTransformChange({ ...transform, rotation: parseInt(e.target.value, 10) })}
+            style={selectStyle}
+          >
+            {ROTATION_LABELS.map((label, index) => (
+              <option key={index} value={index}>{label}</option>
+            ))}
+          </select>
+        </label>
+
+        <div style={{ color: '#495057' }}>
+          Move (lattice steps)
+          {AXES.map((axis, index) => (
+            <div key={axis} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginTop: '4px' }}>
+              <span style={{ fontFamily: 'monospace' }}>{axis}: {transform.offset[index]}</span>
+              <span style={{ display: 'flex', gap: '4px' }}>
+                <button onClick={() => step(index, -1)} style={stepStyle}>−</button>
+                <button onClick={() => step(index, 1)} style={stepStyle}>+</button>
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <div style={{ display: 'flex', gap: '6px' }}>
+          <button
+            onClick={onApply}
+            disabled={unchanged}
+            style={{
+              flex: 1,
+              padding: '6px 8px',
+              backgroundColor: unchanged ? '#6c757d' : '#fd7e14',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              fontSize: '12px',
+              fontWeight: '500',
+              cursor: unchanged ? 'not-allowed' : 'pointer',
+              opacity: unchanged ? 0.6 : 1
+            }}
+          >
+            Apply
+          </button>
+          <button
+            onClick={() => onTransformChange(IDENTITY_TRANSFORM)}
+            disabled={unchanged}
+            style={{ ...stepStyle, padding: '6px 8px', fontSize: '12px', opacity: unchanged ? 0.6 : 1 }}
+          >
+            Reset
+          </button>
+        </div>
+
+        <div style={{ fontSize: '11px', color: '#6c757d' }}>
+          Mirror, then rotate about the center, then move. The orange ghost previews the result; Undo reverts an applied transform.
+        </div>
+      </div>
+    </div>
+  );
+}
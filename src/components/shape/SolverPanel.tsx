@@ -0,0 +1,362 @@
+// Solver Panel
+// Runs the in-browser DLX solver on the current shape and lists solutions as they stream in
+
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { FCCCoord } from '../../lib/coords/fcc';
+import { containerToV1Format } from '../../lib/guards/containerV1';
+import { PIECE_IDS } from '../../lib/pieces/library';
+import { PieceSet, SolverFinishReason, SolverProgress } from '../../lib/solver/dlx';
+import { analyzeFeasibility } from '../../lib/solver/feasibility';
+import { SolverHandle, startSolver, DEFAULT_SOLVER_OPTIONS } from '../../services/solver';
+import { saveJSONFile } from '../../services/files';
+import { SolutionFile } from '../../types/solution';
+
+interface SolverPanelProps {
+  coordinates: FCCCoord[];
+  containerName: string;
+  onOpenSolution: (solution: SolutionFile, name: string) => void;
+  onClose: () => void;
+}
+
+const MAX_COPIES = 4;
+
+const FINISH_TEXT: Record<SolverFinishReason, string> = {
+  exhausted: 'Search complete',
+  max_solutions: 'Solution limit reached',
+  time_budget: 'Time budget used up',
+  cancelled: 'Cancelled',
+  infeasible: 'No search needed'
+};
+
+export default function SolverPanel({ coordinates, containerName, onOpenSolution, onClose }: SolverPanelProps) {
+  const [pieces, setPieces] = useState<PieceSet>(() =>
+    PIECE_IDS.reduce((set, pieceId) => ({ ...set, [pieceId]: 1 }), {} as PieceSet)
+  );
+  const [maxSolutions, setMaxSolutions] = useState(DEFAULT_SOLVER_OPTIONS.maxSolutions);
+  const [timeBudgetSec, setTimeBudgetSec] = useState(DEFAULT_SOLVER_OPTIONS.timeBudgetMs / 1000);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<SolverProgress | null>(null);
+  const [solutions, setSolutions] = useState<SolutionFile[]>([]);
+  const [status, setStatus] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  const solverRef = useRef<SolverHandle | null>(null);
+
+  // Stop the worker if the panel goes away mid-search
+  useEffect(() => {
+    return () => solverRef.current?.terminate();
+  }, []);
+
+  const containerCells = coordinates.map(c => [c.x, c.y, c.z]);
+  const pieceCells = Object.values(pieces).reduce((sum, count) => sum + count * 4, 0);
+  // Shapes the feasibility check already rules out never reach the solver
+  const feasibility = useMemo(() => analyzeFeasibility(coordinates, pieces), [coordinates, pieces]);
+  const precheck = feasibility.issues.find(issue => issue.severity === 'error')?.message || null;
+  const baseName = (containerName || 'container').toLowerCase().replace(/\s+/g, '_');
+
+  const cyclePiece = (pieceId: string) => {
+    setPieces(prev => ({ ...prev, [pieceId]: ((prev[pieceId] || 0) + 1) % (MAX_COPIES + 1) }));
+  };
+
+  const setAllPieces = (count: number) => {
+    setPieces(PIECE_IDS.reduce((set, pieceId) => ({ ...set, [pieceId]: count }), {} as PieceSet));
+  };
+
+  const handleStart = () => {
+    setSolutions([]);
+    setProgress(null);
+    setStatus('Building placement matrix...');
+    setError('');
+    setRunning(true);
+
+    const container = containerToV1Format(containerCells, containerName || 'Untitled Container');
+    const selected = Object.keys(pieces)
+      .filter(pieceId => pieces[pieceId] > 0)
+      .reduce((set, pieceId) => ({ ...set, [pieceId]: pieces[pieceId] }), {} as PieceSet);
+
+    solverRef.current = startSolver(container, selected, {
+      maxSolutions: Math.max(0, Math.floor(maxSolutions)),
+      timeBudgetMs: Math.max(0, timeBudgetSec) * 1000
+    }, {
+      onProgress: (next) => {
+        setProgress(next);
+        setStatus('Searching...');
+      },
+      onSolution: (solution) => setSolutions(prev => [...prev, solution]),
+      onDone: (reason, finalProgress, message) => {
+        if (finalProgress) setProgress(finalProgress);
+        setStatus(message ? `${FINISH_TEXT[reason]}: ${message}` : FINISH_TEXT[reason]);
+        setRunning(false);
+        solverRef.current = null;
+      },
+      onError: (message) => {
+        setError(`Solver failed: ${message}`);
+        setStatus('');
+        setRunning(false);
+        solverRef.current = null;
+      }
+    });
+  };
+
+  const handleCancel = () => {
+    setStatus('Cancelling...');
+    solverRef.current?.cancel();
+  };
+
+  const handleDownload = async (solution: SolutionFile, index: number) => {
+    try {
+      await saveJSONFile(solution, `${baseName}.solution_${String(index + 1).padStart(3, '0')}.json`);
+    } catch (err) {
+      setError(`Save failed: ${(err as Error).message}`);
+    }
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '70px',
+    padding: '6px 8px',
+    border: '1px solid #ced4da',
+    borderRadius: '4px',
+    fontSize: '14px'
+  };
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      zIndex: 2000,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: '20px'
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        borderRadius: '12px',
+        width: '100%',
+        maxWidth: '600px',
+        maxHeight: '80vh',
+        display: 'flex',
+        flexDirection: 'column',
+        boxShadow: '0 10px 25px rgba(0, 0, 0, 0.2)'
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: '20px',
+          borderBottom: '1px solid #e9ecef',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center'
+        }}>
+          <h2 style={{ margin: 0, fontSize: '20px', fontWeight: '600' }}>
+            Solve Shape
+          </h2>
+          <button
+            onClick={onClose}
+            style={{
+              background: 'none',
+              border: 'none',
+              fontSize: '24px',
+              cursor: 'pointer',
+              color: '#6c757d',
+              padding: '0',
+              width: '30px',
+              height: '30px',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center'
+            }}
+          >
+            ×
+          </button>
+        </div>
+
+        <div style={{ flex: 1, overflowY: 'auto', padding: '16px 20px' }}>
+          {/* Piece set */}
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+            <span style={{ fontSize: '14px', fontWeight: '600', color: '#333' }}>Pieces</span>
+            <div style={{ display: 'flex', gap: '6px' }}>
+              <button onClick={() => setAllPieces(1)} disabled={running} style={{ padding: '4px 8px', fontSize: '12px', cursor: 'pointer' }}>
+                All
+              </button>
+              <button onClick={() => setAllPieces(0)} disabled={running} style={{ padding: '4px 8px', fontSize: '12px', cursor: 'pointer' }}>
+                None
+              </button>
+            </div>
+          </div>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginBottom: '6px' }}>
+            {PIECE_IDS.map(pieceId => {
+              const count = pieces[pieceId] || 0;
+              return (
+                <button
+                  key={pieceId}
+                  onClick={() => cyclePiece(pieceId)}
+                  disabled={running}
+                  style={{
+                    width: '40px',
+                    padding: '6px 0',
+                    backgroundColor: count > 0 ? '#007bff' : '#f8f9fa',
+                    color: count > 0 ? 'white' : '#6c757d',
+                    border: '1px solid #dee2e6',
+                    borderRadius: '4px',
+                    fontSize: '12px',
+                    fontWeight: '600',
+                    cursor: running ? 'not-allowed' : 'pointer'
+                  }}
+                  title="Tap to change number of copies"
+                >
+                  {pieceId}{count > 1 ? `×${count}` : ''}
+                </button>
+              );
+            })}
+          </div>
+          <div style={{ fontSize: '12px', color: precheck ? '#dc3545' : '#6c757d', marginBottom: '12px' }}>
+            {coordinates.length} container cells · {pieceCells} piece cells
+            {precheck && ` · ${precheck}`}
+          </div>
+
+          {/* Limits */}
+          <div style={{ display: 'flex', gap: '16px', flexWrap: 'wrap', marginBottom: '12px', fontSize: '14px' }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+              Max solutions
+              <input
+                type="number"
+                min={0}
+                value={maxSolutions}
+                onChange={(e) => setMaxSolutions(Number(e.target.value))}
+                disabled={running}
+                style={inputStyle}
+              />
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+              Time (s)
+              <input
+                type="number"
+                min={0}
+                value={timeBudgetSec}
+                onChange={(e) => setTimeBudgetSec(Number(e.target.value))}
+                disabled={running}
+                style={inputStyle}
+              />
+            </label>
+          </div>
+          <div style={{ fontSize: '11px', color: '#6c757d', marginTop: '-8px', marginBottom: '12px' }}>
+            0 means no limit.
+          </div>
+
+          {/* Start / cancel */}
+          <button
+            onClick={running ? handleCancel : handleStart}
+            disabled={!running && (!!precheck || coordinates.length === 0)}
+            style={{
+              width: '100%',
+              padding: '10px 16px',
+              backgroundColor: running ? '#dc3545' : '#28a745',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              fontSize: '14px',
+              fontWeight: '500',
+              cursor: 'pointer',
+              opacity: !running && precheck ? 0.6 : 1
+            }}
+          >
+            {running ? '■ Cancel' : '▶ Solve'}
+          </button>
+
+          {/* Progress */}
+          {(status || progress) && (
+            <div style={{
+              marginTop: '12px',
+              padding: '8px 10px',
+              backgroundColor: '#f8f9fa',
+              borderRadius: '6px',
+              fontSize: '12px',
+              color: '#495057'
+            }}>
+              <div style={{ fontWeight: '600' }}>{status}</div>
+              {progress && (
+                <div style={{ fontFamily: 'monospace', marginTop: '4px' }}>
+                  {(progress.elapsedMs / 1000).toFixed(1)}s · {progress.nodes.toLocaleString()} nodes · {progress.rows.toLocaleString()} placements
+                  <br />
+                  depth {progress.depth} (best {progress.bestDepth}) · {progress.solutions} solution{progress.solutions !== 1 ? 's' : ''}
+                </div>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <div style={{
+              marginTop: '12px',
+              padding: '8px 10px',
+              backgroundColor: '#f8d7da',
+              color: '#721c24',
+              borderRadius: '6px',
+              fontSize: '12px'
+            }}>
+              {error}
+            </div>
+          )}
+
+          {/* Solutions */}
+          {solutions.length > 0 && (
+            <div style={{ marginTop: '12px' }}>
+              {solutions.map((solution, index) => (
+                <div
+                  key={index}
+                  style={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center',
+                    padding: '8px 10px',
+                    borderBottom: '1px solid #e9ecef',
+                    fontSize: '14px'
+                  }}
+                >
+                  <span>
+                    Solution {index + 1}
+                    <span style={{ color: '#6c757d', fontSize: '12px' }}> · {solution.placements.length} pieces</span>
+                  </span>
+                  <div style={{ display: 'flex', gap: '6px' }}>
+                    <button
+                      onClick={() => onOpenSolution(solution, `${baseName}.solution_${String(index + 1).padStart(3, '0')}`)}
+                      style={{
+                        padding: '4px 10px',
+                        backgroundColor: '#007bff',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '4px',
+                        fontSize: '12px',
+                        cursor: 'pointer'
+                      }}
+                    >
+                      Open
+                    </button>
+                    <button
+                      onClick={() => handleDownload(solution, index)}
+                      style={{
+                        padding: '4px 10px',
+                        backgroundColor: '#6c757d',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '4px',
+                        fontSize: '12px',
+                        cursor: 'pointer'
+                      }}
+                      title="Download solution JSON"
+                    >
+                      💾
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+// Assembly Controls
+// Play / pause / step through the bottom-to-top assembly of a solution
+
+import React from 'react';
+
+interface AssemblyControlsProps {
+  step: number;          // Pieces placed so far
+  total: number;
+  currentPiece: string;  // Piece id of the last placed piece ('' before the first)
+  playing: boolean;
+  secondsPerPiece: number;
+  onStep: (delta: 1 | -1) => void;
+  onRestart: () => void;
+  onPlayingChange: (playing: boolean) => void;
+  onSpeedChange: (secondsPerPiece: number) => void;
+  onClose: () => void;
+}
+
+export const ASSEMBLY_SPEEDS = [0.5, 1, 2, 3]; // Seconds per piece
+
+export default function AssemblyControls({
+  step,
+  total,
+  currentPiece,
+  playing,
+  secondsPerPiece,
+  onStep,
+  onRestart,
+  onPlayingChange,
+  onSpeedChange,
+  onClose
+}: AssemblyControlsProps) {
+  const buttonStyle: React.CSSProperties = {
+    padding: '6px 10px',
+    backgroundColor: '#6c757d',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '13px',
+    cursor: 'pointer',
+    minWidth: '36px'
+  };
+
+  return (
+    <div style={{
+      position: 'absolute',
+      bottom: '12px',
+      left: '120px',
+      right: '12px',
+      maxWidth: '420px',
+      margin: '0 auto',
+      padding: '10px 12px',
+      backgroundColor: 'rgba(255, 255, 255, 0.95)',
+      borderRadius: '8px',
+      boxShadow: '0 4px 12px rgba(0,0,0,0.2)',
+      fontSize: '12px',
+      zIndex: 10
+    }}>
+      {/* Header */}
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '6px' }}>
+        <span style={{ fontWeight: '600', color: '#333' }}>
+          🧱 Assembly
+        </span>
+        <span style={{ color: '#495057', fontFamily: 'monospace' }}>
+          {currentPiece ? `Piece ${currentPiece} · ` : ''}{step}/{total}
+        </span>
+        <button
+          onClick={onClose}
+          style={{ background: 'none', border: 'none', color: '#6c757d', fontSize: '16px', cursor: 'pointer', padding: '0 4px' }}
+          title="Exit assembly (show all pieces)"
+        >
+          ×
+        </button>
+      </div>
+
+      {/* Progress */}
+      <div style={{ height: '4px', borderRadius: '2px', backgroundColor: '#e9ecef', overflow: 'hidden', marginBottom: '8px' }}>
+        <div style={{ width: `${total > 0 ? (step / total) * 100 : 0}%`, height: '100%', backgroundColor: '#28a745' }} />
+      </div>
+
+      {/* Transport */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+        <button onClick={onRestart} style={buttonStyle} title="Restart">⏮</button>
+        <button onClick={() => onStep(-1)} disabled={step === 0} style={{ ...buttonStyle, opacity: step === 0 ? 0.5 : 1 }} title="Remove last piece">◀</button>
+        <button
+          onClick={() => {
+            if (!playing && step >= total) onRestart();
+            onPlayingChange(!playing);
+          }}
+          style={{ ...buttonStyle, backgroundColor: playing ? '#ffc107' : '#28a745', color: playing ? '#212529' : 'white' }}
+          title={playing ? 'Pause' : 'Play'}
+        >
+          {playing ? '⏸' : '▶'}
+        </button>
+        <button onClick={() => onStep(1)} disabled={step >= total} style={{ ...buttonStyle, opacity: step >= total ? 0.5 : 1 }} title="Place next piece">▶</button>
+        <select
+          value={secondsPerPiece}
+          onChange={(e) => onSpeedChange(Number(e.target.value))}
+          style={{ padding: '5px', border: '1px solid #ced4da', borderRadius: '4px', fontSize: '12px', marginLeft: 'auto' }}
+          title="Seconds per piece"
+        >
+          {ASSEMBLY_SPEEDS.map(value => (
+            <option key={value} value={value}>{value}s / piece</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+// Piece Inspector Panel
+// Details of the tapped piece with isolate / hide / neighbours visibility actions
+
+import React from 'react';
+import { SolutionPlacement } from '../../types/solution';
+
+interface PieceInspectorPanelProps {
+  placement: SolutionPlacement;
+  placementIndex: number;
+  color: string;
+  neighborCount: number;
+  hiddenCount: number;
+  onIsolate: () => void;
+  onHide: () => void;
+  onShowNeighbors: () => void;
+  onShowAll: () => void;
+  onClose: () => void;
+}
+
+const formatCell = (cell: number[]): string => `(${cell.join(', ')})`;
+
+export default function PieceInspectorPanel({
+  placement,
+  placementIndex,
+  color,
+  neighborCount,
+  hiddenCount,
+  onIsolate,
+  onHide,
+  onShowNeighbors,
+  onShowAll,
+  onClose
+}: PieceInspectorPanelProps) {
+  const actionStyle: React.CSSProperties = {
+    padding: '5px 8px',
+    backgroundColor: '#6c757d',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '11px',
+    cursor: 'pointer'
+  };
+
+  const rowStyle: React.CSSProperties = {
+    display: 'flex',
+    justifyContent: 'space-between',
+    gap: '8px',
+    padding: '2px 0'
+  };
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '12px',
+      left: '12px',
+      width: '240px',
+      maxWidth: 'calc(100% - 24px)',
+      backgroundColor: 'rgba(255, 255, 255, 0.95)',
+      borderRadius: '8px',
+      borderLeft: `4px solid ${color}`,
+      boxShadow: '0 4px 12px rgba(0,0,0,0.2)',
+      fontSize: '12px',
+      zIndex: 10
+    }}>
+      {/* Header */}
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', padding: '8px 10px' }}>
+        <span style={{ fontWeight: '600', color: '#333' }}>
+          🔎 Piece {placement.piece}
+          <span style={{ fontWeight: 'normal', color: '#6c757d' }}> · #{placementIndex + 1}</span>
+        </span>
+        <button
+          onClick={onClose}
+          style={{ background: 'none', border: 'none', color: '#6c757d', fontSize: '16px', cursor: 'pointer', padding: '0 4px' }}
+          title="Deselect"
+        >
+          ×
+        </button>
+      </div>
+
+      {/* Details */}
+      <div style={{ borderTop: '1px solid #e9ecef', padding: '6px 10px', color: '#495057' }}>
+        <div style={rowStyle}>
+          <span>Orientation (ori)</span>
+          <span style={{ fontFamily: 'monospace' }}>{placement.ori}</span>
+        </div>
+        <div style={rowStyle}>
+          <span>Translation (t)</span>
+          <span style={{ fontFamily: 'monospace' }}>{formatCell(placement.t)}</span>
+        </div>
+        <div style={rowStyle}>
+          <span>Color</span>
+          <span style={{ display: 'flex', alignItems: 'center', gap: '4px', fontFamily: 'monospace' }}>
+            <span style={{ width: '12px', height: '12px', borderRadius: '50%', backgroundColor: color, border: '1px solid #ced4da' }} />
+            {color}
+          </span>
+        </div>
+        <div style={{ padding: '2px 0' }}>
+          <div>Cells (i, j, k)</div>
+          <div style={{ fontFamily: 'monospace', fontSize: '11px', color: '#333', marginTop: '2px' }}>
+            {placement.cells_ijk.map((cell, index) => (
+              <div key={index}>{formatCell(cell)}</div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Actions */}
+      <div style={{ borderTop: '1px solid #e9ecef', padding: '8px 10px', display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+        <button onClick={onIsolate} style={actionStyle} title="Show only this piece">Isolate</button>
+        <button onClick={onHide} style={actionStyle} title="Hide this piece">Hide</button>
+        <button onClick={onShowNeighbors} style={actionStyle} title="Show this piece and the pieces touching it">
+          Neighbours ({neighborCount})
+        </button>
+        {hiddenCount > 0 && (
+          <button onClick={onShowAll} style={{ ...actionStyle, backgroundColor: '#17a2b8' }} title="Unhide all pieces">
+            Show all
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+// Replay Controls
+// Play / pause / step / scrub for solver event logs, with a backtrack heat strip
+
+import React from 'react';
+import { ReplayTimeline, describeEvent } from '../../lib/replay/timeline';
+
+interface ReplayControlsProps {
+  timeline: ReplayTimeline;
+  name: string;
+  index: number; // Last applied event, -1 before the first
+  playing: boolean;
+  speed: number; // Events per second
+  onIndexChange: (index: number) => void;
+  onPlayingChange: (playing: boolean) => void;
+  onSpeedChange: (speed: number) => void;
+  onClose: () => void;
+}
+
+export const REPLAY_SPEEDS = [1, 2, 5, 10, 25, 50, 100, 250, 1000];
+
+const HEAT_BUCKETS = 100;
+
+export default function ReplayControls({
+  timeline,
+  name,
+  index,
+  playing,
+  speed,
+  onIndexChange,
+  onPlayingChange,
+  onSpeedChange,
+  onClose
+}: ReplayControlsProps) {
+  const lastIndex = timeline.length - 1;
+  const density = timeline.backtrackDensity(HEAT_BUCKETS);
+  const maxDensity = Math.max(...density, 1);
+  const currentEvent = index >= 0 ? timeline.events[index] : null;
+  const placedNow = timeline.stateAt(index).length;
+
+  const step = (delta: number) => {
+    onPlayingChange(false);
+    onIndexChange(Math.max(-1, Math.min(lastIndex, index + delta)));
+  };
+
+  // Jump to the next/previous backtrack
+  const jumpToBacktrack = (direction: 1 | -1) => {
+    const indices = timeline.backtrackIndices;
+    const target = direction > 0
+      ? indices.find(i => i > index)
+      : [...indices].reverse().find(i => i < index);
+    if (target !== undefined) {
+      onPlayingChange(false);
+      onIndexChange(target);
+    }
+  };
+
+  const handleStripClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    onIndexChange(Math.round(fraction * lastIndex));
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '6px 10px',
+    backgroundColor: '#6c757d',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '13px',
+    cursor: 'pointer',
+    minWidth: '36px'
+  };
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '12px',
+      left: '12px',
+      right: '12px',
+      maxWidth: '560px',
+      margin: '0 auto',
+      padding: '10px 12px',
+      backgroundColor: 'rgba(255, 255, 255, 0.95)',
+      borderRadius: '8px',
+      boxShadow: '0 4px 12px rgba(0,0,0,0.2)',
+      fontSize: '12px',
+      zIndex: 10
+    }}>
+      {/* Header */}
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '6px' }}>
+        <span style={{ fontWeight: '600', color: '#333', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          🎞️ {name}
+        </span>
+        <button
+          onClick={onClose}
+          style={{ background: 'none', border: 'none', color: '#6c757d', fontSize: '16px', cursor: 'pointer', padding: '0 4px' }}
+          title="Exit replay"
+        >
+          ×
+        </button>
+      </div>
+
+      {/* Backtrack heat strip + scrubber */}
+      <div
+        onClick={handleStripClick}
+        style={{ position: 'relative', display: 'flex', height: '14px', borderRadius: '3px', overflow: 'hidden', backgroundColor: '#e9ecef', cursor: 'pointer' }}
+        title={`${timeline.stats.backtracks} backtracks - darker red means more backtracking`}
+      >
+        {density.map((count, bucket) => (
+          <div
+            key={bucket}
+            style={{ flex: 1, backgroundColor: count > 0 ? `rgba(220, 53, 69, ${0.2 + 0.8 * (count / maxDensity)})` : 'transparent' }}
+          />
+        ))}
+        <div style={{
+          position: 'absolute',
+          top: 0,
+          bottom: 0,
+          left: `${lastIndex > 0 ? (Math.max(0, index) / lastIndex) * 100 : 0}%`,
+          width: '2px',
+          backgroundColor: '#007bff'
+        }} />
+      </div>
+      <input
+        type="range"
+        min={-1}
+        max={lastIndex}
+        value={index}
+        onChange={(e) => {
+          onPlayingChange(false);
+          onIndexChange(Number(e.target.value));
+        }}
+        style={{ width: '100%', margin: '4px 0' }}
+      />
+
+      {/* Transport */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '4px', flexWrap: 'wrap' }}>
+        <button onClick={() => { onPlayingChange(false); onIndexChange(-1); }} style={buttonStyle} title="Back to start">⏮</button>
+        <button onClick={() => jumpToBacktrack(-1)} style={buttonStyle} title="Previous backtrack">↶</button>
+        <button onClick={() => step(-1)} style={buttonStyle} title="Step back">◀</button>
+        <button
+          onClick={() => {
+            if (!playing && index >= lastIndex) onIndexChange(-1);
+            onPlayingChange(!playing);
+          }}
+          style={{ ...buttonStyle, backgroundColor: playing ? '#ffc107' : '#28a745', color: playing ? '#212529' : 'white' }}
+          title={playing ? 'Pause' : 'Play'}
+        >
+          {playing ? '⏸' : '▶'}
+        </button>
+        <button onClick={() => step(1)} style={buttonStyle} title="Step forward">▶</button>
+        <button onClick={() => jumpToBacktrack(1)} style={buttonStyle} title="Next backtrack">↷</button>
+        <select
+          value={speed}
+          onChange={(e) => onSpeedChange(Number(e.target.value))}
+          style={{ padding: '5px', border: '1px solid #ced4da', borderRadius: '4px', fontSize: '12px', marginLeft: 'auto' }}
+          title="Events per second"
+        >
+          {REPLAY_SPEEDS.map(value => (
+            <option key={value} value={value}>{value}/s</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Current event */}
+      <div style={{ marginTop: '6px', color: '#495057', display: 'flex', justifyContent: 'space-between', gap: '8px' }}>
+        <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {currentEvent ? describeEvent(currentEvent) : 'Start'}
+        </span>
+        <span style={{ fontFamily: 'monospace', whiteSpace: 'nowrap' }}>
+          {index + 1}/{timeline.length} · {placedNow} placed
+        </span>
+      </div>
+    </div>
+  );
+}
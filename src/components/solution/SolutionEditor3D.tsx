@@ -4,24 +4,48 @@
 import React, { useRef, useEffect, useState, forwardRef, useImperativeHandle } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
-import { SolutionFile, SolutionSettings, PieceRenderData } from '../../types/solution';
+import { SolutionFile, SolutionSettings, PieceRenderData, DEFAULT_PIECE_COLORS } from '../../types/solution';
 import { fccToWorld, centerFCCCoords, FCCCoord } from '../../lib/coords/fcc';
+import { findAdjacentPairs } from '../../lib/coords/lattice';
 import { calculateOptimalCameraPosition, analyzeConvexHull } from '../../lib/geometry/hull';
 import { PBRIntegrationService } from '../../services/pbrIntegration';
+import { CaptureTarget } from '../../services/capture';
+import { CameraView } from '../../services/deepLinks';
+import { ReplayPlacement } from '../../lib/replay/timeline';
 import DebugModal from './DebugModal';
 
 interface SolutionEditor3DProps {
   solution: SolutionFile;
   settings: SolutionSettings;
+  highlightedPlacements?: number[]; // Placement indices to flag (e.g. validation errors)
+  replayPlacements?: ReplayPlacement[] | null; // Event replay: show these instead of the solution's pieces
+  replayAnimationMs?: number; // Grow/shrink time for pieces entering/leaving the replay
+  explodeFactor?: number; // Exploded view: 0 = assembled, 1 = each piece pushed out by its own distance from the centroid
+  selectedPlacement?: number | null; // Placement index shown as selected
+  hiddenPlacements?: number[]; // Placement indices hidden on top of the visible-piece-count filter
+  onPlacementSelect?: (index: number | null) => void; // Tap on a piece (null = tap on empty space)
 }
 
 export interface SolutionEditor3DRef {
   centerAndOrientSolution: () => void;
+  animatePieceIn: (orderIndex: number, durationMs: number) => void; // Fly a piece into place (assembly order)
+  getAssemblyOrder: () => string[]; // Piece ids in bottom-to-top render order
+  getBuildOrder: () => number[]; // Placement indices in the same order
+  getCaptureTarget: () => CaptureTarget | null;
+  getCameraView: () => CameraView | null; // For share links
+  setCameraView: (view: CameraView) => void;
 }
 
 const SolutionEditor3D = forwardRef<SolutionEditor3DRef, SolutionEditor3DProps>(({
   solution,
-  settings
+  settings,
+  highlightedPlacements = [],
+  replayPlacements = null,
+  replayAnimationMs = 200,
+  explodeFactor = 0,
+  selectedPlacement = null,
+  hiddenPlacements = [],
+  onPlacementSelect
 }, ref) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const sceneRef = useRef<THREE.Scene>();
@@ -34,6 +58,19 @@ const SolutionEditor3D = forwardRef<SolutionEditor3DRef, SolutionEditor3DProps>(
   const [debugData, setDebugData] = useState<any>(null);
   const pieceGroupsRef = useRef<Map<string, THREE.Group>>(new Map());
   
+  // Piece groups in render (assembly) order; visibility is toggled without rebuilding meshes
+  const renderOrderRef = useRef<THREE.Group[]>([]);
+  const visiblePieceCountRef = useRef(settings.visiblePieceCount);
+  visiblePieceCountRef.current = settings.visiblePieceCount;
+  const explodeFactorRef = useRef(explodeFactor);
+  explodeFactorRef.current = explodeFactor;
+  const explodeAnimationRef = useRef(0);
+  const hiddenPlacementsRef = useRef(hiddenPlacements);
+  hiddenPlacementsRef.current = hiddenPlacements;
+  const selectedPlacementRef = useRef(selectedPlacement);
+  selectedPlacementRef.current = selectedPlacement;
+  const pointerDownRef = useRef<{ x: number; y: number } | null>(null);
+  
   // PBR integration service
   const pbrServiceRef = useRef<PBRIntegrationService | null>(null);
   
@@ -42,6 +79,12 @@ const SolutionEditor3D = forwardRef<SolutionEditor3DRef, SolutionEditor3DProps>(
   const orientedWorldPositionsRef = useRef<THREE.Vector3[]>([]);  // Step 7: Oriented coordinates
   const cameraPivotRef = useRef<THREE.Vector3>(new THREE.Vector3()); // Step 8: Transformed pivot
   const isOrientedRef = useRef<boolean>(false);
+  const orientationTransformRef = useRef<{ center: THREE.Vector3; matrix: THREE.Matrix4 } | null>(null);
+  
+  // Event replay pieces, keyed by piece key + cells, and a counter bumped when orientation changes
+  const replayGroupsRef = useRef<Map<string, THREE.Group>>(new Map());
+  const [frameVersion, setFrameVersion] = useState(0);
+  const replayMode = replayPlacements !== null;
   
 
   // ALT+D keyboard handler for debug modal
@@ -86,7 +129,7 @@ const SolutionEditor3D = forwardRef<SolutionEditor3DRef, SolutionEditor3DProps>(
     cameraRef.current = camera;
     
     // Renderer setup
-    const renderer = new THREE.WebGLRenderer({ antialias: true });
+    const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true }); // Alpha for transparent captures
     renderer.setSize(containerRef.current.clientWidth, containerRef.current.clientHeight);
     renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
     renderer.shadowMap.enabled = true;
@@ -386,9 +429,14 @@ const SolutionEditor3D = forwardRef<SolutionEditor3DRef, SolutionEditor3DProps>(
   };
 
   // Create basic material (avoiding PBR conflicts)
-  const createMaterial = (baseColor: string): THREE.Material => {
+  const createMaterial = (baseColor: string, highlighted: boolean = false): THREE.Material => {
     return new THREE.MeshStandardMaterial({
       color: new THREE.Color(baseColor),
+      // Highlighted pieces glow red so offending placements stand out
+      ...(highlighted && {
+        emissive: new THREE.Color('#ff0000'),
+        emissiveIntensity: 0.6
+      }),
       transparent: true,
       opacity: Math.max(0.1, 1.0 - (settings.transparency || 0)),
       metalness: settings.metalness || 0,
@@ -401,30 +449,6 @@ const SolutionEditor3D = forwardRef<SolutionEditor3DRef, SolutionEditor3DProps>(
     });
   };
 
-  // Detect adjacent spheres within a piece (for bond creation)
-  const findAdjacentSpheres = (spherePositions: THREE.Vector3[], sphereRadius: number): Array<[number, number]> => {
-    const adjacentPairs: Array<[number, number]> = [];
-    const bondDistance = sphereRadius * 2.0; // Distance between sphere centers when they should be bonded
-    const tolerance = sphereRadius * 0.3; // 30% tolerance for bond detection
-    
-    for (let i = 0; i < spherePositions.length; i++) {
-      for (let j = i + 1; j < spherePositions.length; j++) {
-        const pos1 = spherePositions[i];
-        const pos2 = spherePositions[j];
-        
-        // Calculate actual distance between sphere centers in world coordinates
-        const distance = pos1.distanceTo(pos2);
-        
-        // Create bond if spheres are approximately 2 × radius apart (touching or nearly touching)
-        if (Math.abs(distance - bondDistance) <= tolerance) {
-          adjacentPairs.push([i, j]);
-        }
-      }
-    }
-    
-    return adjacentPairs;
-  };
-
   // Create bond cylinder between two sphere positions
   const createBond = (pos1: THREE.Vector3, pos2: THREE.Vector3, material: THREE.Material, sphereRadius: number): THREE.Mesh => {
     // Always use a default thickness if not specified
@@ -529,8 +553,10 @@ const SolutionEditor3D = forwardRef<SolutionEditor3DRef, SolutionEditor3DProps>(
     return placementsWithCenters.map(({ placement }, index) => ({
       id: placement.piece,
       color: settings.pieceColors[placement.piece] || '#888888',
-      visible: index < settings.visiblePieceCount,
-      cells: placement.cells_ijk
+      visible: index < visiblePieceCountRef.current,
+      cells: placement.cells_ijk,
+      highlighted: highlightedPlacements.includes(solution.placements.indexOf(placement)),
+      placementIndex: solution.placements.indexOf(placement)
     }));
   };
 
@@ -542,6 +568,7 @@ const SolutionEditor3D = forwardRef<SolutionEditor3DRef, SolutionEditor3DProps>(
     orientedWorldPositionsRef.current = [];
     cameraPivotRef.current = new THREE.Vector3();
     isOrientedRef.current = false;
+    orientationTransformRef.current = null;
   }, [solution]);
 
   // Render solution pieces with PBR materials
@@ -567,9 +594,10 @@ const SolutionEditor3D = forwardRef<SolutionEditor3DRef, SolutionEditor3DProps>(
       });
     });
     pieceGroupsRef.current.clear();
+    renderOrderRef.current = [];
     
-    // Create piece render data
-    const pieceData = createPieceRenderData();
+    // Create piece render data (replay mode draws its own pieces)
+    const pieceData = replayMode ? [] : createPieceRenderData();
     
     // Calculate optimal sphere radius based on world coordinates
     const sphereRadius = calculateOptimalSphereRadius();
@@ -581,7 +609,7 @@ const SolutionEditor3D = forwardRef<SolutionEditor3DRef, SolutionEditor3DProps>(
       pieceGroup.visible = piece.visible;
       
       // Create material for this piece
-      const material = createMaterial(piece.color);
+      const material = createMaterial(piece.color, piece.highlighted);
       
       // Create high-quality spheres for each cell in the piece
       const sphereGeometry = new THREE.SphereGeometry(sphereRadius, 32, 24); // High quality mesh
@@ -616,8 +644,8 @@ const SolutionEditor3D = forwardRef<SolutionEditor3DRef, SolutionEditor3DProps>(
         pieceGroup.add(sphere);
       });
 
-      // ALWAYS CREATE BONDS - simple and direct
-      const adjacentPairs = findAdjacentSpheres(spherePositions, sphereRadius);
+      // ALWAYS CREATE BONDS between cells that touch in the lattice
+      const adjacentPairs = findAdjacentPairs(piece.cells.map(c => ({ x: c[0], y: c[1], z: c[2] })));
       
       adjacentPairs.forEach(([i, j]) => {
         const pos1 = spherePositions[i];
@@ -628,7 +656,13 @@ const SolutionEditor3D = forwardRef<SolutionEditor3DRef, SolutionEditor3DProps>(
       
       sceneRef.current!.add(pieceGroup);
       pieceGroupsRef.current.set(piece.id, pieceGroup);
+      pieceGroup.userData.pieceId = piece.id;
+      pieceGroup.userData.placementIndex = piece.placementIndex;
+      renderOrderRef.current.push(pieceGroup);
     });
+    explodePieces(explodeFactorRef.current, 0);
+    applyPieceVisibility();
+    applySelectionHighlight();
     
     // Auto-orient solution after initial render (only if not already oriented)
     if (!isOrientedRef.current) {
@@ -637,7 +671,282 @@ const SolutionEditor3D = forwardRef<SolutionEditor3DRef, SolutionEditor3DProps>(
       }, 100);
     }
     
-  }, [solution, settings.pieceColors, settings.visiblePieceCount, settings.bonds?.enabled, settings.bonds?.thickness]);
+  }, [solution, settings.pieceColors, settings.bonds?.enabled, settings.bonds?.thickness, highlightedPlacements.join(','), replayMode]);
+
+  // Show the first visiblePieceCount pieces in assembly order, minus any hidden placements
+  const applyPieceVisibility = () => {
+    renderOrderRef.current.forEach((group, index) => {
+      group.visible = index < visiblePieceCountRef.current && !hiddenPlacementsRef.current.includes(group.userData.placementIndex);
+      if (!group.visible) {
+        // Hidden pieces drop any flight in progress and rest in place
+        group.userData.flyToken = (group.userData.flyToken || 0) + 1;
+        group.userData.flyOffset = undefined;
+        applyGroupOffset(group);
+      }
+    });
+  };
+
+  useEffect(() => {
+    applyPieceVisibility();
+  }, [settings.visiblePieceCount, hiddenPlacements.join(',')]);
+
+  // Selected piece glows yellow; other pieces keep their own emissive (e.g. validation red)
+  const applySelectionHighlight = () => {
+    renderOrderRef.current.forEach(group => {
+      const selected = group.userData.placementIndex === selectedPlacementRef.current;
+      group.traverse(child => {
+        if (!(child instanceof THREE.Mesh) || !(child.material instanceof THREE.MeshStandardMaterial)) return;
+        const material = child.material;
+        if (!material.userData.baseEmissive) {
+          material.userData.baseEmissive = { color: material.emissive.clone(), intensity: material.emissiveIntensity };
+        }
+        const base = material.userData.baseEmissive;
+        material.emissive.copy(selected ? new THREE.Color('#ffd500') : base.color);
+        material.emissiveIntensity = selected ? 0.5 : base.intensity;
+      });
+    });
+  };
+
+  useEffect(() => {
+    applySelectionHighlight();
+  }, [selectedPlacement]);
+
+  // Tap (press and release without dragging the camera) picks the nearest visible piece
+  const handlePointerDown = (event: React.PointerEvent) => {
+    pointerDownRef.current = { x: event.clientX, y: event.clientY };
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    const down = pointerDownRef.current;
+    pointerDownRef.current = null;
+    if (!down || !onPlacementSelect || replayMode) return;
+    if (Math.hypot(event.clientX - down.x, event.clientY - down.y) > 6) return; // Orbit drag, not a tap
+
+    const canvas = rendererRef.current?.domElement;
+    if (!canvas || !cameraRef.current) return;
+
+    const rect = canvas.getBoundingClientRect();
+    const mouse = new THREE.Vector2(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
+    );
+    const raycaster = new THREE.Raycaster();
+    raycaster.setFromCamera(mouse, cameraRef.current);
+
+    const intersects = raycaster.intersectObjects(renderOrderRef.current.filter(group => group.visible), true);
+    let hit: THREE.Object3D | null = intersects.length > 0 ? intersects[0].object : null;
+    while (hit && hit.userData.placementIndex === undefined) hit = hit.parent;
+
+    onPlacementSelect(hit ? hit.userData.placementIndex : null);
+  };
+
+  // A group's position is its exploded-view offset plus any assembly flight offset
+  const applyGroupOffset = (group: THREE.Group) => {
+    group.position.set(0, 0, 0);
+    if (group.userData.explodeOffset) group.position.add(group.userData.explodeOffset);
+    if (group.userData.flyOffset) group.position.add(group.userData.flyOffset);
+  };
+
+  // Piece center with no offset applied (cached per group)
+  const getRestCenter = (group: THREE.Group): THREE.Vector3 => {
+    if (!group.userData.restCenter) {
+      const center = new THREE.Box3().setFromObject(group).getCenter(new THREE.Vector3());
+      group.userData.restCenter = center.sub(group.position);
+    }
+    return group.userData.restCenter;
+  };
+
+  // Push every piece (hidden ones too, so the layout is stable while filtering) away from the solution centroid
+  const explodePieces = (factor: number, durationMs: number) => {
+    const groups = renderOrderRef.current;
+    if (groups.length === 0) return;
+    
+    const centroid = new THREE.Vector3();
+    groups.forEach(group => centroid.add(getRestCenter(group)));
+    centroid.divideScalar(groups.length);
+    
+    const from = groups.map(group => (group.userData.explodeOffset || new THREE.Vector3()).clone());
+    const to = groups.map(group => getRestCenter(group).clone().sub(centroid).multiplyScalar(factor));
+    
+    const token = ++explodeAnimationRef.current;
+    const start = performance.now();
+    const tick = (now: number) => {
+      if (explodeAnimationRef.current !== token) return; // Superseded by a newer factor
+      const t = durationMs > 0 ? Math.min(1, (now - start) / durationMs) : 1;
+      const eased = t * t * (3 - 2 * t);
+      groups.forEach((group, index) => {
+        group.userData.explodeOffset = from[index].clone().lerp(to[index], eased);
+        applyGroupOffset(group);
+      });
+      if (t < 1) requestAnimationFrame(tick);
+    };
+    tick(start);
+  };
+
+  useEffect(() => {
+    explodePieces(explodeFactor, 400);
+  }, [explodeFactor]);
+
+  // Fly a piece in along its approach path: out and above the assembly, across, then down into place
+  const animatePieceIn = (orderIndex: number, durationMs: number) => {
+    const group = renderOrderRef.current[orderIndex];
+    if (!group) return;
+    
+    group.userData.flyToken = (group.userData.flyToken || 0) + 1;
+    group.userData.flyOffset = undefined;
+    applyGroupOffset(group);
+    group.visible = true;
+    if (durationMs <= 0) return;
+    
+    const assemblyBox = new THREE.Box3();
+    renderOrderRef.current.forEach(g => assemblyBox.expandByObject(g));
+    const assemblyCenter = assemblyBox.getCenter(new THREE.Vector3());
+    const assemblySize = assemblyBox.getSize(new THREE.Vector3());
+    const pieceCenter = new THREE.Box3().setFromObject(group).getCenter(new THREE.Vector3());
+    
+    // Approach from the side the piece sits on, starting above the finished assembly
+    const outward = pieceCenter.clone().sub(assemblyCenter);
+    outward.y = 0;
+    if (outward.lengthSq() < 1e-6) outward.set(1, 0, 0);
+    outward.normalize().multiplyScalar(Math.max(assemblySize.x, assemblySize.z) * 0.5 + 1);
+    const lift = new THREE.Vector3(0, assemblySize.y * 0.8 + 1.5, 0);
+    
+    const ease = (t: number) => 1 - Math.pow(1 - t, 3);
+    const token = (group.userData.flyToken || 0) + 1;
+    group.userData.flyToken = token;
+    const start = performance.now();
+    
+    const tick = (now: number) => {
+      if (group.userData.flyToken !== token) return; // Superseded by a newer animation
+      const t = Math.min(1, (now - start) / durationMs);
+      const across = ease(Math.min(1, t / 0.6));
+      const down = ease(Math.max(0, (t - 0.3) / 0.7));
+      group.userData.flyOffset = outward.clone().multiplyScalar(1 - across).addScaledVector(lift, 1 - down);
+      applyGroupOffset(group);
+      if (t < 1) requestAnimationFrame(tick);
+    };
+    group.userData.flyOffset = outward.clone().add(lift);
+    applyGroupOffset(group);
+    requestAnimationFrame(tick);
+  };
+
+  const getAssemblyOrder = (): string[] => renderOrderRef.current.map(group => group.userData.pieceId);
+  const getBuildOrder = (): number[] => renderOrderRef.current.map(group => group.userData.placementIndex);
+
+  // Scene position of an engine cell, following the current center & orient transform
+  const cellToScenePosition = (cell: number[]): THREE.Vector3 => {
+    const worldPos = fccToWorld({ x: cell[0], y: cell[1], z: cell[2] });
+    const position = new THREE.Vector3(worldPos.x, worldPos.y, worldPos.z);
+    const transform = orientationTransformRef.current;
+    return transform ? position.sub(transform.center).applyMatrix4(transform.matrix) : position;
+  };
+
+  // Colour for replay pieces: settings/default palette for A–Y, stable hashed palette colour otherwise
+  const replayPieceColor = (pieceId: string): string => {
+    if (settings.pieceColors[pieceId]) return settings.pieceColors[pieceId];
+    if (DEFAULT_PIECE_COLORS[pieceId]) return DEFAULT_PIECE_COLORS[pieceId];
+    const palette = Object.values(DEFAULT_PIECE_COLORS);
+    const hash = Array.from(pieceId).reduce((sum, char) => (sum * 31 + char.charCodeAt(0)) >>> 0, 7);
+    return palette[hash % palette.length];
+  };
+
+  // Scale a replay piece in or out around its own center
+  const animateReplayScale = (group: THREE.Group, from: number, to: number, onDone?: () => void) => {
+    if (replayAnimationMs <= 0) {
+      group.scale.setScalar(to);
+      onDone?.();
+      return;
+    }
+    
+    const start = performance.now();
+    group.scale.setScalar(from);
+    const tick = (now: number) => {
+      const t = Math.min(1, (now - start) / replayAnimationMs);
+      group.scale.setScalar(from + (to - from) * t);
+      if (t < 1) {
+        requestAnimationFrame(tick);
+      } else {
+        onDone?.();
+      }
+    };
+    requestAnimationFrame(tick);
+  };
+
+  const disposeGroup = (group: THREE.Group) => {
+    sceneRef.current?.remove(group);
+    group.traverse((child) => {
+      if (child instanceof THREE.Mesh) {
+        child.geometry.dispose();
+        (child.material as THREE.Material).dispose();
+      }
+    });
+  };
+
+  // Render event replay pieces: new pieces grow in, removed pieces shrink out
+  useEffect(() => {
+    if (!sceneRef.current) return;
+    const groups = replayGroupsRef.current;
+    
+    if (!replayPlacements) {
+      groups.forEach(disposeGroup);
+      groups.clear();
+      return;
+    }
+    
+    const origin = fccToWorld({ x: 0, y: 0, z: 0 });
+    const neighbour = fccToWorld({ x: 1, y: 0, z: 0 });
+    const sphereRadius = 0.5 * Math.hypot(neighbour.x - origin.x, neighbour.y - origin.y, neighbour.z - origin.z);
+    
+    // Orientation changed: rebuild every piece in place without animation
+    const rebuildAll = groups.size > 0 && groups.values().next().value!.userData.frameVersion !== frameVersion;
+    if (rebuildAll) {
+      groups.forEach(disposeGroup);
+      groups.clear();
+    }
+    
+    const wanted = new Map(replayPlacements.map(p => [`${p.key}|${p.cells.map(c => c.join(',')).join(';')}`, p]));
+    
+    groups.forEach((group, key) => {
+      if (wanted.has(key)) return;
+      groups.delete(key);
+      animateReplayScale(group, group.scale.x, 0.01, () => disposeGroup(group));
+    });
+    
+    wanted.forEach((placement, key) => {
+      if (groups.has(key)) return;
+      
+      const positions = placement.cells.map(cellToScenePosition);
+      const center = positions.reduce((sum, p) => sum.add(p), new THREE.Vector3()).divideScalar(Math.max(1, positions.length));
+      const localPositions = positions.map(p => p.clone().sub(center));
+      
+      const group = new THREE.Group();
+      group.name = `replay_${placement.key}`;
+      group.position.copy(center);
+      group.userData.frameVersion = frameVersion;
+      
+      const material = createMaterial(replayPieceColor(placement.pieceId));
+      const sphereGeometry = new THREE.SphereGeometry(sphereRadius, 32, 24);
+      localPositions.forEach(position => {
+        const sphere = new THREE.Mesh(sphereGeometry.clone(), material.clone());
+        sphere.position.copy(position);
+        sphere.castShadow = true;
+        sphere.receiveShadow = true;
+        group.add(sphere);
+      });
+      sphereGeometry.dispose();
+      
+      if (settings.bonds?.enabled !== false) {
+        findAdjacentPairs(placement.cells.map(c => ({ x: c[0], y: c[1], z: c[2] }))).forEach(([i, j]) => {
+          group.add(createBond(localPositions[i], localPositions[j], material.clone(), sphereRadius));
+        });
+      }
+      material.dispose();
+      
+      sceneRef.current!.add(group);
+      groups.set(key, group);
+      animateReplayScale(group, rebuildAll ? 1 : 0.01, 1);
+    });
+  }, [replayPlacements, frameVersion, settings.pieceColors, settings.bonds?.enabled, settings.bonds?.thickness]);
 
   // Disable PBR service to prevent conflicts
   // useEffect(() => {
@@ -730,6 +1039,10 @@ const SolutionEditor3D = forwardRef<SolutionEditor3DRef, SolutionEditor3DProps>(
       // Store oriented positions as the new source of truth
       orientedWorldPositionsRef.current = orientedPositions;
       isOrientedRef.current = true;
+      orientationTransformRef.current = {
+        center: new THREE.Vector3(worldCenter.x, worldCenter.y, worldCenter.z),
+        matrix: orientationMatrix.clone()
+      };
       
       // Step 8: Apply same transformation to face center for camera pivot
       const transformedPivot = faceCenterBeforeTransform.clone().applyMatrix4(orientationMatrix);
@@ -774,6 +1087,13 @@ const SolutionEditor3D = forwardRef<SolutionEditor3DRef, SolutionEditor3DProps>(
       });
     });
     pieceGroupsRef.current.clear();
+    renderOrderRef.current = [];
+    
+    // Replay pieces are positioned through the stored transform
+    if (replayMode) {
+      setFrameVersion(version => version + 1);
+      return;
+    }
     
     // Re-render pieces with oriented coordinates AND BONDS
     const pieceData = createPieceRenderData();
@@ -785,7 +1105,7 @@ const SolutionEditor3D = forwardRef<SolutionEditor3DRef, SolutionEditor3DProps>(
       pieceGroup.visible = piece.visible;
       
       // Create material for this piece
-      const material = createMaterial(piece.color);
+      const material = createMaterial(piece.color, piece.highlighted);
       
       // Create spheres using oriented coordinates
       const sphereGeometry = new THREE.SphereGeometry(sphereRadius, 32, 24);
@@ -818,7 +1138,7 @@ const SolutionEditor3D = forwardRef<SolutionEditor3DRef, SolutionEditor3DProps>(
       });
       
       // ALWAYS CREATE BONDS AFTER ORIENTATION TOO
-      const adjacentPairs = findAdjacentSpheres(spherePositions, sphereRadius);
+      const adjacentPairs = findAdjacentPairs(piece.cells.map(c => ({ x: c[0], y: c[1], z: c[2] })));
       
       adjacentPairs.forEach(([i, j]) => {
         const pos1 = spherePositions[i];
@@ -829,7 +1149,13 @@ const SolutionEditor3D = forwardRef<SolutionEditor3DRef, SolutionEditor3DProps>(
       
       sceneRef.current!.add(pieceGroup);
       pieceGroupsRef.current.set(piece.id, pieceGroup);
+      pieceGroup.userData.pieceId = piece.id;
+      pieceGroup.userData.placementIndex = piece.placementIndex;
+      renderOrderRef.current.push(pieceGroup);
     });
+    explodePieces(explodeFactorRef.current, 0);
+    applyPieceVisibility();
+    applySelectionHighlight();
   
   };
 
@@ -849,6 +1175,16 @@ const SolutionEditor3D = forwardRef<SolutionEditor3DRef, SolutionEditor3DProps>(
       return new THREE.Vector3(worldPos.x, worldPos.y, worldPos.z);
     });
     
+    // Keep the centering offset so replay pieces line up with the camera
+    const firstWorld = fccToWorld(fccCoords[0]);
+    orientationTransformRef.current = {
+      center: new THREE.Vector3(firstWorld.x, firstWorld.y, firstWorld.z).sub(worldPoints[0]),
+      matrix: new THREE.Matrix4()
+    };
+    if (replayMode) {
+      setFrameVersion(version => version + 1);
+    }
+    
     // Update piece positions with centered coordinates
     let cellIndex = 0;
     solution.placements.forEach((placement) => {
@@ -890,16 +1226,46 @@ const SolutionEditor3D = forwardRef<SolutionEditor3DRef, SolutionEditor3DProps>(
     console.log('✅ Basic solution centering complete');
   };
 
+  // Live renderer, scene, camera and controls for PNG and video capture
+  const getCaptureTarget = (): CaptureTarget | null => {
+    if (!rendererRef.current || !sceneRef.current || !cameraRef.current) return null;
+    return { renderer: rendererRef.current, scene: sceneRef.current, camera: cameraRef.current, controls: controlsRef.current };
+  };
+
+  // Camera position, orbit target and zoom, for share links
+  const getCameraView = (): CameraView | null => {
+    if (!cameraRef.current || !controlsRef.current) return null;
+    const { position, zoom } = cameraRef.current;
+    const { target } = controlsRef.current;
+    return { position: [position.x, position.y, position.z], target: [target.x, target.y, target.z], zoom };
+  };
+
+  const setCameraView = (view: CameraView) => {
+    if (!cameraRef.current || !controlsRef.current) return;
+    cameraRef.current.position.set(...view.position);
+    cameraRef.current.zoom = view.zoom;
+    cameraRef.current.updateProjectionMatrix();
+    controlsRef.current.target.set(...view.target);
+    controlsRef.current.update();
+  };
   
   // Expose methods via ref
   useImperativeHandle(ref, () => ({
-    centerAndOrientSolution
+    centerAndOrientSolution,
+    animatePieceIn,
+    getAssemblyOrder,
+    getBuildOrder,
+    getCaptureTarget,
+    getCameraView,
+    setCameraView
   }), [solution]);
   
   return (
     <>
       <div 
         ref={containerRef}
+        onPointerDown={handlePointerDown}
+        onPointerUp={handlePointerUp}
         style={{
           position: 'absolute',
           top: 0,
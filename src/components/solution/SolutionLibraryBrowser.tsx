@@ -0,0 +1,412 @@
+// Solution Library Browser
+// Solutions listed in content/index.json, grouped by container, with search, sorting and duplicate collapsing,
+// next to the user's own solutions and partials in the workspace
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { LibraryItem, fetchLibraryManifest, getSolutionsFromManifest, searchContainers, sortContainers, groupSolutions, collapseDuplicateSolutions } from '../../services/library';
+import { WorkspaceItem, WorkspaceItemType } from '../../services/workspace';
+import WorkspaceList from '../workspace/WorkspaceList';
+import OfflineLibraryBar from '../library/OfflineLibraryBar';
+
+interface SolutionLibraryBrowserProps {
+  onSolutionSelect: (item: LibraryItem) => void;
+  onWorkspaceSelect: (item: WorkspaceItem) => void;
+  onClose: () => void;
+  currentName?: string;                               // Suggested name for a workspace save
+  saveType?: WorkspaceItemType;                       // 'partial' when the open solution does not fill its container
+  onSaveToWorkspace?: (name: string) => Promise<void>; // Omitted when no solution is open
+}
+
+export default function SolutionLibraryBrowser({ onSolutionSelect, onWorkspaceSelect, onClose, currentName = '', saveType = 'solution', onSaveToWorkspace }: SolutionLibraryBrowserProps) {
+  const [mode, setMode] = useState<'library' | 'workspace'>('library');
+  const [manifest, setManifest] = useState<LibraryItem[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [sortBy, setSortBy] = useState<'name' | 'size' | 'updated'>('name');
+  const [groupBy, setGroupBy] = useState<'cid' | 'name'>('cid');
+  const [collapseDuplicates, setCollapseDuplicates] = useState(true);
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
+  const [libraryLoading, setLibraryLoading] = useState(true);
+  const [error, setError] = useState<string>('');
+
+  // Load library manifest on mount
+  useEffect(() => {
+    const loadLibrary = async () => {
+      try {
+        setLibraryLoading(true);
+        setError('');
+        const items = await fetchLibraryManifest();
+        setManifest(items);
+        console.log(`📚 SOLUTIONS: ${getSolutionsFromManifest(items).length} solution(s) in library`);
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setLibraryLoading(false);
+      }
+    };
+
+    loadLibrary();
+  }, []);
+
+  const solutions = useMemo(() => getSolutionsFromManifest(manifest), [manifest]);
+
+  const filtered = useMemo(
+    () => sortContainers(searchContainers(solutions, searchQuery), sortBy),
+    [solutions, searchQuery, sortBy]
+  );
+
+  // Same solution up to rotation (equal canonical SID) is listed once when collapsing
+  const { solutions: distinct, duplicates } = useMemo(() => collapseDuplicateSolutions(filtered), [filtered]);
+
+  const groups = useMemo(
+    () => groupSolutions(collapseDuplicates ? distinct : filtered, manifest, groupBy),
+    [filtered, distinct, collapseDuplicates, manifest, groupBy]
+  );
+
+  const hiddenDuplicates = collapseDuplicates
+    ? Array.from(duplicates.values()).reduce((sum, copies) => sum + copies.length, 0)
+    : 0;
+
+  const visibleCount = groups.reduce((sum, group) => sum + group.solutions.length, 0);
+
+  const toggleGroup = (key: string) => {
+    setExpandedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  // Searching (or a single group) opens every group
+  const isExpanded = (key: string) => searchQuery.trim() !== '' || groups.length === 1 || expandedGroups.has(key);
+
+  const formatPieces = (size: number | null): string => {
+    if (size === null || size === undefined) return 'Pieces not counted';
+    return `${size} piece${size !== 1 ? 's' : ''}`;
+  };
+
+  const formatCID = (cid: string): string => {
+    if (!cid || cid.trim() === '') return 'No container CID';
+    return cid.substring(7, 15); // Show short CID
+  };
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      zIndex: 2000,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: '20px'
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        borderRadius: '12px',
+        width: '100%',
+        maxWidth: '600px',
+        maxHeight: '80vh',
+        display: 'flex',
+        flexDirection: 'column',
+        boxShadow: '0 10px 25px rgba(0, 0, 0, 0.2)'
+      }}>
+        {/* Header */}
+        <div style={{
+          padding: '20px',
+          borderBottom: '1px solid #e9ecef',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center'
+        }}>
+          <h2 style={{ margin: 0, fontSize: '20px', fontWeight: '600' }}>
+            {mode === 'library' ? 'Solution Library' : 'My Workspace'}
+          </h2>
+          <button
+            onClick={onClose}
+            style={{
+              background: 'none',
+              border: 'none',
+              fontSize: '24px',
+              cursor: 'pointer',
+              color: '#6c757d',
+              padding: '0',
+              width: '30px',
+              height: '30px',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center'
+            }}
+          >
+            ×
+          </button>
+        </div>
+
+        {/* Mode Selector */}
+        <div style={{
+          padding: '12px 16px',
+          borderBottom: '1px solid #e9ecef',
+          display: 'flex',
+          gap: '6px'
+        }}>
+          <button
+            onClick={() => setMode('library')}
+            style={{
+              flex: 1,
+              padding: '10px 16px',
+              backgroundColor: mode === 'library' ? '#007bff' : '#f8f9fa',
+              color: mode === 'library' ? 'white' : '#495057',
+              border: '1px solid #dee2e6',
+              borderRadius: '6px',
+              fontSize: '14px',
+              fontWeight: '500',
+              cursor: 'pointer',
+              transition: 'all 0.2s'
+            }}
+          >
+            📚 Browse Library
+          </button>
+          <button
+            onClick={() => setMode('workspace')}
+            style={{
+              flex: 1,
+              padding: '10px 16px',
+              backgroundColor: mode === 'workspace' ? '#007bff' : '#f8f9fa',
+              color: mode === 'workspace' ? 'white' : '#495057',
+              border: '1px solid #dee2e6',
+              borderRadius: '6px',
+              fontSize: '14px',
+              fontWeight: '500',
+              cursor: 'pointer',
+              transition: 'all 0.2s'
+            }}
+          >
+            💾 My Workspace
+          </button>
+        </div>
+
+        {mode === 'workspace' ? (
+        <WorkspaceList
+          types={['solution', 'partial']}
+          saveType={saveType}
+          defaultName={currentName}
+          onSave={onSaveToWorkspace}
+          onOpen={(item) => {
+            onWorkspaceSelect(item);
+            onClose();
+          }}
+        />
+        ) : (
+        <>
+        {/* Search, Sort and Group Controls */}
+        <div style={{
+          padding: '16px 20px',
+          borderBottom: '1px solid #e9ecef',
+          display: 'flex',
+          gap: '12px',
+          flexWrap: 'wrap'
+        }}>
+          <input
+            type="text"
+            placeholder="Search solutions or CIDs..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            style={{
+              flex: 1,
+              minWidth: '200px',
+              padding: '8px 12px',
+              border: '1px solid #ced4da',
+              borderRadius: '6px',
+              fontSize: '14px'
+            }}
+          />
+          <select
+            value={sortBy}
+            onChange={(e) => setSortBy(e.target.value as 'name' | 'size' | 'updated')}
+            style={{
+              padding: '8px 12px',
+              border: '1px solid #ced4da',
+              borderRadius: '6px',
+              fontSize: '14px',
+              backgroundColor: 'white'
+            }}
+          >
+            <option value="name">Sort by Name</option>
+            <option value="size">Sort by Pieces</option>
+            <option value="updated">Sort by Date</option>
+          </select>
+          <select
+            value={groupBy}
+            onChange={(e) => setGroupBy(e.target.value as 'cid' | 'name')}
+            style={{
+              padding: '8px 12px',
+              border: '1px solid #ced4da',
+              borderRadius: '6px',
+              fontSize: '14px',
+              backgroundColor: 'white'
+            }}
+          >
+            <option value="cid">Group by Container CID</option>
+            <option value="name">Group by Container Name</option>
+          </select>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '14px', color: '#495057' }}>
+            <input
+              type="checkbox"
+              checked={collapseDuplicates}
+              onChange={(e) => setCollapseDuplicates(e.target.checked)}
+            />
+            Collapse duplicates
+          </label>
+        </div>
+
+        {/* Content Area */}
+        <div style={{
+          flex: 1,
+          overflowY: 'auto',
+          padding: '12px'
+        }}>
+          {libraryLoading ? (
+            <div style={{
+              display: 'flex',
+              justifyContent: 'center',
+              alignItems: 'center',
+              height: '200px',
+              color: '#6c757d'
+            }}>
+              Loading library...
+            </div>
+          ) : error ? (
+            <div style={{
+              display: 'flex',
+              flexDirection: 'column',
+              justifyContent: 'center',
+              alignItems: 'center',
+              height: '200px',
+              color: '#dc3545',
+              textAlign: 'center',
+              padding: '20px'
+            }}>
+              <div style={{ fontSize: '16px', fontWeight: '500', marginBottom: '8px' }}>
+                Library Unavailable
+              </div>
+              <div style={{ fontSize: '14px', opacity: 0.8 }}>
+                {error}
+              </div>
+            </div>
+          ) : groups.length === 0 ? (
+            <div style={{
+              display: 'flex',
+              justifyContent: 'center',
+              alignItems: 'center',
+              height: '200px',
+              color: '#6c757d'
+            }}>
+              {searchQuery ? 'No solutions match your search' : 'No solutions available'}
+            </div>
+          ) : (
+            groups.map(group => (
+              <div key={group.key} style={{ margin: '4px 0', border: '1px solid #e9ecef', borderRadius: '6px' }}>
+                {/* Group header */}
+                <div
+                  onClick={() => toggleGroup(group.key)}
+                  style={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center',
+                    padding: '10px',
+                    cursor: 'pointer',
+                    backgroundColor: '#f8f9fa',
+                    borderRadius: '6px'
+                  }}
+                >
+                  <div style={{ minWidth: 0 }}>
+                    <div style={{ fontSize: '14px', fontWeight: '600', wordBreak: 'break-word' }}>
+                      {group.label}
+                    </div>
+                    <div style={{ fontSize: '11px', color: '#6c757d', fontFamily: 'monospace' }}>
+                      {groupBy === 'cid'
+                        ? `CID: ${formatCID(group.key.startsWith('sha256:') ? group.key : '')}${group.container ? '' : ' · container not in library'}`
+                        : `${new Set(group.solutions.map(s => s.cid)).size} container CID(s)`}
+                    </div>
+                  </div>
+                  <div style={{ fontSize: '12px', color: '#495057', whiteSpace: 'nowrap', marginLeft: '8px' }}>
+                    {group.solutions.length} solution{group.solutions.length !== 1 ? 's' : ''} {isExpanded(group.key) ? '▲' : '▼'}
+                  </div>
+                </div>
+
+                {/* Solutions in this group */}
+                {isExpanded(group.key) && group.solutions.map(item => (
+                  <div
+                    key={item.url}
+                    onClick={() => {
+                      onSolutionSelect(item);
+                      onClose();
+                    }}
+                    style={{
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      alignItems: 'center',
+                      padding: '8px 10px',
+                      borderTop: '1px solid #f1f3f5',
+                      cursor: 'pointer'
+                    }}
+                    onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#f8f9fa'}
+                    onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                  >
+                    <div style={{ minWidth: 0 }}>
+                      <div style={{ fontSize: '12px', fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                        {item.name.replace(/\.json$/, '')}
+                      </div>
+                      <div style={{ fontSize: '11px', color: '#6c757d' }}>
+                        {formatPieces(item.size)} · {item.updated}
+                      </div>
+                      {collapseDuplicates && duplicates.has(item.url) && (
+                        <div
+                          title={duplicates.get(item.url)!.map(copy => copy.name).join('\n')}
+                          style={{ fontSize: '11px', color: '#856404' }}
+                        >
+                          Same solution as {duplicates.get(item.url)!.map(copy => copy.name.replace(/\.json$/, '')).join(', ')}
+                        </div>
+                      )}
+                    </div>
+                    <div style={{
+                      fontSize: '11px',
+                      color: '#007bff',
+                      fontWeight: '500',
+                      marginLeft: '8px',
+                      padding: '4px 8px',
+                      backgroundColor: '#f8f9fa',
+                      borderRadius: '4px',
+                      border: '1px solid #007bff',
+                      minWidth: '50px',
+                      textAlign: 'center'
+                    }}>
+                      Open
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Footer */}
+        <div style={{
+          padding: '16px 20px',
+          borderTop: '1px solid #e9ecef',
+          fontSize: '12px',
+          color: '#6c757d',
+          textAlign: 'center'
+        }}>
+          {visibleCount} solution{visibleCount !== 1 ? 's' : ''} in {groups.length} group{groups.length !== 1 ? 's' : ''}
+          {hiddenDuplicates > 0 && ` · ${hiddenDuplicates} duplicate${hiddenDuplicates !== 1 ? 's' : ''} hidden`}
+          <OfflineLibraryBar />
+        </div>
+        </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,46 +5,50 @@ import React, { useState, useRef } from 'react';
 
 interface SolutionToolbarProps {
   onLoadFile: (file: File) => void;
-  onLoadFromUrl: (filename: string) => void;
+  onBrowseLibrary: () => void;
   onSettings: () => void;
+  onLoadReplay: (file: File) => void;
+  onAssemble: () => void;
+  onOpenContainer: () => void;
+  onExport: () => void;
+  onPrintKit: () => void;
+  onCapture: () => void;
+  onShare: () => void;
   loading: boolean;
   hasSolution: boolean;
   solutionName: string;
   visiblePieceCount: number;
   totalPieces: number;
   onVisibilityChange: (count: number) => void;
+  explodeFactor: number;
+  onExplodeChange: (factor: number) => void;
 }
 
-// Available solution files (can be expanded or loaded dynamically)
-const AVAILABLE_SOLUTIONS = [
-  '16_cell_container.fcc_16cell_dlx_corrected_001.json',
-  '16_cell_container.fcc_16cell_dlx_corrected_002.json',
-  '16_cell_container.fcc_16cell_dlx_corrected_003.json',
-  'Shape_2.json',
-  'Shape_2.result1.json',
-  'Shape_3.json',
-  'Shape_4.json',
-  'Shape_5.json',
-  'shape_16.current.json',
-  'shape_17.result1.json',
-  'shape_18.current.json',
-  'shape_19.current.json',
-  'shape_20.current.json'
-];
+const MAX_EXPLODE_FACTOR = 2; // Pieces move out by up to twice their distance from the centroid
 
 export default function SolutionToolbar({
   onLoadFile,
-  onLoadFromUrl,
+  onBrowseLibrary,
   onSettings,
+  onLoadReplay,
+  onAssemble,
+  onOpenContainer,
+  onExport,
+  onPrintKit,
+  onCapture,
+  onShare,
   loading,
   hasSolution,
   solutionName,
   visiblePieceCount,
   totalPieces,
-  onVisibilityChange
+  onVisibilityChange,
+  explodeFactor,
+  onExplodeChange
 }: SolutionToolbarProps) {
   const [showFileList, setShowFileList] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
   
   const handleLoadClick = () => {
     setShowFileList(!showFileList);
@@ -62,8 +66,16 @@ export default function SolutionToolbar({
     }
   };
   
-  const handleUrlSelect = (filename: string) => {
-    onLoadFromUrl(filename);
+  const handleReplayChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      onLoadReplay(file);
+    }
+    event.target.value = '';
+  };
+  
+  const handleBrowseLibrary = () => {
+    onBrowseLibrary();
     setShowFileList(false);
   };
   
@@ -125,6 +137,132 @@ export default function SolutionToolbar({
           >
             ⚙️
           </button>
+          
+          <button
+            onClick={() => replayInputRef.current?.click()}
+            disabled={loading}
+            style={{
+              padding: '8px 12px',
+              backgroundColor: '#6f42c1',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              fontSize: '14px',
+              cursor: loading ? 'not-allowed' : 'pointer',
+              opacity: loading ? 0.6 : 1,
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center'
+            }}
+            title="Replay solver event log (JSONL)"
+          >
+            🎞️
+          </button>
+          
+          {hasSolution && (
+            <button
+              onClick={onOpenContainer}
+              disabled={loading}
+              style={{
+                padding: '6px 12px',
+                backgroundColor: '#20c997',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                fontSize: '12px',
+                fontWeight: '500',
+                cursor: loading ? 'not-allowed' : 'pointer',
+                opacity: loading ? 0.6 : 1
+              }}
+              title="Open this solution's container in the shape editor"
+            >
+              Container
+            </button>
+          )}
+          
+          {hasSolution && (
+            <button
+              onClick={onExport}
+              disabled={loading}
+              style={{
+                padding: '6px 12px',
+                backgroundColor: '#28a745',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                fontSize: '12px',
+                fontWeight: '500',
+                cursor: loading ? 'not-allowed' : 'pointer',
+                opacity: loading ? 0.6 : 1
+              }}
+              title="Export as STL, OBJ or glTF with one node per piece"
+            >
+              Export 3D
+            </button>
+          )}
+          
+          {hasSolution && (
+            <button
+              onClick={onPrintKit}
+              disabled={loading}
+              style={{
+                padding: '6px 12px',
+                backgroundColor: '#fd7e14',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                fontSize: '12px',
+                fontWeight: '500',
+                cursor: loading ? 'not-allowed' : 'pointer',
+                opacity: loading ? 0.6 : 1
+              }}
+              title="Per-piece STL/3MF, bill of materials and assembly sheet"
+            >
+              Print Kit
+            </button>
+          )}
+          
+          {hasSolution && (
+            <button
+              onClick={onCapture}
+              disabled={loading}
+              style={{
+                padding: '6px 12px',
+                backgroundColor: '#e83e8c',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                fontSize: '12px',
+                fontWeight: '500',
+                cursor: loading ? 'not-allowed' : 'pointer',
+                opacity: loading ? 0.6 : 1
+              }}
+              title="Save the view as PNG or record a turntable or assembly video"
+            >
+              Capture
+            </button>
+          )}
+          
+          {hasSolution && (
+            <button
+              onClick={onShare}
+              disabled={loading}
+              style={{
+                padding: '6px 12px',
+                backgroundColor: '#17a2b8',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                fontSize: '12px',
+                fontWeight: '500',
+                cursor: loading ? 'not-allowed' : 'pointer',
+                opacity: loading ? 0.6 : 1
+              }}
+              title="Link that opens this solution and view"
+            >
+              Share
+            </button>
+          )}
         </div>
 
         {solutionName && (
@@ -151,7 +289,7 @@ export default function SolutionToolbar({
           gap: '8px',
           padding: '4px 0',
           fontSize: '12px',
-          maxWidth: '300px'
+          maxWidth: '380px'
         }}>
           <span style={{ 
             fontSize: '12px', 
@@ -177,6 +315,60 @@ export default function SolutionToolbar({
               cursor: 'pointer'
             }}
           />
+          <button
+            onClick={onAssemble}
+            style={{
+              padding: '4px 8px',
+              backgroundColor: '#28a745',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              fontSize: '11px',
+              fontWeight: '500',
+              cursor: 'pointer',
+              whiteSpace: 'nowrap'
+            }}
+            title="Animate the assembly piece by piece"
+          >
+            ▶ Assemble
+          </button>
+        </div>
+      )}
+      
+      {/* Exploded View Slider */}
+      {hasSolution && totalPieces > 0 && (
+        <div style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px',
+          padding: '4px 0',
+          fontSize: '12px',
+          maxWidth: '380px'
+        }}>
+          <span style={{ 
+            fontSize: '12px', 
+            fontWeight: '600', 
+            color: '#495057',
+            minWidth: '80px'
+          }}>
+            💥 Explode: {Math.round(explodeFactor * 100)}%
+          </span>
+          <input
+            type="range"
+            min="0"
+            max={MAX_EXPLODE_FACTOR}
+            step="0.05"
+            value={explodeFactor}
+            onChange={(e) => onExplodeChange(parseFloat(e.target.value))}
+            style={{
+              width: '150px',
+              height: '4px',
+              background: '#e9ecef',
+              borderRadius: '2px',
+              outline: 'none',
+              cursor: 'pointer'
+            }}
+          />
         </div>
       )}
       
@@ -225,36 +417,23 @@ export default function SolutionToolbar({
             📂 Browse Local Files...
           </div>
           
-          {/* Available Solutions */}
-          <div style={{
-            padding: '4px 0'
-          }}>
-            <div style={{
-              padding: '4px 12px',
-              fontSize: '10px',
-              fontWeight: '600',
-              color: '#666',
-              textTransform: 'uppercase'
-            }}>
-              Available Solutions
-            </div>
-            {AVAILABLE_SOLUTIONS.map((filename) => (
-              <div
-                key={filename}
-                onClick={() => handleUrlSelect(filename)}
-                style={{
-                  padding: '6px 12px',
-                  cursor: 'pointer',
-                  fontSize: '11px',
-                  color: '#333',
-                  fontFamily: 'monospace'
-                }}
-                onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#f8f9fa'}
-                onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
-              >
-                {filename}
-              </div>
-            ))}
+          {/* Solution Library */}
+          <div
+            onClick={handleBrowseLibrary}
+            style={{
+              padding: '8px 12px',
+              cursor: 'pointer',
+              borderBottom: '1px solid #f8f9fa',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '6px',
+              fontSize: '12px',
+              color: '#007bff'
+            }}
+            onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#f8f9fa'}
+            onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+          >
+            📚 Browse Solution Library...
           </div>
           
           {/* Close Button */}
@@ -289,6 +468,13 @@ export default function SolutionToolbar({
         onChange={handleFileChange}
         style={{ display: 'none' }}
       />
+      <input
+        ref={replayInputRef}
+        type="file"
+        accept=".jsonl,.json,.txt"
+        onChange={handleReplayChange}
+        style={{ display: 'none' }}
+      />
     </div>
   );
 }
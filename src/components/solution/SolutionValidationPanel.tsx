@@ -0,0 +1,131 @@
+// Solution Validation Panel
+// Structured report of solution checks; offending pieces are highlighted in the 3D view
+
+import React, { useState } from 'react';
+import { SolutionValidationReport } from '../../lib/guards/solutionV1';
+
+interface SolutionValidationPanelProps {
+  report: SolutionValidationReport;
+  onClose: () => void;
+}
+
+export default function SolutionValidationPanel({ report, onClose }: SolutionValidationPanelProps) {
+  const [expanded, setExpanded] = useState(!report.valid);
+
+  const errorCount = report.issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = report.issues.length - errorCount;
+
+  const statusColor = errorCount > 0 ? '#dc3545' : warningCount > 0 ? '#ffc107' : '#28a745';
+  const statusText = errorCount > 0
+    ? `❌ ${errorCount} error${errorCount !== 1 ? 's' : ''}`
+    : warningCount > 0
+      ? `⚠️ Valid with ${warningCount} warning${warningCount !== 1 ? 's' : ''}`
+      : '✅ Solution valid';
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '12px',
+      right: '12px',
+      width: '300px',
+      maxWidth: 'calc(100% - 24px)',
+      maxHeight: '50%',
+      display: 'flex',
+      flexDirection: 'column',
+      backgroundColor: 'rgba(255, 255, 255, 0.95)',
+      borderRadius: '8px',
+      borderLeft: `4px solid ${statusColor}`,
+      boxShadow: '0 4px 12px rgba(0,0,0,0.2)',
+      fontSize: '12px',
+      zIndex: 10
+    }}>
+      {/* Header */}
+      <div style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        padding: '8px 10px',
+        cursor: 'pointer'
+      }}
+        onClick={() => setExpanded(!expanded)}
+      >
+        <span style={{ fontWeight: '600', color: '#333' }}>
+          {statusText}
+        </span>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <span style={{ color: '#6c757d', fontSize: '10px' }}>
+            {expanded ? '▲' : '▼'}
+          </span>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onClose();
+            }}
+            style={{
+              background: 'none',
+              border: 'none',
+              color: '#6c757d',
+              fontSize: '16px',
+              cursor: 'pointer',
+              padding: '0 4px'
+            }}
+          >
+            ×
+          </button>
+        </div>
+      </div>
+
+      {expanded && (
+        <div style={{
+          borderTop: '1px solid #e9ecef',
+          padding: '8px 10px',
+          overflowY: 'auto'
+        }}>
+          {/* Summary */}
+          <div style={{ color: '#495057', marginBottom: '6px' }}>
+            {report.placementCount} placements · {report.cellCount} cells covered
+            {report.containerCellCount !== null && ` · container ${report.containerCellCount} cells`}
+          </div>
+
+          {report.issues.length === 0 ? (
+            <div style={{ color: '#28a745' }}>
+              All pieces have 4 distinct cells, no overlaps, and the container is covered exactly.
+            </div>
+          ) : (
+            report.issues.map((issue, index) => (
+              <div
+                key={`${issue.code}_${index}`}
+                style={{
+                  padding: '6px 8px',
+                  margin: '4px 0',
+                  borderRadius: '4px',
+                  backgroundColor: issue.severity === 'error' ? '#f8d7da' : '#fff3cd',
+                  color: issue.severity === 'error' ? '#721c24' : '#856404'
+                }}
+              >
+                <div style={{ fontWeight: '500' }}>{issue.message}</div>
+                {issue.cells && issue.cells.length > 0 && (
+                  <div style={{
+                    fontFamily: 'monospace',
+                    fontSize: '10px',
+                    marginTop: '2px',
+                    wordBreak: 'break-all'
+                  }}>
+                    {issue.cells.slice(0, 8).map(cell => `(${cell.join(',')})`).join(' ')}
+                    {issue.cells.length > 8 && ` … +${issue.cells.length - 8}`}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+
+          {errorCount > 0 && (
+            <div style={{ color: '#6c757d', fontSize: '10px', marginTop: '6px' }}>
+              Offending pieces are highlighted in red.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+// Workspace List
+// The user's own saves from IndexedDB with thumbnails: save the current item, open, rename and delete
+
+import React, { useState, useEffect } from 'react';
+import {
+  WorkspaceItem,
+  WorkspaceItemType,
+  listWorkspaceItems,
+  renameWorkspaceItem,
+  deleteWorkspaceItem
+} from '../../services/workspace';
+
+interface WorkspaceListProps {
+  types: WorkspaceItemType[];
+  onOpen: (item: WorkspaceItem) => void;
+  saveType?: WorkspaceItemType;            // Type the current item would be saved as
+  defaultName?: string;
+  onSave?: (name: string) => Promise<void>; // Omitted when there is nothing to save
+}
+
+export default function WorkspaceList({ types, onOpen, saveType, defaultName = '', onSave }: WorkspaceListProps) {
+  const [items, setItems] = useState<WorkspaceItem[]>([]);
+  const [listLoading, setListLoading] = useState(true);
+  const [saveName, setSaveName] = useState(defaultName);
+  const [saving, setSaving] = useState(false);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+  const [error, setError] = useState<string>('');
+
+  const reload = async () => {
+    try {
+      setItems(await listWorkspaceItems(types));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setListLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, []);
+
+  const trimmedName = saveName.trim();
+  const replaces = items.some(item => item.type === saveType && item.name === trimmedName);
+
+  const handleSave = async () => {
+    if (!onSave || !trimmedName) return;
+    setSaving(true);
+    setError('');
+    try {
+      await onSave(trimmedName);
+      await reload();
+    } catch (err) {
+      setError(`Save failed: ${(err as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRename = async () => {
+    if (!renaming) return;
+    const name = renaming.name.trim();
+    if (!name) return;
+    setError('');
+    try {
+      await renameWorkspaceItem(renaming.id, name);
+      setRenaming(null);
+      await reload();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setError('');
+    try {
+      await deleteWorkspaceItem(id);
+      setConfirmDelete(null);
+      await reload();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const formatSize = (item: WorkspaceItem): string =>
+    item.type === 'container'
+      ? `${item.size} cells`
+      : `${item.size} piece${item.size !== 1 ? 's' : ''}${item.type === 'partial' ? ' · partial' : ''}`;
+
+  const smallButton = (color: string): React.CSSProperties => ({
+    fontSize: '11px',
+    color,
+    fontWeight: '500',
+    padding: '4px 8px',
+    backgroundColor: '#f8f9fa',
+    borderRadius: '4px',
+    border: `1px solid ${color}`,
+    cursor: 'pointer'
+  });
+
+  return (
+    <div style={{ flex: 1, overflowY: 'auto', padding: '12px' }}>
+      {/* Save the current shape or solution */}
+      {onSave && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', marginBottom: '12px' }}>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <input
+              type="text"
+              placeholder="Name"
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              style={{
+                flex: 1,
+                padding: '8px 12px',
+                border: '1px solid #ced4da',
+                borderRadius: '6px',
+                fontSize: '14px'
+              }}
+            />
+            <button
+              onClick={handleSave}
+              disabled={saving || !trimmedName}
+              style={{
+                padding: '8px 16px',
+                backgroundColor: '#28a745',
+                color: 'white',
+                border: 'none',
+                borderRadius: '6px',
+                fontSize: '14px',
+                fontWeight: '500',
+                cursor: (saving || !trimmedName) ? 'not-allowed' : 'pointer',
+                opacity: (saving || !trimmedName) ? 0.6 : 1,
+                whiteSpace: 'nowrap'
+              }}
+            >
+              {saving ? 'Saving...' : replaces ? '💾 Replace' : '💾 Save current'}
+            </button>
+          </div>
+          {replaces && (
+            <div style={{ fontSize: '11px', color: '#856404' }}>
+              Replaces the saved {saveType} with this name.
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div style={{
+          padding: '8px 10px',
+          marginBottom: '8px',
+          backgroundColor: '#f8d7da',
+          color: '#721c24',
+          borderRadius: '6px',
+          fontSize: '12px'
+        }}>
+          {error}
+        </div>
+      )}
+
+      {listLoading ? (
+        <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '120px', color: '#6c757d' }}>
+          Loading workspace...
+        </div>
+      ) : items.length === 0 ? (
+        <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '120px', color: '#6c757d', textAlign: 'center' }}>
+          Nothing saved yet. Saves stay on this device.
+        </div>
+      ) : (
+        items.map(item => (
+          <div
+            key={item.id}
+            onClick={() => !renaming && !confirmDelete && onOpen(item)}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '10px',
+              padding: '8px',
+              margin: '4px 0',
+              border: '1px solid #e9ecef',
+              borderRadius: '6px',
+              cursor: 'pointer'
+            }}
+          >
+            {item.thumbnail ? (
+              <img src={item.thumbnail} alt="" style={{ width: '64px', height: '48px', objectFit: 'cover', borderRadius: '4px', flexShrink: 0 }} />
+            ) : (
+              <div style={{ width: '64px', height: '48px', borderRadius: '4px', backgroundColor: '#e9ecef', flexShrink: 0 }} />
+            )}
+
+            <div style={{ flex: 1, minWidth: 0 }}>
+              {renaming?.id === item.id ? (
+                <input
+                  type="text"
+                  autoFocus
+                  value={renaming.name}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={(e) => setRenaming({ id: item.id, name: e.target.value })}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleRename();
+                    if (e.key === 'Escape') setRenaming(null);
+                  }}
+                  style={{ width: '100%', padding: '4px 8px', border: '1px solid #ced4da', borderRadius: '4px', fontSize: '14px', boxSizing: 'border-box' }}
+                />
+              ) : (
+                <div style={{ fontSize: '14px', fontWeight: '500', wordBreak: 'break-word' }}>
+                  {item.name}
+                </div>
+              )}
+              <div style={{ fontSize: '11px', color: '#6c757d' }}>
+                {formatSize(item)}{item.cid ? ` · CID ${item.cid.substring(7, 15)}` : ''}
+              </div>
+              <div style={{ fontSize: '11px', color: '#6c757d' }}>
+                Saved {new Date(item.updated).toLocaleString()}
+              </div>
+            </div>
+
+            <div style={{ display: 'flex', gap: '4px', flexShrink: 0 }} onClick={(e) => e.stopPropagation()}>
+              {renaming?.id === item.id ? (
+                <>
+                  <button onClick={handleRename} style={smallButton('#28a745')}>OK</button>
+                  <button onClick={() => setRenaming(null)} style={smallButton('#6c757d')}>Cancel</button>
+                </>
+              ) : confirmDelete === item.id ? (
+                <>
+                  <button onClick={() => handleDelete(item.id)} style={smallButton('#dc3545')}>Delete</button>
+                  <button onClick={() => setConfirmDelete(null)} style={smallButton('#6c757d')}>Keep</button>
+                </>
+              ) : (
+                <>
+                  <button onClick={() => setRenaming({ id: item.id, name: item.name })} style={smallButton('#007bff')} title="Rename">✏️</button>
+                  <button onClick={() => setConfirmDelete(item.id)} style={smallButton('#dc3545')} title="Delete">🗑️</button>
+                </>
+              )}
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
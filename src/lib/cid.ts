@@ -1,48 +1,8 @@
 // UI-only port; engines remain upstream.
-// CID computation using v1 canonicalization (24 FCC rotations + SHA-256)
+// CID computation using v1 canonicalization (24 FCC lattice rotations + SHA-256)
 
 import { FCCCoord } from './coords/fcc';
-
-// 24 proper rotations for FCC lattice (from upstream symmetry_fcc.py)
-const FCC_ROTATIONS = [
-  // Identity and rotations around main axes
-  [[1, 0, 0], [0, 1, 0], [0, 0, 1]],
-  [[0, 0, 1], [1, 0, 0], [0, 1, 0]],
-  [[0, 1, 0], [0, 0, 1], [1, 0, 0]],
-  [[-1, 0, 0], [0, -1, 0], [0, 0, 1]],
-  [[0, 0, -1], [-1, 0, 0], [0, 1, 0]],
-  [[0, -1, 0], [0, 0, -1], [1, 0, 0]],
-  [[1, 0, 0], [0, -1, 0], [0, 0, -1]],
-  [[0, 0, 1], [-1, 0, 0], [0, -1, 0]],
-  [[0, 1, 0], [0, 0, -1], [-1, 0, 0]],
-  [[-1, 0, 0], [0, 1, 0], [0, 0, -1]],
-  [[0, 0, -1], [1, 0, 0], [0, -1, 0]],
-  [[0, -1, 0], [0, 0, 1], [-1, 0, 0]],
-  // Additional rotations for complete FCC symmetry
-  [[0, 1, 0], [1, 0, 0], [0, 0, -1]],
-  [[0, 0, 1], [0, 1, 0], [-1, 0, 0]],
-  [[-1, 0, 0], [0, 0, 1], [0, 1, 0]],
-  [[0, -1, 0], [1, 0, 0], [0, 0, 1]],
-  [[0, 0, -1], [0, -1, 0], [1, 0, 0]],
-  [[1, 0, 0], [0, 0, -1], [0, 1, 0]],
-  [[0, 1, 0], [-1, 0, 0], [0, 0, 1]],
-  [[0, 0, 1], [0, -1, 0], [-1, 0, 0]],
-  [[-1, 0, 0], [0, 0, -1], [0, -1, 0]],
-  [[0, -1, 0], [-1, 0, 0], [0, 0, -1]],
-  [[0, 0, -1], [0, 1, 0], [1, 0, 0]],
-  [[1, 0, 0], [0, 0, 1], [0, -1, 0]]
-];
-
-/**
- * Apply rotation matrix to FCC coordinate
- */
-function applyRotation(coord: FCCCoord, rotation: number[][]): FCCCoord {
-  return {
-    x: rotation[0][0] * coord.x + rotation[0][1] * coord.y + rotation[0][2] * coord.z,
-    y: rotation[1][0] * coord.x + rotation[1][1] * coord.y + rotation[1][2] * coord.z,
-    z: rotation[2][0] * coord.x + rotation[2][1] * coord.y + rotation[2][2] * coord.z
-  };
-}
+import { FCC_LATTICE_ROTATIONS, applyLatticeMatrix } from './coords/lattice';
 
 /**
  * Translate coordinates to have minimum at origin
@@ -72,13 +32,13 @@ function coordsToString(coords: FCCCoord[]): string {
 }
 
 /**
- * Generate all 24 rotations of the coordinate set
+ * Generate all 24 lattice rotations of the coordinate set
  */
 function generateRotations(coords: FCCCoord[]): string[] {
   const rotations: string[] = [];
   
-  for (const rotation of FCC_ROTATIONS) {
-    const rotated = coords.map(coord => applyRotation(coord, rotation));
+  for (const rotation of FCC_LATTICE_ROTATIONS) {
+    const rotated = coords.map(coord => applyLatticeMatrix(rotation, coord));
     const translated = translateToOrigin(rotated);
     const canonical = coordsToString(translated);
     rotations.push(canonical);
@@ -89,7 +49,7 @@ function generateRotations(coords: FCCCoord[]): string[] {
 
 /**
  * Compute CID using v1 canonicalization algorithm
- * 1. Generate all 24 FCC rotations
+ * 1. Generate all 24 FCC lattice rotations (so any rotated or shifted copy of a shape gets the same CID)
  * 2. Translate each to origin
  * 3. Pick lexicographically smallest
  * 4. SHA-256 hash
@@ -125,3 +85,40 @@ export async function computeShortCID(coords: FCCCoord[]): Promise<string> {
 export function isValidCID(cid: string): boolean {
   return /^sha256:[a-f0-9]{64}$/.test(cid);
 }
+
+/**
+ * Detect the placeholder CIDs written by old saves: an 8-character prefix padded with zeros
+ */
+export function isPaddedCID(cid: string): boolean {
+  return /^sha256:[a-f0-9]{8}0{56}$/.test(cid);
+}
+
+export type CIDCheckStatus = 'match' | 'mismatch' | 'missing' | 'padded' | 'invalid';
+
+export interface CIDCheck {
+  status: CIDCheckStatus;
+  stored: string;
+  computed: string;
+}
+
+/**
+ * Verify a stored CID against the one recomputed from the cells
+ * (mismatch means the cells were edited after the CID was written, or were hashed differently)
+ */
+export async function verifyCID(coords: FCCCoord[], storedCid: string | undefined): Promise<CIDCheck> {
+  const stored = (storedCid || '').trim().toLowerCase();
+  const computed = await computeCID(coords);
+
+  let status: CIDCheckStatus;
+  if (!stored) {
+    status = 'missing';
+  } else if (isPaddedCID(stored)) {
+    status = 'padded';
+  } else if (!isValidCID(stored)) {
+    status = 'invalid';
+  } else {
+    status = stored === computed ? 'match' : 'mismatch';
+  }
+
+  return { status, stored, computed };
+}
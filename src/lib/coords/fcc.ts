@@ -61,40 +61,6 @@ export function snapToFCCLattice(world: WorldCoord): FCCCoord {
   return worldToFCC(world);
 }
 
-/**
- * Check if FCC coordinate is valid (sum must be even for FCC lattice)
- */
-export function isValidFCCCoord(fcc: FCCCoord): boolean {
-  return (fcc.x + fcc.y + fcc.z) % 2 === 0;
-}
-
-/**
- * Get rhombohedral lattice neighbors for connectivity checking
- */
-export function getFCCNeighbors(fcc: FCCCoord): FCCCoord[] {
-  const neighbors: FCCCoord[] = [];
-  
-  // 6 nearest neighbors in rhombohedral lattice
-  const offsets = [
-    [1, 0, 0], [-1, 0, 0],  // ±x direction
-    [0, 1, 0], [0, -1, 0],  // ±y direction  
-    [0, 0, 1], [0, 0, -1]   // ±z direction
-  ];
-  
-  for (const [dx, dy, dz] of offsets) {
-    const neighbor = {
-      x: fcc.x + dx,
-      y: fcc.y + dy,
-      z: fcc.z + dz
-    };
-    neighbors.push(neighbor);
-    console.log(`  Rhombohedral offset [${dx},${dy},${dz}] -> Engine(${neighbor.x},${neighbor.y},${neighbor.z})`);
-  }
-  
-  console.log(`Generated ${neighbors.length} rhombohedral neighbors for (${fcc.x}, ${fcc.y}, ${fcc.z})`);
-  return neighbors; // Always return all 6
-}
-
 /**
  * Center and normalize FCC coordinates for display
  */
@@ -0,0 +1,176 @@
+// UI-only port; engines remain upstream.
+// Parametric container generators: pure functions from parameters to engine i,j,k cells
+
+import { FCCCoord } from './fcc';
+import { FCC_NEIGHBOR_OFFSETS } from './lattice';
+
+export type GeneratorKind = 'pyramid' | 'tetrahedron' | 'octahedron' | 'rhombicPrism' | 'slab' | 'sphere';
+
+export interface GeneratorParams {
+  size: number;     // Edge length in balls (pyramid, tetrahedron, octahedron), slab/prism length, sphere radius
+  width?: number;   // Slab and prism second edge (defaults to size)
+  height?: number;  // Slab and prism layer count (defaults to size)
+  hollow?: boolean; // Keep only the outer shell
+}
+
+/**
+ * Engine i,j,k cell of a Cartesian lattice point (x + y + z even), inverse of fccToWorld without its scale
+ */
+export function fromCartesian(x: number, y: number, z: number): FCCCoord {
+  return { x: (x + y - z) / 2, y: (x - y + z) / 2, z: (-x + y + z) / 2 };
+}
+
+/**
+ * Translate cells so the minimum i, j and k are 0, sorted for stable output
+ */
+export function toOrigin(cells: FCCCoord[]): FCCCoord[] {
+  if (cells.length === 0) return [];
+  const min = {
+    x: Math.min(...cells.map(c => c.x)),
+    y: Math.min(...cells.map(c => c.y)),
+    z: Math.min(...cells.map(c => c.z))
+  };
+  return cells
+    .map(c => ({ x: c.x - min.x, y: c.y - min.y, z: c.z - min.z }))
+    .sort((a, b) => a.x - b.x || a.y - b.y || a.z - b.z);
+}
+
+/**
+ * Remove every cell whose 12 neighbours are all in the shape, leaving a one-ball shell
+ */
+export function hollowShell(cells: FCCCoord[]): FCCCoord[] {
+  const keys = new Set(cells.map(c => `${c.x},${c.y},${c.z}`));
+  return cells.filter(c => !FCC_NEIGHBOR_OFFSETS.every(([di, dj, dk]) => keys.has(`${c.x + di},${c.y + dj},${c.z + dk}`)));
+}
+
+/**
+ * Square pyramid: square layers of n², (n-1)², ... 1 balls, each resting in the hollows of the one below
+ */
+export function squarePyramid(n: number): FCCCoord[] {
+  const cells: FCCCoord[] = [];
+  for (let layer = 0; layer < n; layer++) {
+    const m = n - layer;
+    for (let a = 0; a < m; a++) {
+      for (let b = 0; b < m; b++) {
+        // a·(1,1,0) + b·(1,-1,0) + layer·(1,0,1) in Cartesian
+        cells.push({ x: a, y: b + layer, z: -b });
+      }
+    }
+  }
+  return toOrigin(cells);
+}
+
+/**
+ * Regular tetrahedron with n balls per edge (n(n+1)(n+2)/6 balls)
+ */
+export function tetrahedron(n: number): FCCCoord[] {
+  const cells: FCCCoord[] = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; i + j < n; j++) {
+      for (let k = 0; i + j + k < n; k++) {
+        cells.push({ x: i, y: j, z: k });
+      }
+    }
+  }
+  return toOrigin(cells);
+}
+
+/**
+ * Regular octahedron with n balls per edge (n(2n²+1)/3 balls); centred on a ball for odd n
+ * and on an octahedral hole for even n
+ */
+export function octahedron(n: number): FCCCoord[] {
+  const m = n - 1;
+  const cx = m % 2;
+  const cells: FCCCoord[] = [];
+  for (let x = cx - m; x <= cx + m; x++) {
+    for (let y = -m; y <= m; y++) {
+      for (let z = -m; z <= m; z++) {
+        if ((x + y + z) % 2 !== 0) continue;
+        if (Math.abs(x - cx) + Math.abs(y) + Math.abs(z) <= m) cells.push(fromCartesian(x, y, z));
+      }
+    }
+  }
+  return toOrigin(cells);
+}
+
+/**
+ * Rhombic prism: a rhombus of length × width balls in a close-packed layer, stacked height layers
+ * along the third lattice direction (all faces are 60° rhombi)
+ */
+export function rhombicPrism(length: number, width: number, height: number): FCCCoord[] {
+  const cells: FCCCoord[] = [];
+  for (let i = 0; i < length; i++) {
+    for (let j = 0; j < width; j++) {
+      for (let k = 0; k < height; k++) {
+        cells.push({ x: i, y: j, z: k });
+      }
+    }
+  }
+  return toOrigin(cells);
+}
+
+/**
+ * Rectangular slab: height square layers of length × width balls stacked straight up
+ */
+export function slab(length: number, width: number, height: number): FCCCoord[] {
+  const cells: FCCCoord[] = [];
+  for (let layer = 0; layer < height; layer++) {
+    for (let a = 0; a < length; a++) {
+      for (let b = 0; b < width; b++) {
+        // a·(1,1,0) + b·(1,-1,0) in the layer; odd layers shift by (1,0,0) into the hollows
+        const shift = layer % 2;
+        cells.push(fromCartesian(a + b + shift, a - b, layer));
+      }
+    }
+  }
+  return toOrigin(cells);
+}
+
+/**
+ * Every ball whose centre lies within radius (in ball diameters) of a central ball
+ */
+export function sphere(radius: number): FCCCoord[] {
+  const limit = Math.ceil(radius * Math.SQRT2) + 1;
+  const cells: FCCCoord[] = [];
+  for (let x = -limit; x <= limit; x++) {
+    for (let y = -limit; y <= limit; y++) {
+      for (let z = -limit; z <= limit; z++) {
+        if ((x + y + z) % 2 !== 0) continue;
+        // Neighbouring balls are sqrt(2) apart in these coordinates
+        if ((x * x + y * y + z * z) / 2 <= radius * radius + 1e-9) cells.push(fromCartesian(x, y, z));
+      }
+    }
+  }
+  return toOrigin(cells);
+}
+
+/**
+ * Run a generator by kind; hollow applies to any shape
+ */
+export function generateShape(kind: GeneratorKind, params: GeneratorParams): FCCCoord[] {
+  const size = Math.max(1, Math.floor(params.size));
+  const width = Math.max(1, Math.floor(params.width ?? size));
+  const height = Math.max(1, Math.floor(params.height ?? size));
+
+  const solid = {
+    pyramid: () => squarePyramid(size),
+    tetrahedron: () => tetrahedron(size),
+    octahedron: () => octahedron(size),
+    rhombicPrism: () => rhombicPrism(size, width, height),
+    slab: () => slab(size, width, height),
+    sphere: () => sphere(params.size)
+  }[kind]();
+
+  return params.hollow ? hollowShell(solid) : solid;
+}
+
+/**
+ * Default container name for generated shapes, e.g. "tetrahedron_8_hollow"
+ */
+export function generatedShapeName(kind: GeneratorKind, params: GeneratorParams): string {
+  const dims = kind === 'rhombicPrism' || kind === 'slab'
+    ? [params.size, params.width ?? params.size, params.height ?? params.size].join('x')
+    : String(params.size);
+  return `${kind}_${dims}${params.hollow ? '_hollow' : ''}`;
+}
@@ -0,0 +1,135 @@
+// UI-only port; engines remain upstream.
+// FCC lattice symmetry expressed in engine i,j,k coordinates
+
+import { FCCCoord } from './fcc';
+
+export type LatticeMatrix = number[][];
+
+// Cartesian directions of the i, j, k basis vectors (columns), matching fccToWorld without its scale:
+// i -> (1,1,0), j -> (1,0,1), k -> (0,1,1)
+const BASIS: LatticeMatrix = [
+  [1, 1, 0],
+  [1, 0, 1],
+  [0, 1, 1]
+];
+
+// Inverse of BASIS, multiplied by 2 to stay integer
+const BASIS_INVERSE_X2: LatticeMatrix = [
+  [1, 1, -1],
+  [1, -1, 1],
+  [-1, 1, 1]
+];
+
+function multiply(a: LatticeMatrix, b: LatticeMatrix): LatticeMatrix {
+  return a.map((row, i) => b[0].map((_, j) => row.reduce((sum, value, k) => sum + value * b[k][j], 0)));
+}
+
+function determinant(m: LatticeMatrix): number {
+  return m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1])
+    - m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0])
+    + m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0]);
+}
+
+/**
+ * Build the 48 cube symmetries (signed permutation matrices) in a fixed order, identity first
+ */
+function cubeSymmetries(): LatticeMatrix[] {
+  const permutations = [[0, 1, 2], [0, 2, 1], [1, 0, 2], [1, 2, 0], [2, 0, 1], [2, 1, 0]];
+  const signs = [[1, 1, 1], [1, 1, -1], [1, -1, 1], [1, -1, -1], [-1, 1, 1], [-1, 1, -1], [-1, -1, 1], [-1, -1, -1]];
+  const matrices: LatticeMatrix[] = [];
+
+  for (const permutation of permutations) {
+    for (const sign of signs) {
+      const m = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+      permutation.forEach((column, row) => {
+        m[row][column] = sign[row];
+      });
+      matrices.push(m);
+    }
+  }
+
+  return matrices;
+}
+
+/**
+ * Express a Cartesian cube symmetry in the i,j,k basis (always an integer matrix)
+ */
+export function toLatticeBasis(cartesian: LatticeMatrix): LatticeMatrix {
+  return multiply(multiply(BASIS_INVERSE_X2, cartesian), BASIS).map(row => row.map(value => value / 2));
+}
+
+/**
+ * The 24 proper rotations of the FCC lattice in i,j,k coordinates.
+ * Order is fixed (identity first) so indices are stable across sessions.
+ */
+export const FCC_LATTICE_ROTATIONS: LatticeMatrix[] = cubeSymmetries()
+  .filter(m => determinant(m) === 1)
+  .map(toLatticeBasis);
+
+/**
+ * The 24 improper symmetries (rotation combined with a mirror), same ordering rules.
+ * A shape is chiral when none of these maps it onto itself.
+ */
+export const FCC_LATTICE_REFLECTIONS: LatticeMatrix[] = cubeSymmetries()
+  .filter(m => determinant(m) === -1)
+  .map(toLatticeBasis);
+
+/**
+ * Express a lattice matrix back in Cartesian axes (inverse of toLatticeBasis)
+ */
+export function toCartesianBasis(m: LatticeMatrix): LatticeMatrix {
+  return multiply(multiply(BASIS, m), BASIS_INVERSE_X2).map(row => row.map(value => value / 2));
+}
+
+/**
+ * Apply a lattice matrix to an i,j,k coordinate
+ */
+export function applyLatticeMatrix(m: LatticeMatrix, coord: FCCCoord): FCCCoord {
+  return {
+    x: m[0][0] * coord.x + m[0][1] * coord.y + m[0][2] * coord.z,
+    y: m[1][0] * coord.x + m[1][1] * coord.y + m[1][2] * coord.z,
+    z: m[2][0] * coord.x + m[2][1] * coord.y + m[2][2] * coord.z
+  };
+}
+
+/**
+ * The 12 nearest neighbours of an engine i,j,k cell: ±i, ±j, ±k and ±(i−j), ±(i−k), ±(j−k).
+ * All 12 are one ball diameter away in world space; no other lattice points are.
+ */
+export const FCC_NEIGHBOR_OFFSETS: ReadonlyArray<readonly [number, number, number]> = [
+  [1, 0, 0], [-1, 0, 0],
+  [0, 1, 0], [0, -1, 0],
+  [0, 0, 1], [0, 0, -1],
+  [1, -1, 0], [-1, 1, 0],
+  [1, 0, -1], [-1, 0, 1],
+  [0, 1, -1], [0, -1, 1]
+];
+
+const OFFSET_KEYS = new Set(FCC_NEIGHBOR_OFFSETS.map(offset => offset.join(',')));
+
+/**
+ * The 12 lattice cells touching an engine i,j,k cell
+ */
+export function getFCCNeighbors(fcc: FCCCoord): FCCCoord[] {
+  return FCC_NEIGHBOR_OFFSETS.map(([di, dj, dk]) => ({ x: fcc.x + di, y: fcc.y + dj, z: fcc.z + dk }));
+}
+
+/**
+ * Do two engine i,j,k cells touch?
+ */
+export function areFCCNeighbors(a: FCCCoord, b: FCCCoord): boolean {
+  return OFFSET_KEYS.has(`${b.x - a.x},${b.y - a.y},${b.z - a.z}`);
+}
+
+/**
+ * Index pairs of touching cells in a list (bonds within a piece, edges of a shape)
+ */
+export function findAdjacentPairs(cells: FCCCoord[]): Array<[number, number]> {
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0; i < cells.length; i++) {
+    for (let j = i + 1; j < cells.length; j++) {
+      if (areFCCNeighbors(cells[i], cells[j])) pairs.push([i, j]);
+    }
+  }
+  return pairs;
+}
@@ -0,0 +1,94 @@
+// UI-only port; engines remain upstream.
+// Cell selection and bulk edits (delete, duplicate, move) in engine i,j,k coordinates
+
+import { FCCCoord } from './fcc';
+import { FCC_NEIGHBOR_OFFSETS } from './lattice';
+
+export type CellOffset = [number, number, number];
+
+export const cellKey = (c: FCCCoord): string => `${c.x},${c.y},${c.z}`;
+
+const shift = (c: FCCCoord, [di, dj, dk]: CellOffset): FCCCoord => ({ x: c.x + di, y: c.y + dj, z: c.z + dk });
+
+/**
+ * Add the cell to the selection, or remove it when it is already selected
+ */
+export function toggleCell(selection: FCCCoord[], cell: FCCCoord): FCCCoord[] {
+  const key = cellKey(cell);
+  return selection.some(c => cellKey(c) === key)
+    ? selection.filter(c => cellKey(c) !== key)
+    : [...selection, cell];
+}
+
+/**
+ * Union of two selections without duplicates
+ */
+export function mergeSelection(selection: FCCCoord[], cells: FCCCoord[]): FCCCoord[] {
+  const keys = new Set(selection.map(cellKey));
+  return [...selection, ...cells.filter(c => !keys.has(cellKey(c)))];
+}
+
+/**
+ * Every cell connected to a seed through neighbours at the same height (one horizontal layer
+ * as displayed); height is the on-screen up coordinate of a cell
+ */
+export function selectConnectedLayer(cells: FCCCoord[], seeds: FCCCoord[], height: (cell: FCCCoord) => number): FCCCoord[] {
+  const byKey = new Map(cells.map(c => [cellKey(c), c]));
+  const selected = new Map<string, FCCCoord>();
+  const queue = seeds.filter(seed => byKey.has(cellKey(seed)));
+  queue.forEach(seed => selected.set(cellKey(seed), seed));
+
+  while (queue.length > 0) {
+    const cell = queue.shift()!;
+    const level = height(cell);
+    FCC_NEIGHBOR_OFFSETS.forEach(offset => {
+      const neighbor = byKey.get(cellKey(shift(cell, offset as CellOffset)));
+      if (!neighbor || selected.has(cellKey(neighbor))) return;
+      if (Math.abs(height(neighbor) - level) > 1e-6) return;
+      selected.set(cellKey(neighbor), neighbor);
+      queue.push(neighbor);
+    });
+  }
+
+  return Array.from(selected.values());
+}
+
+/**
+ * Remove the selected cells from the shape
+ */
+export function deleteCells(cells: FCCCoord[], selection: FCCCoord[]): FCCCoord[] {
+  const keys = new Set(selection.map(cellKey));
+  return cells.filter(c => !keys.has(cellKey(c)));
+}
+
+/**
+ * Copies of the selected cells shifted by offset (cells that are already filled are skipped)
+ */
+export function duplicateCells(cells: FCCCoord[], selection: FCCCoord[], offset: CellOffset): FCCCoord[] {
+  return mergeSelection(cells, selection.map(c => shift(c, offset)));
+}
+
+/**
+ * Filled cells outside the selection that a move by offset would land on
+ */
+export function findMoveCollisions(cells: FCCCoord[], selection: FCCCoord[], offset: CellOffset): FCCCoord[] {
+  const moving = new Set(selection.map(cellKey));
+  const others = new Set(cells.map(cellKey).filter(key => !moving.has(key)));
+  return selection.map(c => shift(c, offset)).filter(c => others.has(cellKey(c)));
+}
+
+/**
+ * Move the selected cells by offset; returns null (nothing moved) when a moved cell would land
+ * on a filled cell outside the selection (see findMoveCollisions)
+ */
+export function moveCells(cells: FCCCoord[], selection: FCCCoord[], offset: CellOffset): FCCCoord[] | null {
+  if (findMoveCollisions(cells, selection, offset).length > 0) return null;
+  return [...deleteCells(cells, selection), ...selection.map(c => shift(c, offset))];
+}
+
+/**
+ * The selected cells shifted by offset (the cells a duplicate or move would fill)
+ */
+export function offsetCells(selection: FCCCoord[], offset: CellOffset): FCCCoord[] {
+  return selection.map(c => shift(c, offset));
+}
@@ -0,0 +1,77 @@
+// UI-only port; engines remain upstream.
+// Whole-shape transforms in engine i,j,k coordinates: lattice rotations, mirrors and translations
+
+import { FCCCoord } from './fcc';
+import { FCC_LATTICE_ROTATIONS, LatticeMatrix, applyLatticeMatrix, toLatticeBasis } from './lattice';
+
+export interface MirrorPlane {
+  id: string;
+  label: string;          // Plane in world x, y, z
+  matrix: LatticeMatrix;  // i,j,k matrix of the reflection
+}
+
+// The 9 mirror planes of the cube: 3 coordinate planes and 6 diagonal planes
+export const MIRROR_PLANES: MirrorPlane[] = [
+  { id: 'x', label: 'x = 0', cartesian: [[-1, 0, 0], [0, 1, 0], [0, 0, 1]] },
+  { id: 'y', label: 'y = 0', cartesian: [[1, 0, 0], [0, -1, 0], [0, 0, 1]] },
+  { id: 'z', label: 'z = 0', cartesian: [[1, 0, 0], [0, 1, 0], [0, 0, -1]] },
+  { id: 'x=y', label: 'x = y', cartesian: [[0, 1, 0], [1, 0, 0], [0, 0, 1]] },
+  { id: 'x=-y', label: 'x = -y', cartesian: [[0, -1, 0], [-1, 0, 0], [0, 0, 1]] },
+  { id: 'x=z', label: 'x = z', cartesian: [[0, 0, 1], [0, 1, 0], [1, 0, 0]] },
+  { id: 'x=-z', label: 'x = -z', cartesian: [[0, 0, -1], [0, 1, 0], [-1, 0, 0]] },
+  { id: 'y=z', label: 'y = z', cartesian: [[1, 0, 0], [0, 0, 1], [0, 1, 0]] },
+  { id: 'y=-z', label: 'y = -z', cartesian: [[1, 0, 0], [0, 0, -1], [0, -1, 0]] }
+].map(({ id, label, cartesian }) => ({ id, label, matrix: toLatticeBasis(cartesian) }));
+
+export interface ShapeTransform {
+  rotation: number;                   // Index into FCC_LATTICE_ROTATIONS (0 = identity)
+  mirror: string | null;              // MirrorPlane id, applied before the rotation
+  offset: [number, number, number];   // Lattice steps in i, j, k, applied last
+}
+
+export const IDENTITY_TRANSFORM: ShapeTransform = { rotation: 0, mirror: null, offset: [0, 0, 0] };
+
+/**
+ * True when the transform leaves every cell where it is
+ */
+export function isIdentityTransform(transform: ShapeTransform): boolean {
+  return transform.rotation === 0 && !transform.mirror && transform.offset.every(step => step === 0);
+}
+
+const centroid = (coords: FCCCoord[]) => ({
+  x: coords.reduce((sum, c) => sum + c.x, 0) / coords.length,
+  y: coords.reduce((sum, c) => sum + c.y, 0) / coords.length,
+  z: coords.reduce((sum, c) => sum + c.z, 0) / coords.length
+});
+
+/**
+ * Apply a lattice matrix about the shape's centroid, rounded to the nearest lattice translation
+ * so the transformed shape stays where the original was
+ */
+export function transformAboutCenter(coords: FCCCoord[], m: LatticeMatrix): FCCCoord[] {
+  if (coords.length === 0) return [];
+  const before = centroid(coords);
+  const mapped = coords.map(c => applyLatticeMatrix(m, c));
+  const after = centroid(mapped);
+  const shift = {
+    x: Math.round(before.x - after.x),
+    y: Math.round(before.y - after.y),
+    z: Math.round(before.z - after.z)
+  };
+  return mapped.map(c => ({ x: c.x + shift.x, y: c.y + shift.y, z: c.z + shift.z }));
+}
+
+/**
+ * Apply a mirror, rotation and translation (in that order) to every cell
+ */
+export function applyShapeTransform(coords: FCCCoord[], transform: ShapeTransform): FCCCoord[] {
+  let result = coords;
+
+  const plane = MIRROR_PLANES.find(p => p.id === transform.mirror);
+  if (plane) result = transformAboutCenter(result, plane.matrix);
+
+  if (transform.rotation !== 0) result = transformAboutCenter(result, FCC_LATTICE_ROTATIONS[transform.rotation]);
+
+  const [di, dj, dk] = transform.offset;
+  return result.map(c => ({ x: c.x + di, y: c.y + dj, z: c.z + dk }));
+}
@@ -0,0 +1,149 @@
+// UI-only port; engines remain upstream.
+// Ball-and-bond models of containers and solutions for STL, OBJ and glTF export
+
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/addons/utils/BufferGeometryUtils.js';
+import { FCCCoord } from '../coords/fcc';
+import { findAdjacentPairs } from '../coords/lattice';
+import { ContainerV1 } from '../guards/containerV1';
+import { cellToIJK } from '../guards/solutionV1';
+import { SolutionFile, DEFAULT_PIECE_COLORS } from '../../types/solution';
+
+export interface ModelOptions {
+  spacing: number;    // Distance between touching ball centres in output units (mm when printing)
+  radius: number;     // Ball radius as a fraction of spacing / 2; 1 touches, above 1 fuses neighbours
+  segments: number;   // Sphere tessellation around the equator (half as many pole to pole)
+  bonds: boolean;     // Cylinders between touching balls of the same piece
+  bondRadius: number; // Bond radius as a fraction of the ball radius
+}
+
+export const DEFAULT_MODEL_OPTIONS: ModelOptions = {
+  spacing: 20,
+  radius: 1,
+  segments: 24,
+  bonds: false,
+  bondRadius: 0.3
+};
+
+/**
+ * Output position of an engine i,j,k cell: Cartesian (i+j, i+k, j+k) scaled so neighbours are spacing apart
+ */
+export function cellPosition(cell: FCCCoord, spacing: number): THREE.Vector3 {
+  return new THREE.Vector3(cell.x + cell.y, cell.x + cell.z, cell.y + cell.z).multiplyScalar(spacing / Math.SQRT2);
+}
+
+/**
+ * Engine cells of a solution placement, whichever cell format the file used
+ */
+export function placementCells(placement: { cells_ijk: unknown[] }): FCCCoord[] {
+  return placement.cells_ijk
+    .map(cellToIJK)
+    .filter((cell): cell is number[] => cell !== null)
+    .map(([x, y, z]) => ({ x, y, z }));
+}
+
+/**
+ * One merged mesh of balls (and bonds between touching balls) around the given centre
+ */
+export function buildBallMesh(name: string, cells: FCCCoord[], center: THREE.Vector3, material: THREE.Material, options: ModelOptions): THREE.Mesh {
+  const ballRadius = options.radius * options.spacing / 2;
+  const segments = Math.max(6, Math.round(options.segments));
+  const positions = cells.map(cell => cellPosition(cell, options.spacing).sub(center));
+
+  const parts: THREE.BufferGeometry[] = positions.map(position =>
+    new THREE.SphereGeometry(ballRadius, segments, Math.max(4, Math.round(segments / 2))).translate(position.x, position.y, position.z)
+  );
+
+  if (options.bonds) {
+    findAdjacentPairs(cells).forEach(([a, b]) => {
+      const from = positions[a];
+      const to = positions[b];
+      const bond = new THREE.CylinderGeometry(ballRadius * options.bondRadius, ballRadius * options.bondRadius, from.distanceTo(to), segments, 1);
+      // Cylinders run along +Y; turn onto the bond direction and move to its midpoint
+      const direction = to.clone().sub(from).normalize();
+      bond.applyQuaternion(new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 1, 0), direction));
+      const middle = from.clone().add(to).multiplyScalar(0.5);
+      parts.push(bond.translate(middle.x, middle.y, middle.z));
+    });
+  }
+
+  const geometry = mergeGeometries(parts) || new THREE.BufferGeometry();
+  parts.forEach(part => part.dispose());
+
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.name = name;
+  return mesh;
+}
+
+function centerOf(cells: FCCCoord[], spacing: number): THREE.Vector3 {
+  const sum = cells.reduce<THREE.Vector3>((total, cell) => total.add(cellPosition(cell, spacing)), new THREE.Vector3());
+  return sum.divideScalar(Math.max(1, cells.length));
+}
+
+/**
+ * A container as a single mesh centred on the origin
+ */
+export function buildContainerModel(container: ContainerV1, options: ModelOptions = DEFAULT_MODEL_OPTIONS, color = '#4a90e2'): THREE.Group {
+  const cells = (container.cells || container.coordinates || []).map(([x, y, z]) => ({ x, y, z }));
+  const group = new THREE.Group();
+  group.name = container.name || 'container';
+
+  const material = new THREE.MeshStandardMaterial({ color, roughness: 0.6, metalness: 0.05 });
+  material.name = 'container';
+  group.add(buildBallMesh('container', cells, centerOf(cells, options.spacing), material, options));
+  return group;
+}
+
+/**
+ * A solution with one named node and material per placed piece, centred on the origin
+ */
+export function buildSolutionModel(
+  solution: SolutionFile,
+  options: ModelOptions = DEFAULT_MODEL_OPTIONS,
+  pieceColors: Record<string, string> = DEFAULT_PIECE_COLORS,
+  name = 'solution'
+): THREE.Group {
+  const placements = solution.placements.map(placement => ({ piece: placement.piece, cells: placementCells(placement) }));
+  const center = centerOf(placements.flatMap(p => p.cells), options.spacing);
+  const group = new THREE.Group();
+  group.name = name;
+
+  const seen: Record<string, number> = {};
+  placements.forEach(({ piece, cells }) => {
+    // Repeated pieces get A, A_2, A_3 ... so every node name is unique
+    seen[piece] = (seen[piece] || 0) + 1;
+    const nodeName = seen[piece] > 1 ? `${piece}_${seen[piece]}` : piece;
+
+    const material = new THREE.MeshStandardMaterial({ color: pieceColors[piece] || '#888888', roughness: 0.6, metalness: 0.05 });
+    material.name = `piece_${piece}`;
+    group.add(buildBallMesh(nodeName, cells, center, material, options));
+  });
+
+  return group;
+}
+
+/**
+ * One piece on its own for printing: centred over the origin and resting on z = 0 (slicers are Z-up)
+ */
+export function buildPieceMesh(name: string, cells: FCCCoord[], options: ModelOptions = DEFAULT_MODEL_OPTIONS, color = '#888888'): THREE.Mesh {
+  const material = new THREE.MeshStandardMaterial({ color, roughness: 0.6, metalness: 0.05 });
+  material.name = `piece_${name}`;
+  const mesh = buildBallMesh(name, cells, centerOf(cells, options.spacing), material, options);
+
+  mesh.geometry.computeBoundingBox();
+  mesh.geometry.translate(0, 0, -mesh.geometry.boundingBox!.min.z);
+  mesh.geometry.computeBoundingBox();
+  return mesh;
+}
+
+/**
+ * Free geometries and materials of an exported model
+ */
+export function disposeModel(model: THREE.Object3D): void {
+  model.traverse(object => {
+    if (object instanceof THREE.Mesh) {
+      object.geometry.dispose();
+      (Array.isArray(object.material) ? object.material : [object.material]).forEach(material => material.dispose());
+    }
+  });
+}
@@ -0,0 +1,90 @@
+// UI-only port; engines remain upstream.
+// Light JSON guard for solver event logs (JSONL, see data/examples/events/)
+
+export type SolverEventType =
+  | 'solver_start'
+  | 'piece_placed'
+  | 'piece_removed'
+  | 'backtrack'
+  | 'solver_complete';
+
+export interface SolverEvent {
+  timestamp: string;
+  event_type: SolverEventType | string; // Unknown types are kept and ignored by the replay
+  piece_id?: string;
+  position?: number[];   // Anchor cell in engine i,j,k
+  rotation?: number;     // Engine rotation 0–23 (see getOriForEngineRotation in src/lib/pieces/library.ts)
+  cells?: number[][];    // Explicit cells, when the engine exports them
+  depth?: number;
+  reason?: string;
+  container_id?: string;
+  engine?: string;
+  solution_found?: boolean;
+  total_time_ms?: number;
+}
+
+const isCell = (value: any): boolean =>
+  Array.isArray(value) && value.length === 3 && value.every(n => Number.isInteger(n));
+
+/**
+ * Validate a single solver event with clear error messages
+ */
+export function validateSolverEvent(data: any): { valid: boolean; error?: string; event?: SolverEvent } {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { valid: false, error: 'Invalid JSON: not an object' };
+  }
+
+  if (typeof data.event_type !== 'string') {
+    return { valid: false, error: 'Missing "event_type" field' };
+  }
+
+  if (typeof data.timestamp !== 'string') {
+    return { valid: false, error: 'Missing "timestamp" field' };
+  }
+
+  if (data.event_type === 'piece_placed' || data.event_type === 'piece_removed') {
+    if (typeof data.piece_id !== 'string') {
+      return { valid: false, error: `${data.event_type} is missing "piece_id"` };
+    }
+    if (data.position !== undefined && !isCell(data.position)) {
+      return { valid: false, error: `Invalid "position": expected [i, j, k] integers` };
+    }
+    if (data.cells !== undefined && (!Array.isArray(data.cells) || !data.cells.every(isCell))) {
+      return { valid: false, error: `Invalid "cells": expected an array of [i, j, k] integers` };
+    }
+    if (data.event_type === 'piece_placed' && data.position === undefined && data.cells === undefined) {
+      return { valid: false, error: 'piece_placed needs "position" or "cells"' };
+    }
+  }
+
+  return { valid: true, event: data as SolverEvent };
+}
+
+/**
+ * Parse a JSONL event log (one event per line). Invalid lines are reported, not fatal.
+ */
+export function parseEventLog(text: string): { events: SolverEvent[]; errors: string[] } {
+  const events: SolverEvent[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(line);
+    } catch (err) {
+      errors.push(`Line ${index + 1}: ${(err as Error).message}`);
+      return;
+    }
+
+    const validation = validateSolverEvent(parsed);
+    if (validation.valid) {
+      events.push(validation.event!);
+    } else {
+      errors.push(`Line ${index + 1}: ${validation.error}`);
+    }
+  });
+
+  return { events, errors };
+}
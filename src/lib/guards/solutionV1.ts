@@ -0,0 +1,255 @@
+// UI-only port; engines remain upstream.
+// Solution file guard: structural checks plus coverage against the container
+
+import { PIECE_DEFINITIONS, findPieceOrientation, isMirroredPiece } from '../pieces/library';
+
+export type SolutionIssueSeverity = 'error' | 'warning';
+
+export type SolutionIssueCode =
+  | 'invalid_cells'
+  | 'wrong_cell_count'
+  | 'duplicate_cell_in_piece'
+  | 'overlapping_cells'
+  | 'cell_outside_container'
+  | 'container_cell_uncovered'
+  | 'pieces_used_mismatch'
+  | 'piece_shape_mismatch'
+  | 'mirrored_piece'
+  | 'container_not_found';
+
+export interface SolutionIssue {
+  severity: SolutionIssueSeverity;
+  code: SolutionIssueCode;
+  message: string;
+  placementIndices: number[]; // Offending placements (indices into solution.placements)
+  cells?: number[][];         // Offending cells in engine i,j,k
+}
+
+export interface SolutionValidationReport {
+  valid: boolean; // No errors (warnings allowed)
+  issues: SolutionIssue[];
+  placementCount: number;
+  cellCount: number;
+  containerCellCount: number | null; // null when the container could not be checked
+}
+
+/**
+ * Normalize a cell to an [i, j, k] array (files store arrays, older code uses {x,y,z})
+ */
+export function cellToIJK(cell: any): number[] | null {
+  if (Array.isArray(cell) && cell.length === 3 && cell.every(n => Number.isInteger(n))) {
+    return [cell[0], cell[1], cell[2]];
+  }
+  if (cell && typeof cell === 'object' && [cell.x, cell.y, cell.z].every(n => Number.isInteger(n))) {
+    return [cell.x, cell.y, cell.z];
+  }
+  return null;
+}
+
+const cellKey = (cell: number[]): string => `${cell[0]},${cell[1]},${cell[2]}`;
+
+/**
+ * Light structural guard used when a solution file is opened
+ */
+export function validateSolutionStructure(data: any): { valid: boolean; error?: string } {
+  if (!data || typeof data !== 'object') {
+    return { valid: false, error: 'Invalid JSON: not an object' };
+  }
+
+  if (!data.version) {
+    return { valid: false, error: 'Missing "version" field' };
+  }
+
+  if (data.lattice && data.lattice !== 'fcc') {
+    return { valid: false, error: `Unsupported lattice type: ${data.lattice}. Only 'fcc' is supported.` };
+  }
+
+  if (!Array.isArray(data.placements)) {
+    return { valid: false, error: 'Missing placement data. Expected "placements" array.' };
+  }
+
+  if (!data.piecesUsed || typeof data.piecesUsed !== 'object') {
+    return { valid: false, error: 'Missing "piecesUsed" map' };
+  }
+
+  for (let i = 0; i < data.placements.length; i++) {
+    const placement = data.placements[i];
+    if (!placement || typeof placement.piece !== 'string' || !Array.isArray(placement.cells_ijk)) {
+      return { valid: false, error: `Invalid placement at index ${i}: expected "piece" and "cells_ijk"` };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Check a placement's cells against the piece library. The orientation is derived from the cells;
+ * stored ori/t are left unchecked, since the library's ori numbering is only reconstructed
+ * from engine output and older files carry a placeholder ori: 0.
+ */
+function checkPieceShape(placement: any, index: number, cells: number[][], issues: SolutionIssue[]): void {
+  const coords = cells.map(([x, y, z]) => ({ x, y, z }));
+  if (findPieceOrientation(placement.piece, coords)) return;
+
+  const mirrored = isMirroredPiece(placement.piece, coords);
+  issues.push({
+    severity: mirrored ? 'warning' : 'error',
+    code: mirrored ? 'mirrored_piece' : 'piece_shape_mismatch',
+    message: mirrored
+      ? `Piece ${placement.piece} (#${index}) is placed as its mirror image`
+      : `Piece ${placement.piece} (#${index}) does not have the shape of piece ${placement.piece}`,
+    placementIndices: [index],
+    cells
+  });
+}
+
+/**
+ * Validate every placement of a solution, optionally against its container cells.
+ * Assumes validateSolutionStructure() already passed.
+ */
+export function validateSolutionFile(data: any, containerCells: number[][] | null): SolutionValidationReport {
+  const issues: SolutionIssue[] = [];
+  const coverage = new Map<string, { cell: number[]; placements: number[] }>();
+
+  data.placements.forEach((placement: any, index: number) => {
+    const cells = (placement.cells_ijk as any[]).map(cellToIJK);
+
+    if (cells.some(cell => cell === null)) {
+      issues.push({
+        severity: 'error',
+        code: 'invalid_cells',
+        message: `Piece ${placement.piece} (#${index}) has cells that are not integer [i, j, k] triples`,
+        placementIndices: [index]
+      });
+      return;
+    }
+
+    if (cells.length !== 4) {
+      issues.push({
+        severity: 'error',
+        code: 'wrong_cell_count',
+        message: `Piece ${placement.piece} (#${index}) has ${cells.length} cells, expected 4`,
+        placementIndices: [index]
+      });
+    }
+
+    const seen = new Set<string>();
+    (cells as number[][]).forEach(cell => {
+      const key = cellKey(cell);
+      if (seen.has(key)) {
+        issues.push({
+          severity: 'error',
+          code: 'duplicate_cell_in_piece',
+          message: `Piece ${placement.piece} (#${index}) lists cell (${key}) more than once`,
+          placementIndices: [index],
+          cells: [cell]
+        });
+        return;
+      }
+      seen.add(key);
+
+      const entry = coverage.get(key);
+      if (entry) {
+        entry.placements.push(index);
+      } else {
+        coverage.set(key, { cell, placements: [index] });
+      }
+    });
+
+    if (seen.size === 4 && PIECE_DEFINITIONS[placement.piece]) {
+      checkPieceShape(placement, index, cells as number[][], issues);
+    }
+  });
+
+
+  // No cell may be covered by more than one piece
+  coverage.forEach(({ cell, placements }, key) => {
+    if (placements.length > 1) {
+      const pieces = placements.map(i => `${data.placements[i].piece} (#${i})`).join(', ');
+      issues.push({
+        severity: 'error',
+        code: 'overlapping_cells',
+        message: `Cell (${key}) is covered by ${pieces}`,
+        placementIndices: placements,
+        cells: [cell]
+      });
+    }
+  });
+
+  // Union of all placements must match the container exactly
+  if (containerCells) {
+    const containerKeys = new Set(containerCells.map(cellKey));
+
+    coverage.forEach(({ cell, placements }, key) => {
+      if (!containerKeys.has(key)) {
+        issues.push({
+          severity: 'error',
+          code: 'cell_outside_container',
+          message: `Cell (${key}) of piece ${data.placements[placements[0]].piece} (#${placements[0]}) is outside the container`,
+          placementIndices: placements,
+          cells: [cell]
+        });
+      }
+    });
+
+    const uncovered = containerCells.filter(cell => !coverage.has(cellKey(cell)));
+    if (uncovered.length > 0) {
+      issues.push({
+        severity: 'error',
+        code: 'container_cell_uncovered',
+        message: `${uncovered.length} container cell${uncovered.length !== 1 ? 's are' : ' is'} not covered by any piece`,
+        placementIndices: [],
+        cells: uncovered
+      });
+    }
+  } else {
+    issues.push({
+      severity: 'warning',
+      code: 'container_not_found',
+      message: `Container ${String(data.containerCidSha256 || '').substring(0, 8) || '(no CID)'} not found in library - coverage not checked`,
+      placementIndices: []
+    });
+  }
+
+  // piecesUsed must agree with the placements. Engine output lists its whole inventory there,
+  // so declared pieces that are never placed are not an error.
+  const placedCounts: Record<string, number> = {};
+  data.placements.forEach((placement: any) => {
+    placedCounts[placement.piece] = (placedCounts[placement.piece] || 0) + 1;
+  });
+
+  Object.keys(placedCounts).forEach(pieceId => {
+    const declared = Number(data.piecesUsed[pieceId] || 0);
+    const placed = placedCounts[pieceId];
+    if (declared !== placed) {
+      const placementIndices = data.placements
+        .map((placement: any, index: number) => (placement.piece === pieceId ? index : -1))
+        .filter((index: number) => index >= 0);
+      issues.push({
+        severity: 'error',
+        code: 'pieces_used_mismatch',
+        message: `piecesUsed declares ${declared} × ${pieceId}, placements contain ${placed}`,
+        placementIndices
+      });
+    }
+  });
+
+  return {
+    valid: !issues.some(issue => issue.severity === 'error'),
+    issues,
+    placementCount: data.placements.length,
+    cellCount: coverage.size,
+    containerCellCount: containerCells ? containerCells.length : null
+  };
+}
+
+/**
+ * Collect the placement indices referenced by error-level issues
+ */
+export function getOffendingPlacements(report: SolutionValidationReport): number[] {
+  const indices = new Set<number>();
+  report.issues
+    .filter(issue => issue.severity === 'error')
+    .forEach(issue => issue.placementIndices.forEach(index => indices.add(index)));
+  return Array.from(indices).sort((a, b) => a - b);
+}
@@ -0,0 +1,88 @@
+// UI-only port; engines remain upstream.
+// Light JSON guard for engine status snapshots (see data/examples/status/)
+
+export interface StatusSnapshot {
+  timestamp: string;
+  container_id?: string;
+  solver_state: string; // e.g. "solving", "solved", "failed"
+  pieces_placed?: number;
+  total_pieces?: number;
+  progress_percent?: number;
+  current_depth?: number;
+  nodes_explored?: number;
+  time_elapsed_ms?: number;
+  memory_usage_mb?: number;
+  note?: string;
+}
+
+const NUMERIC_FIELDS = [
+  'pieces_placed',
+  'total_pieces',
+  'progress_percent',
+  'current_depth',
+  'nodes_explored',
+  'time_elapsed_ms',
+  'memory_usage_mb'
+] as const;
+
+/**
+ * Validate a single status snapshot with clear error messages
+ */
+export function validateStatusSnapshot(data: any): { valid: boolean; error?: string; snapshot?: StatusSnapshot } {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { valid: false, error: 'Invalid JSON: not an object' };
+  }
+
+  if (typeof data.timestamp !== 'string' || isNaN(Date.parse(data.timestamp))) {
+    return { valid: false, error: 'Missing or invalid "timestamp" (expected ISO date string)' };
+  }
+
+  if (typeof data.solver_state !== 'string') {
+    return { valid: false, error: 'Missing "solver_state" field' };
+  }
+
+  for (const field of NUMERIC_FIELDS) {
+    if (data[field] !== undefined && (typeof data[field] !== 'number' || !isFinite(data[field]))) {
+      return { valid: false, error: `Invalid "${field}": expected a number` };
+    }
+  }
+
+  return { valid: true, snapshot: data as StatusSnapshot };
+}
+
+/**
+ * Parse a snapshot file: a single object, an array of objects, or JSONL (one snapshot per line).
+ * Snapshots are returned oldest first.
+ */
+export function parseStatusSnapshots(text: string): { snapshots: StatusSnapshot[]; errors: string[] } {
+  const errors: string[] = [];
+  let candidates: any[] = [];
+
+  try {
+    const parsed = JSON.parse(text);
+    candidates = Array.isArray(parsed) ? parsed : [parsed];
+  } catch (err) {
+    // Not a single JSON document - treat as JSONL
+    text.split(/\r?\n/).forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        candidates.push(JSON.parse(line));
+      } catch (lineError) {
+        errors.push(`Line ${index + 1}: ${(lineError as Error).message}`);
+      }
+    });
+  }
+
+  const snapshots: StatusSnapshot[] = [];
+  candidates.forEach((candidate, index) => {
+    const validation = validateStatusSnapshot(candidate);
+    if (validation.valid) {
+      snapshots.push(validation.snapshot!);
+    } else {
+      errors.push(`Snapshot ${index + 1}: ${validation.error}`);
+    }
+  });
+
+  snapshots.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  return { snapshots, errors };
+}
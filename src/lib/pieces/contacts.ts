@@ -0,0 +1,29 @@
+// UI-only port; engines remain upstream.
+// Piece contacts: which placements touch each other in the FCC lattice
+
+import { FCC_NEIGHBOR_OFFSETS } from '../coords/lattice';
+
+/**
+ * Indices of the placements with at least one cell adjacent to a cell of placements[index]
+ */
+export function findTouchingPlacements(placements: { cells_ijk: number[][] }[], index: number): number[] {
+  const target = placements[index];
+  if (!target) return [];
+
+  const ownCells = new Set(target.cells_ijk.map(cell => cell.join(',')));
+  const around = new Set<string>();
+  target.cells_ijk.forEach(([i, j, k]) => {
+    FCC_NEIGHBOR_OFFSETS.forEach(([di, dj, dk]) => {
+      const key = `${i + di},${j + dj},${k + dk}`;
+      if (!ownCells.has(key)) around.add(key);
+    });
+  });
+
+  const touching: number[] = [];
+  placements.forEach((placement, other) => {
+    if (other !== index && placement.cells_ijk.some(cell => around.has(cell.join(',')))) {
+      touching.push(other);
+    }
+  });
+  return touching;
+}
@@ -0,0 +1,194 @@
+// UI-only port; engines remain upstream.
+// Canonical A–Y tetra-sphere pieces with lattice orientation tables
+
+import { FCCCoord } from '../coords/fcc';
+import { FCC_LATTICE_ROTATIONS, applyLatticeMatrix } from '../coords/lattice';
+
+export interface PieceDefinition {
+  id: string;
+  cells: FCCCoord[]; // Reference shape in engine i,j,k, anchor cell at origin
+}
+
+export interface PieceOrientation {
+  ori: number;       // Orientation index, numbered like the engine's `ori`
+  rotation: number;  // Index into FCC_LATTICE_ROTATIONS producing this orientation
+  flipped: boolean;  // Rotation is applied to the turned-over piece
+  cells: FCCCoord[]; // Sorted cells, anchor (smallest k, then j, then i) at origin
+}
+
+export interface PieceOrientationMatch {
+  ori: number;
+  t: FCCCoord; // Translation = position of the anchor cell
+}
+
+// The 25 four-sphere pieces in their engine orientation 0
+const PIECE_CELLS: Record<string, number[][]> = {
+  A: [[0, -1, 1], [0, 0, 0], [1, -1, 1], [1, 0, 0]],
+  B: [[0, -1, 2], [0, 0, 0], [0, 0, 1], [0, 1, 1]],
+  C: [[0, -3, 2], [0, -2, 1], [0, -1, 1], [0, 0, 0]],
+  D: [[0, 0, 0], [0, 0, 1], [0, 0, 2], [0, 0, 3]],
+  E: [[0, -1, 1], [0, -1, 2], [0, -1, 3], [0, 0, 0]],
+  F: [[0, -1, 1], [0, -1, 2], [0, 0, 0], [0, 0, 1]],
+  G: [[0, -1, 1], [0, 0, 0], [1, 0, 0], [2, 0, 0]],
+  H: [[-1, -1, 1], [0, -1, 1], [0, 0, 0], [1, 0, 0]],
+  I: [[0, 0, 0], [0, 0, 1], [0, 0, 2], [1, -1, 1]],
+  J: [[0, -1, 1], [0, -1, 2], [0, 0, 0], [0, 0, 2]],
+  K: [[0, 0, 0], [0, 0, 1], [0, 1, 0], [1, 0, 0]],
+  L: [[-1, 1, 0], [-1, 1, 1], [0, 0, 0], [0, 1, 0]],
+  M: [[-1, 0, 1], [-1, 0, 2], [-1, 1, 0], [0, 0, 0]],
+  N: [[0, -1, 1], [0, -1, 2], [0, 0, 0], [1, -2, 1]],
+  O: [[-1, 0, 2], [-1, 1, 1], [0, 0, 0], [0, 0, 1]],
+  P: [[0, 0, 0], [0, 0, 1], [0, 1, 0], [1, -1, 1]],
+  Q: [[-1, 0, 1], [0, 0, 0], [1, -1, 1], [1, 0, 0]],
+  R: [[-2, 0, 1], [-1, -1, 1], [0, -1, 1], [0, 0, 0]],
+  S: [[-2, -1, 2], [-2, 0, 1], [-1, 0, 1], [0, 0, 0]],
+  T: [[-1, 1, 1], [-1, 2, 1], [0, 0, 0], [0, 0, 1]],
+  U: [[-1, 0, 1], [-1, 0, 2], [-1, 1, 2], [0, 0, 0]],
+  V: [[0, -1, 1], [0, -1, 2], [0, 0, 0], [1, -1, 2]],
+  W: [[-1, -1, 2], [-1, -1, 3], [-1, 0, 1], [0, 0, 0]],
+  X: [[0, 0, 0], [0, 0, 1], [0, 1, 1], [1, 1, 1]],
+  Y: [[-2, 2, 0], [-1, 1, 0], [-1, 2, 0], [0, 0, 0]]
+};
+
+export const PIECE_IDS: string[] = Object.keys(PIECE_CELLS);
+
+export const PIECE_DEFINITIONS: Record<string, PieceDefinition> = PIECE_IDS.reduce((definitions, id) => {
+  definitions[id] = { id, cells: PIECE_CELLS[id].map(([x, y, z]) => ({ x, y, z })) };
+  return definitions;
+}, {} as Record<string, PieceDefinition>);
+
+// Rotation order behind the engine's `ori` numbering, as indices into FCC_LATTICE_ROTATIONS.
+// Reconstructed from the engine's DLX output in public/content/solutions: it reproduces every
+// ori/t found there; indices that never occur in those files cannot be checked.
+const ENGINE_ROTATION_ORDER = [0, 1, 2, 3, 17, 16, 4, 6, 5, 7, 9, 10, 11, 8, 13, 12, 14, 20, 21, 22, 19, 23, 18, 15];
+
+// Lattice reflection (swap i and k) used to turn flat pieces over
+const flipCell = (c: FCCCoord): FCCCoord => ({ x: c.z, y: c.y, z: c.x });
+
+const compareCoords = (a: FCCCoord, b: FCCCoord): number => a.x - b.x || a.y - b.y || a.z - b.z;
+
+// Engine anchor order: k first, then j, then i
+const compareAnchor = (a: FCCCoord, b: FCCCoord): number => a.z - b.z || a.y - b.y || a.x - b.x;
+
+const cellsKey = (cells: FCCCoord[]): string => cells.map(c => `${c.x},${c.y},${c.z}`).join('|');
+
+/**
+ * Sort cells and translate so the anchor cell (smallest k, then j, then i) sits at the origin
+ */
+export function normalizePieceCells(cells: FCCCoord[]): { cells: FCCCoord[]; anchor: FCCCoord } {
+  const anchor = cells.reduce((min, c) => (compareAnchor(c, min) < 0 ? c : min), cells[0]);
+  return {
+    cells: cells.map(c => ({ x: c.x - anchor.x, y: c.y - anchor.y, z: c.z - anchor.z })).sort(compareCoords),
+    anchor: { ...anchor }
+  };
+}
+
+/**
+ * True when all cells lie in one lattice plane; such pieces can be turned over
+ */
+function isFlatPiece(cells: FCCCoord[]): boolean {
+  const [o, ...rest] = cells;
+  const [a, b, c] = rest.map(p => [p.x - o.x, p.y - o.y, p.z - o.z]);
+  return a[0] * (b[1] * c[2] - b[2] * c[1]) - a[1] * (b[0] * c[2] - b[2] * c[0]) + a[2] * (b[0] * c[1] - b[1] * c[0]) === 0;
+}
+
+const orientationCache = new Map<string, PieceOrientation[]>();
+
+/**
+ * All distinct placements of a piece, in the engine's `ori` order: the rotations of the
+ * reference shape, then - for flat pieces, which can be turned over - the rotations of its
+ * mirror image. Solid pieces are never mirrored; their mirror image is another piece of the
+ * set (O/P, Q/R, S/T, U/V, W/X) or the piece itself.
+ */
+export function getPieceOrientations(pieceId: string): PieceOrientation[] {
+  const cached = orientationCache.get(pieceId);
+  if (cached) return cached;
+
+  const definition = PIECE_DEFINITIONS[pieceId];
+  if (!definition) {
+    throw new Error(`Unknown piece: ${pieceId}`);
+  }
+
+  const seen = new Set<string>();
+  const orientations: PieceOrientation[] = [];
+
+  const flips = isFlatPiece(definition.cells) ? [false, true] : [false];
+
+  flips.forEach(flipped => {
+    const source = flipped ? definition.cells.map(flipCell) : definition.cells;
+    ENGINE_ROTATION_ORDER.forEach(rotationIndex => {
+      const { cells } = normalizePieceCells(source.map(c => applyLatticeMatrix(FCC_LATTICE_ROTATIONS[rotationIndex], c)));
+      const key = cellsKey(cells);
+      if (seen.has(key)) return;
+
+      seen.add(key);
+      orientations.push({ ori: orientations.length, rotation: rotationIndex, flipped, cells });
+    });
+  });
+
+  orientationCache.set(pieceId, orientations);
+  return orientations;
+}
+
+/**
+ * Orientation reached by turning the reference shape with engine rotation `rotation` (0–23, the
+ * `rotation` of solver event logs). Rotations that give the same shape share one `ori`, so the
+ * two numbers differ for pieces with symmetries.
+ */
+export function getOriForEngineRotation(pieceId: string, rotation: number): number {
+  const orientations = getPieceOrientations(pieceId);
+  const rotationIndex = ENGINE_ROTATION_ORDER[rotation];
+  if (rotationIndex === undefined) {
+    throw new Error(`Engine rotation ${rotation} is out of range (0–${ENGINE_ROTATION_ORDER.length - 1})`);
+  }
+
+  const { cells } = normalizePieceCells(PIECE_DEFINITIONS[pieceId].cells.map(c => applyLatticeMatrix(FCC_LATTICE_ROTATIONS[rotationIndex], c)));
+  const key = cellsKey(cells);
+  return orientations.findIndex(orientation => cellsKey(orientation.cells) === key);
+}
+
+/**
+ * Cells occupied by piece `pieceId` at orientation `ori` with anchor translation `t`
+ */
+export function getPlacementCells(pieceId: string, ori: number, t: FCCCoord): FCCCoord[] {
+  const orientations = getPieceOrientations(pieceId);
+  const orientation = orientations[ori];
+  if (!orientation) {
+    throw new Error(`Piece ${pieceId} has ${orientations.length} orientations, got ori ${ori}`);
+  }
+
+  return orientation.cells.map(c => ({ x: c.x + t.x, y: c.y + t.y, z: c.z + t.z }));
+}
+
+/**
+ * Find the orientation and translation of a piece that covers exactly `cells`
+ */
+export function findPieceOrientation(pieceId: string, cells: FCCCoord[]): PieceOrientationMatch | null {
+  if (!PIECE_DEFINITIONS[pieceId] || cells.length !== PIECE_DEFINITIONS[pieceId].cells.length) return null;
+
+  const { cells: normalized, anchor } = normalizePieceCells(cells);
+  const key = cellsKey(normalized);
+  const match = getPieceOrientations(pieceId).find(orientation => cellsKey(orientation.cells) === key);
+
+  return match ? { ori: match.ori, t: anchor } : null;
+}
+
+/**
+ * Identify which piece (if any) covers exactly `cells`
+ */
+export function identifyPiece(cells: FCCCoord[]): (PieceOrientationMatch & { pieceId: string }) | null {
+  for (const pieceId of PIECE_IDS) {
+    const match = findPieceOrientation(pieceId, cells);
+    if (match) return { pieceId, ...match };
+  }
+  return null;
+}
+
+/**
+ * True when `cells` are a mirror image (but not a rotation) of the piece
+ */
+export function isMirroredPiece(pieceId: string, cells: FCCCoord[]): boolean {
+  if (findPieceOrientation(pieceId, cells)) return false;
+  // Point inversion is a lattice reflection; any mirror image is a rotation of it
+  return findPieceOrientation(pieceId, cells.map(c => ({ x: -c.x, y: -c.y, z: -c.z }))) !== null;
+}
@@ -0,0 +1,177 @@
+// UI-only port; engines remain upstream.
+// Replay timeline for solver event logs: board state after any event, plus backtrack density
+
+import { SolverEvent } from '../guards/eventsV1';
+import { PIECE_DEFINITIONS, getOriForEngineRotation, getPlacementCells } from '../pieces/library';
+
+export interface ReplayPlacement {
+  key: string;     // piece_id from the log (unique while placed)
+  pieceId: string; // Library letter when recognised (A–Y), else the raw piece_id
+  cells: number[][];
+}
+
+export interface ReplayStats {
+  placed: number;
+  removed: number;
+  backtracks: number;
+  maxPlaced: number;
+  solutionFound: boolean | null; // From solver_complete, null if the log has none
+}
+
+const CHECKPOINT_INTERVAL = 256; // Events between stored board snapshots (keeps scrubbing cheap)
+
+/**
+ * Library letter for ids like "A", "A_2" or "A#2"; null for other pieces (e.g. "single_1")
+ */
+export function pieceLetter(pieceId: string): string | null {
+  const match = /^([A-Z])(?:[_#-]\d+)?$/.exec(pieceId);
+  return match && PIECE_DEFINITIONS[match[1]] ? match[1] : null;
+}
+
+/**
+ * Cells covered by a piece_placed event: explicit cells, else library piece at rotation/position, else the position alone.
+ * `rotation` indexes the engine's 24 rotations, not the piece's distinct orientations.
+ */
+export function resolveEventCells(event: SolverEvent): number[][] {
+  if (event.cells) return event.cells;
+  if (!event.position) return [];
+
+  const letter = pieceLetter(event.piece_id || '');
+  if (letter && typeof event.rotation === 'number') {
+    try {
+      const [x, y, z] = event.position;
+      return getPlacementCells(letter, getOriForEngineRotation(letter, event.rotation), { x, y, z }).map(c => [c.x, c.y, c.z]);
+    } catch (err) {
+      console.warn(`🎞️ REPLAY: ${(err as Error).message}; showing anchor cell only`);
+    }
+  }
+
+  return [event.position];
+}
+
+type BoardState = Map<string, ReplayPlacement>;
+
+function applyEvent(board: BoardState, event: SolverEvent): void {
+  switch (event.event_type) {
+    case 'solver_start':
+      board.clear();
+      break;
+    case 'piece_placed': {
+      const key = event.piece_id!;
+      board.set(key, { key, pieceId: pieceLetter(key) || key, cells: resolveEventCells(event) });
+      break;
+    }
+    case 'piece_removed':
+      board.delete(event.piece_id!);
+      break;
+  }
+}
+
+export class ReplayTimeline {
+  readonly events: SolverEvent[];
+  readonly backtrackIndices: number[] = [];
+  readonly stats: ReplayStats;
+
+  private checkpoints: BoardState[] = []; // checkpoints[n] = board after event n * CHECKPOINT_INTERVAL - 1
+  private allCells: number[][] = [];
+
+  constructor(events: SolverEvent[]) {
+    this.events = events;
+
+    const board: BoardState = new Map();
+    const seenCells = new Set<string>();
+    let placed = 0;
+    let removed = 0;
+    let maxPlaced = 0;
+    let solutionFound: boolean | null = null;
+
+    this.checkpoints.push(new Map());
+    events.forEach((event, index) => {
+      applyEvent(board, event);
+
+      if (event.event_type === 'piece_placed') {
+        placed++;
+        board.get(event.piece_id!)!.cells.forEach(cell => {
+          const key = cell.join(',');
+          if (!seenCells.has(key)) {
+            seenCells.add(key);
+            this.allCells.push(cell);
+          }
+        });
+      } else if (event.event_type === 'piece_removed') {
+        removed++;
+      } else if (event.event_type === 'backtrack') {
+        this.backtrackIndices.push(index);
+      } else if (event.event_type === 'solver_complete' && typeof event.solution_found === 'boolean') {
+        solutionFound = event.solution_found;
+      }
+
+      maxPlaced = Math.max(maxPlaced, board.size);
+      if ((index + 1) % CHECKPOINT_INTERVAL === 0) {
+        this.checkpoints.push(new Map(board));
+      }
+    });
+
+    this.stats = { placed, removed, backtracks: this.backtrackIndices.length, maxPlaced, solutionFound };
+  }
+
+  get length(): number {
+    return this.events.length;
+  }
+
+  /**
+   * Every cell any placement touches (used to frame the camera once for the whole replay)
+   */
+  getAllCells(): number[][] {
+    return this.allCells;
+  }
+
+  /**
+   * Pieces on the board after applying events[0..index]; index -1 is the empty board
+   */
+  stateAt(index: number): ReplayPlacement[] {
+    if (index < 0 || this.events.length === 0) return [];
+    const last = Math.min(index, this.events.length - 1);
+
+    const checkpoint = Math.floor((last + 1) / CHECKPOINT_INTERVAL);
+    const board: BoardState = new Map(this.checkpoints[checkpoint]);
+    for (let i = checkpoint * CHECKPOINT_INTERVAL; i <= last; i++) {
+      applyEvent(board, this.events[i]);
+    }
+
+    return Array.from(board.values());
+  }
+
+  /**
+   * Backtrack counts in `buckets` equal slices of the log (for the timeline heat strip)
+   */
+  backtrackDensity(buckets: number): number[] {
+    const density = new Array(buckets).fill(0);
+    if (this.events.length === 0) return density;
+
+    this.backtrackIndices.forEach(index => {
+      density[Math.min(buckets - 1, Math.floor((index / this.events.length) * buckets))]++;
+    });
+    return density;
+  }
+}
+
+/**
+ * One-line description of an event for the replay controls
+ */
+export function describeEvent(event: SolverEvent): string {
+  switch (event.event_type) {
+    case 'solver_start':
+      return `Solver start${event.engine ? ` (${event.engine})` : ''}${event.container_id ? ` · ${event.container_id}` : ''}`;
+    case 'piece_placed':
+      return `Place ${event.piece_id}${event.position ? ` at (${event.position.join(',')})` : ''}${typeof event.rotation === 'number' ? ` rotation ${event.rotation}` : ''}`;
+    case 'piece_removed':
+      return `Remove ${event.piece_id}`;
+    case 'backtrack':
+      return `Backtrack${typeof event.depth === 'number' ? ` at depth ${event.depth}` : ''}${event.reason ? ` · ${event.reason}` : ''}`;
+    case 'solver_complete':
+      return `Solver complete · ${event.solution_found ? 'solution found' : 'no solution'}${typeof event.total_time_ms === 'number' ? ` · ${event.total_time_ms} ms` : ''}`;
+    default:
+      return event.event_type;
+  }
+}
@@ -0,0 +1,92 @@
+// UI-only port; engines remain upstream.
+// Solution identity (SID): state hashes that recognise the same solution after a rotation
+
+import { FCC_LATTICE_ROTATIONS, LatticeMatrix } from './coords/lattice';
+
+type Cell = [number, number, number];
+
+// Placements as they appear in solution files (cells_ijk are i,j,k arrays)
+export interface SIDPlacement {
+  piece: string;
+  cells_ijk: ArrayLike<number>[];
+}
+
+export interface SolutionIDs {
+  sid_state_sha256: string;        // Exact state: which piece covers which cell
+  sid_route_sha256: string;        // State plus the order pieces were placed in
+  sid_state_canon_sha256: string;  // State up to lattice rotation and translation
+}
+
+const toCell = (cell: ArrayLike<number>): Cell => [cell[0], cell[1], cell[2]];
+
+const compareCells = (a: Cell, b: Cell) => a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+
+const rotateCell = (m: LatticeMatrix, [i, j, k]: Cell): Cell => [
+  m[0][0] * i + m[0][1] * j + m[0][2] * k,
+  m[1][0] * i + m[1][1] * j + m[1][2] * k,
+  m[2][0] * i + m[2][1] * j + m[2][2] * k
+];
+
+/**
+ * Serialize placements as "piece:cells" entries; cells are sorted within each piece and,
+ * unless keepOrder is set, pieces are sorted so the string only depends on the state
+ */
+function serializePlacements(placements: { piece: string; cells: Cell[] }[], keepOrder = false): string {
+  const entries = placements.map(p => `${p.piece}:${[...p.cells].sort(compareCells).map(c => c.join(',')).join(';')}`);
+  if (!keepOrder) entries.sort();
+  return entries.join('|');
+}
+
+/**
+ * Move the placements so the minimum i, j and k over all cells is 0
+ */
+function translateToOrigin(placements: { piece: string; cells: Cell[] }[]): { piece: string; cells: Cell[] }[] {
+  const all = placements.flatMap(p => p.cells);
+  if (all.length === 0) return placements;
+  const min = [0, 1, 2].map(axis => Math.min(...all.map(c => c[axis])));
+  return placements.map(p => ({
+    piece: p.piece,
+    cells: p.cells.map(c => [c[0] - min[0], c[1] - min[1], c[2] - min[2]] as Cell)
+  }));
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Canonical state string: the lexicographically smallest serialization over the 24 lattice
+ * rotations, each translated to the origin. Any symmetry of the container maps a solution to
+ * one with the same canonical string.
+ */
+export function canonicalSolutionState(placements: SIDPlacement[]): string {
+  const base = placements.map(p => ({ piece: p.piece, cells: p.cells_ijk.map(toCell) }));
+  let best = '';
+  FCC_LATTICE_ROTATIONS.forEach((m, index) => {
+    const rotated = base.map(p => ({ piece: p.piece, cells: p.cells.map(c => rotateCell(m, c)) }));
+    const candidate = serializePlacements(translateToOrigin(rotated));
+    if (index === 0 || candidate < best) best = candidate;
+  });
+  return best;
+}
+
+/**
+ * Compute the three SIDs of a solution (bare hex, like containerCidSha256 in solution files)
+ */
+export async function computeSolutionIDs(placements: SIDPlacement[]): Promise<SolutionIDs> {
+  const cells = placements.map(p => ({ piece: p.piece, cells: p.cells_ijk.map(toCell) }));
+  const [state, route, canon] = await Promise.all([
+    sha256Hex(serializePlacements(cells)),
+    sha256Hex(serializePlacements(cells, true)),
+    sha256Hex(canonicalSolutionState(placements))
+  ]);
+  return { sid_state_sha256: state, sid_route_sha256: route, sid_state_canon_sha256: canon };
+}
+
+/**
+ * Check whether two solutions are the same up to rotation and translation
+ */
+export function isSameSolution(a: SIDPlacement[], b: SIDPlacement[]): boolean {
+  return a.length === b.length && canonicalSolutionState(a) === canonicalSolutionState(b);
+}
@@ -0,0 +1,357 @@
+// UI-only port; engines remain upstream.
+// Dancing Links (Algorithm X) exact cover for packing A–Y pieces into a container
+
+import { SolutionFile } from '../../types/solution';
+import { ContainerV1 } from '../guards/containerV1';
+import { PIECE_DEFINITIONS, getPieceOrientations } from '../pieces/library';
+
+export type PieceSet = Record<string, number>; // {"A": 1, "B": 2, ...} - copies available per piece
+
+export interface SolverPlacement {
+  piece: string;
+  ori: number;
+  t: number[];         // Anchor cell in engine i,j,k
+  cells_ijk: number[][];
+}
+
+export interface SolverProgress {
+  nodes: number;      // Search nodes visited
+  solutions: number;
+  depth: number;      // Pieces currently placed
+  bestDepth: number;  // Most pieces placed at once so far
+  rows: number;       // Candidate placements in the matrix
+  elapsedMs: number;
+}
+
+export type SearchStepResult = 'solution' | 'exhausted' | 'paused';
+
+export interface SolverOptions {
+  maxSolutions: number; // Stop after this many solutions (0 = no limit)
+  timeBudgetMs: number; // Stop after this long (0 = no limit)
+}
+
+export type SolverFinishReason = 'exhausted' | 'max_solutions' | 'time_budget' | 'cancelled' | 'infeasible';
+
+export type SolverRequest =
+  | { type: 'start'; container: ContainerV1; pieces: PieceSet; options: SolverOptions }
+  | { type: 'cancel' };
+
+export type SolverMessage =
+  | { type: 'progress'; progress: SolverProgress }
+  | { type: 'solution'; index: number; solution: SolutionFile }
+  | { type: 'done'; reason: SolverFinishReason; progress: SolverProgress | null; message?: string }
+  | { type: 'error'; message: string };
+
+const cellKey = (cell: number[]): string => `${cell[0]},${cell[1]},${cell[2]}`;
+
+/**
+ * Quick reasons the container can never be filled by the piece set (null if worth searching)
+ */
+export function checkPieceSetFits(containerCells: number[][], pieces: PieceSet): string | null {
+  if (containerCells.length === 0) {
+    return 'Container is empty';
+  }
+
+  if (containerCells.length % 4 !== 0) {
+    return `Container has ${containerCells.length} cells, which is not a multiple of 4`;
+  }
+
+  const unknown = Object.keys(pieces).filter(pieceId => pieces[pieceId] > 0 && !PIECE_DEFINITIONS[pieceId]);
+  if (unknown.length > 0) {
+    return `Unknown piece${unknown.length !== 1 ? 's' : ''}: ${unknown.join(', ')}`;
+  }
+
+  const pieceCells = Object.keys(pieces).reduce((sum, pieceId) => sum + 4 * Math.max(0, pieces[pieceId]), 0);
+  if (pieceCells < containerCells.length) {
+    return `Piece set covers ${pieceCells} cells, container has ${containerCells.length}`;
+  }
+
+  return null;
+}
+
+/**
+ * Resumable DLX search. Container cells are primary columns; pieces are secondary
+ * columns with a capacity (number of copies), covered once all copies are used.
+ * step() runs a bounded number of nodes so callers can stay responsive.
+ */
+export class ExactCoverSearch {
+  // Node links (index 0 is the root; 1..columnCount are column headers)
+  private L: Int32Array;
+  private R: Int32Array;
+  private U: Int32Array;
+  private D: Int32Array;
+  private C: Int32Array;
+  private rowOfNode: Int32Array;
+  private size: Int32Array;
+
+  private cellColumnCount: number;
+  private capacity: number[] = []; // Indexed by piece column - cellColumnCount - 1
+  private used: number[] = [];
+  private rowPlacements: SolverPlacement[] = [];
+
+  // Explicit search stack
+  private level = 0;
+  private chosenColumns: Int32Array;
+  private chosenRows: Int32Array;
+  private phase: 'enter' | 'try' | 'backtrack' = 'enter';
+  private exhausted = false;
+
+  private nodes = 0;
+  private solutions = 0;
+  private bestDepth = 0;
+  private startTime = Date.now();
+
+  constructor(containerCells: number[][], pieces: PieceSet) {
+    const cellIndex = new Map<string, number>();
+    containerCells.forEach((cell, index) => cellIndex.set(cellKey(cell), index + 1));
+
+    const pieceIds = Object.keys(pieces).filter(pieceId => pieces[pieceId] > 0 && PIECE_DEFINITIONS[pieceId]).sort();
+    this.cellColumnCount = containerCells.length;
+    const columnCount = this.cellColumnCount + pieceIds.length;
+
+    // Enumerate every orientation at every anchor that fits inside the container
+    const rows: { pieceColumn: number; cellColumns: number[]; placement: SolverPlacement }[] = [];
+    pieceIds.forEach((pieceId, pieceIndex) => {
+      this.capacity.push(pieces[pieceId]);
+      this.used.push(0);
+
+      getPieceOrientations(pieceId).forEach(orientation => {
+        containerCells.forEach(anchor => {
+          const cells = orientation.cells.map(c => [c.x + anchor[0], c.y + anchor[1], c.z + anchor[2]]);
+          const cellColumns = cells.map(cell => cellIndex.get(cellKey(cell)));
+          if (cellColumns.some(column => column === undefined)) return;
+
+          rows.push({
+            pieceColumn: this.cellColumnCount + 1 + pieceIndex,
+            cellColumns: cellColumns as number[],
+            placement: { piece: pieceId, ori: orientation.ori, t: [...anchor], cells_ijk: cells }
+          });
+        });
+      });
+    });
+
+    const nodeCount = 1 + columnCount + rows.length * 5;
+    this.L = new Int32Array(nodeCount);
+    this.R = new Int32Array(nodeCount);
+    this.U = new Int32Array(nodeCount);
+    this.D = new Int32Array(nodeCount);
+    this.C = new Int32Array(nodeCount);
+    this.rowOfNode = new Int32Array(nodeCount).fill(-1);
+    this.size = new Int32Array(columnCount + 1);
+
+    // Headers: cell columns are linked into the root list, piece columns stay self-linked
+    for (let column = 0; column <= columnCount; column++) {
+      this.U[column] = column;
+      this.D[column] = column;
+      this.C[column] = column;
+      this.L[column] = column;
+      this.R[column] = column;
+    }
+    for (let column = 1; column <= this.cellColumnCount; column++) {
+      this.L[column] = column - 1;
+      this.R[column - 1] = column;
+      this.R[column] = 0;
+      this.L[0] = column;
+    }
+
+    let node = columnCount + 1;
+    rows.forEach((row, rowIndex) => {
+      this.rowPlacements.push(row.placement);
+      const first = node;
+      [row.pieceColumn, ...row.cellColumns].forEach(column => {
+        this.C[node] = column;
+        this.rowOfNode[node] = rowIndex;
+        this.U[node] = this.U[column];
+        this.D[node] = column;
+        this.D[this.U[column]] = node;
+        this.U[column] = node;
+        this.size[column]++;
+
+        this.L[node] = node === first ? node : node - 1;
+        this.R[node] = first;
+        this.R[this.L[node]] = node;
+        this.L[first] = node;
+        node++;
+      });
+    });
+
+    this.chosenColumns = new Int32Array(this.cellColumnCount + 1);
+    this.chosenRows = new Int32Array(this.cellColumnCount + 1);
+  }
+
+  private cover(column: number): void {
+    const { L, R, U, D, C, size } = this;
+    L[R[column]] = L[column];
+    R[L[column]] = R[column];
+    for (let i = D[column]; i !== column; i = D[i]) {
+      for (let j = R[i]; j !== i; j = R[j]) {
+        U[D[j]] = U[j];
+        D[U[j]] = D[j];
+        size[C[j]]--;
+      }
+    }
+  }
+
+  private uncover(column: number): void {
+    const { L, R, U, D, C, size } = this;
+    for (let i = U[column]; i !== column; i = U[i]) {
+      for (let j = L[i]; j !== i; j = L[j]) {
+        size[C[j]]++;
+        D[U[j]] = j;
+        U[D[j]] = j;
+      }
+    }
+    L[R[column]] = column;
+    R[L[column]] = column;
+  }
+
+  private selectRow(row: number): void {
+    for (let j = this.R[row]; j !== row; j = this.R[j]) {
+      const column = this.C[j];
+      if (column <= this.cellColumnCount) {
+        this.cover(column);
+      } else {
+        const piece = column - this.cellColumnCount - 1;
+        this.used[piece]++;
+        if (this.used[piece] === this.capacity[piece]) this.cover(column);
+      }
+    }
+  }
+
+  private unselectRow(row: number): void {
+    for (let j = this.L[row]; j !== row; j = this.L[j]) {
+      const column = this.C[j];
+      if (column <= this.cellColumnCount) {
+        this.uncover(column);
+      } else {
+        const piece = column - this.cellColumnCount - 1;
+        if (this.used[piece] === this.capacity[piece]) this.uncover(column);
+        this.used[piece]--;
+      }
+    }
+  }
+
+  /**
+   * Open cell column with the fewest candidate placements
+   */
+  private chooseColumn(): number {
+    let best = this.R[0];
+    for (let column = this.R[best]; column !== 0; column = this.R[column]) {
+      if (this.size[column] < this.size[best]) best = column;
+    }
+    return best;
+  }
+
+  /**
+   * Advance the search by up to `maxNodes` nodes; stops early at each solution
+   */
+  step(maxNodes: number): SearchStepResult {
+    if (this.exhausted) return 'exhausted';
+
+    const limit = this.nodes + maxNodes;
+    while (this.nodes < limit) {
+      if (this.phase === 'enter') {
+        if (this.R[0] === 0) {
+          this.solutions++;
+          this.phase = 'backtrack';
+          return 'solution';
+        }
+
+        const column = this.chooseColumn();
+        this.nodes++;
+        if (this.size[column] === 0) {
+          this.phase = 'backtrack';
+          continue;
+        }
+
+        this.cover(column);
+        this.chosenColumns[this.level] = column;
+        this.chosenRows[this.level] = this.D[column];
+        this.phase = 'try';
+      } else if (this.phase === 'try') {
+        const column = this.chosenColumns[this.level];
+        const row = this.chosenRows[this.level];
+        if (row === column) {
+          this.uncover(column);
+          this.phase = 'backtrack';
+          continue;
+        }
+
+        this.selectRow(row);
+        this.level++;
+        if (this.level > this.bestDepth) this.bestDepth = this.level;
+        this.phase = 'enter';
+      } else {
+        if (this.level === 0) {
+          this.exhausted = true;
+          return 'exhausted';
+        }
+
+        this.level--;
+        const row = this.chosenRows[this.level];
+        this.unselectRow(row);
+        this.chosenRows[this.level] = this.D[row];
+        this.phase = 'try';
+      }
+    }
+
+    return 'paused';
+  }
+
+  /**
+   * Placements of the solution just returned by step()
+   */
+  getSolution(): SolverPlacement[] {
+    const placements: SolverPlacement[] = [];
+    for (let level = 0; level < this.level; level++) {
+      placements.push(this.rowPlacements[this.rowOfNode[this.chosenRows[level]]]);
+    }
+    return placements;
+  }
+
+  getProgress(): SolverProgress {
+    return {
+      nodes: this.nodes,
+      solutions: this.solutions,
+      depth: this.level,
+      bestDepth: this.bestDepth,
+      rows: this.rowPlacements.length,
+      elapsedMs: Date.now() - this.startTime
+    };
+  }
+}
+
+/**
+ * Wrap solver placements in the standard solution file format
+ */
+export function buildSolutionFile(
+  placements: SolverPlacement[],
+  containerCid: string,
+  pieces: PieceSet
+): SolutionFile {
+  const piecesUsed: Record<string, number> = {};
+  placements.forEach(placement => {
+    piecesUsed[placement.piece] = (piecesUsed[placement.piece] || 0) + 1;
+  });
+
+  const sorted = [...placements].sort((a, b) => a.piece.localeCompare(b.piece));
+
+  return {
+    version: 1,
+    containerCidSha256: containerCid.replace(/^sha256:/, ''),
+    lattice: 'fcc',
+    piecesUsed,
+    placements: sorted.map(placement => ({
+      piece: placement.piece,
+      ori: placement.ori,
+      t: placement.t,
+      cells_ijk: placement.cells_ijk
+    })),
+    mode: 'solver',
+    solver: {
+      engine: 'dlx-web',
+      seed: 0,
+      flags: { mrvPieces: false, multiset: Object.keys(pieces).some(pieceId => pieces[pieceId] > 1) }
+    }
+  };
+}
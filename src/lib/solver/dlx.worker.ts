@@ -0,0 +1,102 @@
+// UI-only port; engines remain upstream.
+// Web Worker running the DLX search in time slices so cancel messages get through
+
+import { computeCID } from '../cid';
+import { ContainerV1 } from '../guards/containerV1';
+import { computeSolutionIDs } from '../sid';
+import {
+  ExactCoverSearch,
+  PieceSet,
+  SolverMessage,
+  SolverOptions,
+  SolverRequest,
+  buildSolutionFile,
+  checkPieceSetFits
+} from './dlx';
+
+const SLICE_MS = 50;        // Search time per slice before yielding to the message loop
+const SLICE_NODES = 2000;   // Nodes per step() call inside a slice
+
+// The parts of the dedicated worker scope used here; the app is type-checked against the DOM lib,
+// where `self` is a Window
+interface SolverWorkerScope {
+  postMessage(message: SolverMessage): void;
+  onmessage: ((event: MessageEvent<SolverRequest>) => void) | null;
+}
+
+const scope = self as unknown as SolverWorkerScope;
+
+let cancelled = false;
+
+const post = (message: SolverMessage) => scope.postMessage(message);
+
+const yieldToMessages = () => new Promise(resolve => setTimeout(resolve, 0));
+
+async function run(container: ContainerV1, pieces: PieceSet, options: SolverOptions): Promise<void> {
+  const cells = container.cells || container.coordinates || [];
+
+  const infeasible = checkPieceSetFits(cells, pieces);
+  if (infeasible) {
+    post({ type: 'done', reason: 'infeasible', progress: null, message: infeasible });
+    return;
+  }
+
+  const containerCid = container.cid || await computeCID(cells.map(([x, y, z]) => ({ x, y, z })));
+  const search = new ExactCoverSearch(cells, pieces);
+  const startTime = Date.now();
+  let found = 0;
+
+  post({ type: 'progress', progress: search.getProgress() });
+
+  while (true) {
+    const sliceEnd = Date.now() + SLICE_MS;
+
+    while (Date.now() < sliceEnd) {
+      const result = search.step(SLICE_NODES);
+
+      if (result === 'solution') {
+        // Route SID follows the search order, so hash before buildSolutionFile sorts by piece
+        const placements = search.getSolution();
+        const ids = await computeSolutionIDs(placements);
+        post({ type: 'solution', index: found, solution: { ...buildSolutionFile(placements, containerCid, pieces), ...ids } });
+        found++;
+        if (options.maxSolutions > 0 && found >= options.maxSolutions) {
+          post({ type: 'done', reason: 'max_solutions', progress: search.getProgress() });
+          return;
+        }
+      } else if (result === 'exhausted') {
+        post({ type: 'done', reason: 'exhausted', progress: search.getProgress() });
+        return;
+      }
+    }
+
+    post({ type: 'progress', progress: search.getProgress() });
+
+    if (options.timeBudgetMs > 0 && Date.now() - startTime >= options.timeBudgetMs) {
+      post({ type: 'done', reason: 'time_budget', progress: search.getProgress() });
+      return;
+    }
+
+    await yieldToMessages();
+    if (cancelled) {
+      post({ type: 'done', reason: 'cancelled', progress: search.getProgress() });
+      return;
+    }
+  }
+}
+
+scope.onmessage = (event: MessageEvent<SolverRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    cancelled = true;
+    return;
+  }
+
+  if (request.type === 'start') {
+    cancelled = false;
+    run(request.container, request.pieces, request.options).catch(err => {
+      post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+    });
+  }
+};
@@ -0,0 +1,218 @@
+// UI-only port; engines remain upstream.
+// Container feasibility pre-check: cheap invariants that rule out a tiling before any search
+
+import { FCCCoord } from '../coords/fcc';
+import { FCC_NEIGHBOR_OFFSETS } from '../coords/lattice';
+import { getPieceOrientations } from '../pieces/library';
+import { PieceSet, checkPieceSetFits } from './dlx';
+
+// Colouring DP gives up past this many partial colour-count states or state updates
+const MAX_COLOR_STATES = 100000;
+const MAX_COLOR_WORK = 5000000;
+
+export type ColorCounts = [number, number, number, number];
+
+export interface FeasibilityIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  cells?: FCCCoord[]; // Cells the issue is about, for highlighting
+}
+
+export interface FeasibilityReport {
+  cellCount: number;
+  componentSizes: number[];        // Largest first
+  isolatedCells: FCCCoord[];       // No neighbours at all
+  deadEndCells: FCCCoord[];        // Exactly one neighbour
+  colorCounts: ColorCounts;        // Cells on each of the 4 simple cubic sublattices
+  colorCheck: 'passed' | 'failed' | 'skipped';
+  issues: FeasibilityIssue[];
+  feasible: boolean;               // False when any issue is an error
+}
+
+const key = (c: FCCCoord) => `${c.x},${c.y},${c.z}`;
+const mod2 = (n: number) => ((n % 2) + 2) % 2;
+
+/**
+ * Sublattice (0-3) of a cell: the FCC lattice splits into 4 simple cubic lattices and
+ * the 12 neighbours of a cell are always on the other three
+ */
+export function cellColor(c: FCCCoord): number {
+  // Cartesian x = i + j, y = i + k; their parities pick the sublattice
+  return mod2(c.x + c.y) * 2 + mod2(c.x + c.z);
+}
+
+function countColors(cells: FCCCoord[]): ColorCounts {
+  const counts: ColorCounts = [0, 0, 0, 0];
+  cells.forEach(c => counts[cellColor(c)]++);
+  return counts;
+}
+
+/**
+ * Connected components under 12-neighbour adjacency
+ */
+export function findComponents(cells: FCCCoord[]): FCCCoord[][] {
+  const byKey = new Map(cells.map(c => [key(c), c]));
+  const seen = new Set<string>();
+  const components: FCCCoord[][] = [];
+
+  cells.forEach(start => {
+    if (seen.has(key(start))) return;
+    const component: FCCCoord[] = [];
+    const stack = [start];
+    seen.add(key(start));
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      component.push(cell);
+      FCC_NEIGHBOR_OFFSETS.forEach(([di, dj, dk]) => {
+        const neighbor = byKey.get(key({ x: cell.x + di, y: cell.y + dj, z: cell.z + dk }));
+        if (neighbor && !seen.has(key(neighbor))) {
+          seen.add(key(neighbor));
+          stack.push(neighbor);
+        }
+      });
+    }
+    components.push(component);
+  });
+
+  return components.sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Colour-count vectors a piece can cover: every orientation, shifted onto each sublattice
+ */
+function pieceColorVectors(pieceId: string): ColorCounts[] {
+  const vectors = new Map<string, ColorCounts>();
+  const shifts: FCCCoord[] = [{ x: 0, y: 0, z: 0 }, { x: 1, y: 0, z: 0 }, { x: 0, y: 1, z: 0 }, { x: 0, y: 0, z: 1 }];
+  getPieceOrientations(pieceId).forEach(orientation => {
+    shifts.forEach(shift => {
+      const counts = countColors(orientation.cells.map(c => ({ x: c.x + shift.x, y: c.y + shift.y, z: c.z + shift.z })));
+      vectors.set(counts.join(','), counts);
+    });
+  });
+  return Array.from(vectors.values());
+}
+
+/**
+ * Can some choice of piece copies (all of them when the set exactly fills the container)
+ * cover exactly the container's colour counts? null when the search grew too large.
+ */
+export function colorCountsReachable(target: ColorCounts, pieces: PieceSet): boolean | null {
+  const copies = Object.keys(pieces).flatMap(pieceId => Array(Math.max(0, pieces[pieceId])).fill(pieceId) as string[]);
+  const total = target.reduce((sum, count) => sum + count, 0);
+  const optional = copies.length * 4 > total;
+  const targetKey = target.join(',');
+  const vectorCache = new Map<string, ColorCounts[]>();
+
+  let states = new Map<string, ColorCounts>([['0,0,0,0', [0, 0, 0, 0]]]);
+  let work = 0;
+  for (let index = 0; index < copies.length; index++) {
+    const pieceId = copies[index];
+    if (!vectorCache.has(pieceId)) vectorCache.set(pieceId, pieceColorVectors(pieceId));
+    const vectors = vectorCache.get(pieceId)!;
+    // Cells the copies after this one can still cover
+    const remainingCells = (copies.length - index - 1) * 4;
+    const next = new Map<string, ColorCounts>();
+
+    for (const [stateKey, state] of states) {
+      const filled = state[0] + state[1] + state[2] + state[3];
+      if (optional && total - filled <= remainingCells) next.set(stateKey, state);
+
+      for (const vector of vectors) {
+        const sum = state.map((count, color) => count + vector[color]) as ColorCounts;
+        if (sum.some((count, color) => count > target[color])) continue;
+        if (total - filled - 4 > remainingCells) continue;
+        next.set(sum.join(','), sum);
+      }
+      work += vectors.length;
+    }
+
+    if (optional && next.has(targetKey)) return true;
+    if (next.size > MAX_COLOR_STATES || work > MAX_COLOR_WORK) return null;
+    states = next;
+  }
+
+  return states.has(targetKey);
+}
+
+/**
+ * Analyze a container for obvious reasons it cannot be tiled by the piece set
+ */
+export function analyzeFeasibility(cells: FCCCoord[], pieces: PieceSet): FeasibilityReport {
+  const issues: FeasibilityIssue[] = [];
+  const byKey = new Set(cells.map(key));
+  const neighborsOf = (c: FCCCoord) => FCC_NEIGHBOR_OFFSETS
+    .map(([di, dj, dk]) => ({ x: c.x + di, y: c.y + dj, z: c.z + dk }))
+    .filter(n => byKey.has(key(n)));
+
+  // Piece set size and cell count (same rules the solver applies)
+  const fits = checkPieceSetFits(cells.map(c => [c.x, c.y, c.z]), pieces);
+  if (fits) issues.push({ severity: 'error', message: fits });
+
+  // Every component is tiled on its own
+  const components = findComponents(cells);
+  if (components.length > 1) {
+    issues.push({ severity: 'warning', message: `Shape falls apart into ${components.length} separate parts` });
+  }
+  components.forEach(component => {
+    if (component.length % 4 !== 0) {
+      issues.push({
+        severity: 'error',
+        message: `A separate part has ${component.length} cells, which is not a multiple of 4`,
+        cells: component
+      });
+    }
+  });
+
+  // Isolated cells, dead ends, and hubs with more dead ends than a piece can hold
+  const isolatedCells = cells.filter(c => neighborsOf(c).length === 0);
+  const deadEndCells = cells.filter(c => neighborsOf(c).length === 1);
+  if (isolatedCells.length > 0) {
+    issues.push({ severity: 'error', message: `${isolatedCells.length} cell(s) touch no other cell`, cells: isolatedCells });
+  }
+  if (deadEndCells.length > 0) {
+    issues.push({ severity: 'warning', message: `${deadEndCells.length} dead-end cell(s) with a single neighbour`, cells: deadEndCells });
+  }
+
+  const leavesByHub = new Map<string, FCCCoord[]>();
+  deadEndCells.forEach(leaf => {
+    const hub = key(neighborsOf(leaf)[0]);
+    leavesByHub.set(hub, [...(leavesByHub.get(hub) || []), leaf]);
+  });
+  leavesByHub.forEach(leaves => {
+    // Each dead end shares a piece with its only neighbour, so one piece would need them all
+    if (leaves.length >= 4) {
+      issues.push({
+        severity: 'error',
+        message: `${leaves.length} dead ends hang off one cell; a four-ball piece can hold at most 3`,
+        cells: leaves
+      });
+    }
+  });
+
+  // Colouring invariant over the 4 sublattices
+  const colorCounts = countColors(cells);
+  let colorCheck: FeasibilityReport['colorCheck'] = 'skipped';
+  if (!fits) {
+    const reachable = colorCountsReachable(colorCounts, pieces);
+    if (reachable === false) {
+      colorCheck = 'failed';
+      issues.push({
+        severity: 'error',
+        message: `Sublattice counts ${colorCounts.join('/')} cannot be covered by any placement of these pieces`
+      });
+    } else if (reachable === true) {
+      colorCheck = 'passed';
+    }
+  }
+
+  return {
+    cellCount: cells.length,
+    componentSizes: components.map(component => component.length),
+    isolatedCells,
+    deadEndCells,
+    colorCounts,
+    colorCheck,
+    issues,
+    feasible: !issues.some(issue => issue.severity === 'error')
+  };
+}
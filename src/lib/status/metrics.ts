@@ -0,0 +1,100 @@
+// UI-only port; engines remain upstream.
+// Derived progress metrics for a history of status snapshots
+
+import { StatusSnapshot } from '../guards/statusV1';
+
+export interface StatusMetrics {
+  state: string;
+  progressPercent: number | null; // From progress_percent, else pieces_placed / total_pieces
+  nodesPerSecond: number | null;  // Rate between the last two snapshots, else average over the run
+  depth: number | null;           // current_depth, else pieces_placed
+  elapsedMs: number | null;
+  nodesExplored: number | null;
+  memoryMb: number | null;
+}
+
+export interface StatusHistoryPoint {
+  elapsedMs: number;
+  progressPercent: number | null;
+  nodesPerSecond: number | null;
+}
+
+/**
+ * Progress for one snapshot, clamped to 0..100
+ */
+export function snapshotProgress(snapshot: StatusSnapshot): number | null {
+  if (typeof snapshot.progress_percent === 'number') {
+    return Math.min(100, Math.max(0, snapshot.progress_percent));
+  }
+  if (typeof snapshot.pieces_placed === 'number' && snapshot.total_pieces) {
+    return Math.min(100, Math.max(0, (snapshot.pieces_placed / snapshot.total_pieces) * 100));
+  }
+  return null;
+}
+
+/**
+ * Elapsed time for a snapshot; falls back to the distance from the first snapshot's timestamp
+ */
+function snapshotElapsed(snapshot: StatusSnapshot, first: StatusSnapshot): number {
+  if (typeof snapshot.time_elapsed_ms === 'number') return snapshot.time_elapsed_ms;
+  return Date.parse(snapshot.timestamp) - Date.parse(first.timestamp);
+}
+
+function rateBetween(previous: StatusSnapshot | null, current: StatusSnapshot, first: StatusSnapshot): number | null {
+  if (typeof current.nodes_explored !== 'number') return null;
+
+  if (previous && typeof previous.nodes_explored === 'number') {
+    const dt = snapshotElapsed(current, first) - snapshotElapsed(previous, first);
+    if (dt > 0) return ((current.nodes_explored - previous.nodes_explored) / dt) * 1000;
+  }
+
+  const elapsed = snapshotElapsed(current, first);
+  return elapsed > 0 ? (current.nodes_explored / elapsed) * 1000 : null;
+}
+
+/**
+ * Metrics for the latest snapshot in `history` (oldest first)
+ */
+export function computeStatusMetrics(history: StatusSnapshot[]): StatusMetrics | null {
+  if (history.length === 0) return null;
+
+  const first = history[0];
+  const latest = history[history.length - 1];
+  const previous = history.length > 1 ? history[history.length - 2] : null;
+
+  return {
+    state: latest.solver_state,
+    progressPercent: snapshotProgress(latest),
+    nodesPerSecond: rateBetween(previous, latest, first),
+    depth: latest.current_depth ?? latest.pieces_placed ?? null,
+    elapsedMs: typeof latest.time_elapsed_ms === 'number' ? latest.time_elapsed_ms : snapshotElapsed(latest, first),
+    nodesExplored: latest.nodes_explored ?? null,
+    memoryMb: latest.memory_usage_mb ?? null
+  };
+}
+
+/**
+ * One chart point per snapshot
+ */
+export function buildStatusHistory(history: StatusSnapshot[]): StatusHistoryPoint[] {
+  if (history.length === 0) return [];
+
+  const first = history[0];
+  return history.map((snapshot, index) => ({
+    elapsedMs: snapshotElapsed(snapshot, first),
+    progressPercent: snapshotProgress(snapshot),
+    nodesPerSecond: rateBetween(index > 0 ? history[index - 1] : null, snapshot, first)
+  }));
+}
+
+/**
+ * Format milliseconds as h:mm:ss / m:ss
+ */
+export function formatElapsed(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${hours > 0 ? String(minutes).padStart(2, '0') : minutes}:${String(seconds).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
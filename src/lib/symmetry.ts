@@ -0,0 +1,117 @@
+// UI-only port; engines remain upstream.
+// Container symmetry: the lattice rotations that map a shape onto itself, and its mirror image
+
+import { FCCCoord } from './coords/fcc';
+import {
+  FCC_LATTICE_ROTATIONS,
+  FCC_LATTICE_REFLECTIONS,
+  LatticeMatrix,
+  applyLatticeMatrix,
+  toCartesianBasis
+} from './coords/lattice';
+import { computeCID } from './cid';
+
+export interface SymmetryRotation {
+  index: number;          // Index into FCC_LATTICE_ROTATIONS
+  matrix: LatticeMatrix;  // i,j,k matrix
+  angle: number;          // Degrees: 0, 90, 120 or 180
+  axis: number[];         // Cartesian axis, smallest integers, right-hand rule ([0, 0, 0] for the identity)
+}
+
+export interface ContainerSymmetry {
+  rotations: SymmetryRotation[];  // Rotations mapping the shape onto itself (up to translation)
+  order: number;                  // Size of the rotation group
+  groupName: string;              // Schoenflies name of the rotation group (C1, C2, C4, D2, ..., O)
+  reflections: number;            // Improper symmetries (mirrors) mapping the shape onto itself
+  chiral: boolean;                // True when no mirror maps the shape onto itself
+  mirrorCid: string;              // CID of the mirror image, shared by all its rotated and shifted copies (own CID when not chiral)
+}
+
+/**
+ * Sorted cell list translated so the minimum i, j and k are 0 (equal for translated copies)
+ */
+function shapeKey(coords: FCCCoord[]): string {
+  const min = {
+    x: Math.min(...coords.map(c => c.x)),
+    y: Math.min(...coords.map(c => c.y)),
+    z: Math.min(...coords.map(c => c.z))
+  };
+  return coords
+    .map(c => [c.x - min.x, c.y - min.y, c.z - min.z])
+    .sort((a, b) => a[0] - b[0] || a[1] - b[1] || a[2] - b[2])
+    .map(c => c.join(','))
+    .join(';');
+}
+
+const mapsOntoItself = (m: LatticeMatrix, coords: FCCCoord[], key: string) =>
+  shapeKey(coords.map(c => applyLatticeMatrix(m, c))) === key;
+
+const gcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : gcd(b, a % b));
+
+/**
+ * Reduce an integer vector to its smallest form; unsigned axes get a positive first component
+ */
+function reduceAxis(v: number[], signed: boolean): number[] {
+  const divisor = v.reduce((g, value) => gcd(g, value), 0) || 1;
+  const sign = signed ? 1 : Math.sign(v.find(value => value !== 0) || 1);
+  return v.map(value => (value / divisor) * sign + 0);
+}
+
+/**
+ * Angle and axis of a lattice rotation, read from its Cartesian form
+ */
+export function describeRotation(m: LatticeMatrix): { angle: number; axis: number[] } {
+  const c = toCartesianBasis(m);
+  const trace = c[0][0] + c[1][1] + c[2][2];
+  const angleByTrace: Record<number, number> = { 3: 0, 1: 90, 0: 120, [-1]: 180 };
+  const angle = angleByTrace[trace];
+
+  if (angle === 0) return { angle, axis: [0, 0, 0] };
+  if (angle === 180) {
+    // Any non-zero column of C + I lies along the axis (a half turn has no direction)
+    const column = [0, 1, 2]
+      .map(j => [0, 1, 2].map(i => c[i][j] + (i === j ? 1 : 0)))
+      .find(v => v.some(value => value !== 0))!;
+    return { angle, axis: reduceAxis(column, false) };
+  }
+  // Counter-clockwise turn about the axis (right-hand rule)
+  return { angle, axis: reduceAxis([c[2][1] - c[1][2], c[0][2] - c[2][0], c[1][0] - c[0][1]], true) };
+}
+
+/**
+ * Name the rotation group from its order (order 4 is C4 with a 90° turn, D2 otherwise)
+ */
+function rotationGroupName(rotations: SymmetryRotation[]): string {
+  const names: Record<number, string> = { 1: 'C1', 2: 'C2', 3: 'C3', 6: 'D3', 8: 'D4', 12: 'T', 24: 'O' };
+  if (rotations.length === 4) return rotations.some(r => r.angle === 90) ? 'C4' : 'D2';
+  return names[rotations.length] || `order ${rotations.length}`;
+}
+
+/**
+ * Analyze which of the 24 lattice rotations (and 24 mirrors) map the container onto itself
+ */
+export async function analyzeContainerSymmetry(coords: FCCCoord[]): Promise<ContainerSymmetry> {
+  if (coords.length === 0) {
+    return { rotations: [], order: 0, groupName: '', reflections: 0, chiral: false, mirrorCid: '' };
+  }
+
+  const key = shapeKey(coords);
+  const rotations: SymmetryRotation[] = FCC_LATTICE_ROTATIONS
+    .map((matrix, index) => ({ index, matrix, ...describeRotation(matrix) }))
+    .filter(rotation => mapsOntoItself(rotation.matrix, coords, key));
+  const reflections = FCC_LATTICE_REFLECTIONS.filter(m => mapsOntoItself(m, coords, key)).length;
+  const chiral = reflections === 0;
+
+  // FCC_LATTICE_REFLECTIONS[0] is the plain z -> -z mirror; every other mirror image is a rotation of it,
+  // and computeCID is rotation invariant, so any copy of the mirror image gets this CID
+  const mirrorCid = await computeCID(chiral ? coords.map(c => applyLatticeMatrix(FCC_LATTICE_REFLECTIONS[0], c)) : coords);
+
+  return {
+    rotations,
+    order: rotations.length,
+    groupName: rotationGroupName(rotations),
+    reflections,
+    chiral,
+    mirrorCid
+  };
+}
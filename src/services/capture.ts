@@ -0,0 +1,177 @@
+// UI-only port; engines remain upstream.
+// PNG snapshots (tiled, any size, optional transparency) and WebM recordings of a Three.js view
+
+import * as THREE from 'three';
+import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
+
+export interface CaptureTarget {
+  renderer: THREE.WebGLRenderer;
+  scene: THREE.Scene;
+  camera: THREE.PerspectiveCamera | THREE.OrthographicCamera;
+  controls?: OrbitControls;
+}
+
+export interface PNGCaptureOptions {
+  width: number;
+  height: number;
+  transparent: boolean;
+}
+
+export interface CanvasRecording {
+  stop: () => Promise<Blob>;
+}
+
+export const MAX_CAPTURE_SIZE = 8192; // Longest side; larger canvases fail in several mobile browsers
+const TILE_SIZE = 1024;
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Canvas could not be encoded'))), type);
+  });
+
+/**
+ * Render the current view to a PNG of any size: the camera is split into tiles with setViewOffset,
+ * each tile is drawn by the live renderer and copied out before the browser composites the frame
+ */
+export async function capturePNG(target: CaptureTarget, options: PNGCaptureOptions): Promise<Blob> {
+  const { renderer, scene, camera } = target;
+  const width = Math.max(1, Math.min(MAX_CAPTURE_SIZE, Math.round(options.width)));
+  const height = Math.max(1, Math.min(MAX_CAPTURE_SIZE, Math.round(options.height)));
+
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const context = output.getContext('2d');
+  if (!context) throw new Error('2D canvas is not available');
+
+  // Remember everything the capture changes
+  const size = renderer.getSize(new THREE.Vector2());
+  const pixelRatio = renderer.getPixelRatio();
+  const clearColor = renderer.getClearColor(new THREE.Color());
+  const clearAlpha = renderer.getClearAlpha();
+  const background = scene.background;
+  const saved = camera instanceof THREE.PerspectiveCamera
+    ? { aspect: camera.aspect }
+    : { left: camera.left, right: camera.right };
+
+  // Match the requested aspect ratio, keeping the vertical field of view
+  const aspect = width / height;
+  if (camera instanceof THREE.PerspectiveCamera) {
+    camera.aspect = aspect;
+  } else {
+    const halfHeight = (camera.top - camera.bottom) / 2;
+    const centerX = (camera.left + camera.right) / 2;
+    camera.left = centerX - halfHeight * aspect;
+    camera.right = centerX + halfHeight * aspect;
+  }
+
+  if (options.transparent) {
+    scene.background = null;
+    renderer.setClearColor(0x000000, 0);
+  }
+
+  try {
+    renderer.setPixelRatio(1);
+    for (let y = 0; y < height; y += TILE_SIZE) {
+      for (let x = 0; x < width; x += TILE_SIZE) {
+        const tileWidth = Math.min(TILE_SIZE, width - x);
+        const tileHeight = Math.min(TILE_SIZE, height - y);
+        renderer.setSize(tileWidth, tileHeight, false);
+        camera.setViewOffset(width, height, x, y, tileWidth, tileHeight);
+        renderer.render(scene, camera);
+        context.drawImage(renderer.domElement, 0, 0, tileWidth, tileHeight, x, y, tileWidth, tileHeight);
+      }
+    }
+  } finally {
+    camera.clearViewOffset();
+    Object.assign(camera, saved);
+    camera.updateProjectionMatrix();
+    scene.background = background;
+    renderer.setClearColor(clearColor, clearAlpha);
+    renderer.setPixelRatio(pixelRatio);
+    renderer.setSize(size.x, size.y, false);
+    renderer.render(scene, camera);
+  }
+
+  console.log(`📸 CAPTURE: ${width}×${height} PNG${options.transparent ? ' (transparent)' : ''}`);
+  return canvasToBlob(output, 'image/png');
+}
+
+/**
+ * Best WebM codec this browser can record, or null when recording is not supported
+ */
+export function getVideoMimeType(): string | null {
+  if (typeof MediaRecorder === 'undefined' || !('captureStream' in HTMLCanvasElement.prototype)) return null;
+  const candidates = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+  return candidates.find(type => MediaRecorder.isTypeSupported(type)) || null;
+}
+
+/**
+ * Record whatever the canvas shows until stop() is called
+ */
+export function startCanvasRecording(canvas: HTMLCanvasElement, fps = 30): CanvasRecording {
+  const mimeType = getVideoMimeType();
+  if (!mimeType) throw new Error('Video recording is not supported in this browser');
+
+  const stream = canvas.captureStream(fps);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  recorder.start(250);
+  console.log(`🎬 RECORD: Started ${mimeType} at ${fps} fps`);
+
+  return {
+    stop: () => new Promise(resolve => {
+      recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        console.log(`🎬 RECORD: Stopped, ${chunks.length} chunks`);
+        resolve(new Blob(chunks, { type: 'video/webm' }));
+      };
+      recorder.stop();
+    })
+  };
+}
+
+/**
+ * One full turn of the camera around the orbit target, recorded as WebM.
+ * onProgress gets 0..1; the camera returns to where it started.
+ */
+export async function recordTurntable(
+  target: CaptureTarget,
+  durationMs: number,
+  onProgress?: (fraction: number) => void
+): Promise<Blob> {
+  const { camera, controls } = target;
+  const center = controls ? controls.target.clone() : new THREE.Vector3();
+  const start = camera.position.clone();
+  const offset = start.clone().sub(center);
+  const axis = new THREE.Vector3(0, 1, 0);
+  const controlsEnabled = controls?.enabled ?? true;
+  if (controls) controls.enabled = false;
+
+  const recording = startCanvasRecording(target.renderer.domElement);
+  const startTime = performance.now();
+
+  await new Promise<void>(resolve => {
+    const tick = () => {
+      const t = Math.min(1, (performance.now() - startTime) / durationMs);
+      camera.position.copy(center).add(offset.clone().applyAxisAngle(axis, t * Math.PI * 2));
+      camera.lookAt(center);
+      onProgress?.(t);
+      if (t < 1) {
+        requestAnimationFrame(tick);
+      } else {
+        resolve();
+      }
+    };
+    requestAnimationFrame(tick);
+  });
+
+  const blob = await recording.stop();
+  camera.position.copy(start);
+  camera.lookAt(center);
+  if (controls) controls.enabled = controlsEnabled;
+  return blob;
+}
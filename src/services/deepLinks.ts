@@ -0,0 +1,213 @@
+// UI-only port; engines remain upstream.
+// Shareable hash-route links: library shapes by CID, small shapes embedded in the URL, library solutions by file, optional view state
+
+import { FCCCoord } from '../lib/coords/fcc';
+
+export interface CameraView {
+  position: [number, number, number];
+  target: [number, number, number];   // Orbit controls target
+  zoom: number;                        // Orthographic zoom; 1 for perspective cameras
+}
+
+export interface LinkView {
+  camera?: CameraView;
+  lens?: { orthographic: boolean; focalLength: number };
+  color?: string;                       // Shapes: material colour
+  visiblePieceCount?: number;           // Solutions
+  pieceColors?: Record<string, string>; // Solutions: colours that differ from the defaults
+}
+
+export interface ShareLink {
+  url: string;
+  description: string; // What the link points at, shown under the URL
+}
+
+export const MAX_EMBEDDED_CELLS_LENGTH = 1500; // Encoded characters; keeps links usable in chat apps and QR codes
+
+const CELLS_FORMAT_VERSION = 1;
+const COLOR_PATTERN = /^[0-9a-f]{6}$/i;
+
+// Signed integers as unsigned varints (0, -1, 1, -2 ... -> 0, 1, 2, 3 ...)
+const zigzag = (value: number) => (value >= 0 ? value * 2 : -value * 2 - 1);
+const unzigzag = (value: number) => (value % 2 === 0 ? value / 2 : -(value + 1) / 2);
+
+const writeVarint = (bytes: number[], value: number) => {
+  while (value > 0x7f) {
+    bytes.push((value & 0x7f) | 0x80);
+    value = Math.floor(value / 128);
+  }
+  bytes.push(value);
+};
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string): Uint8Array =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+
+/**
+ * Cells as URL-safe text: version, bounding-box origin and size, then one occupancy bit per lattice point in the box.
+ * Returns null when the result would be longer than MAX_EMBEDDED_CELLS_LENGTH.
+ */
+export function encodeCells(cells: FCCCoord[]): string | null {
+  if (cells.length === 0) return null;
+
+  const min = [Math.min(...cells.map(c => c.x)), Math.min(...cells.map(c => c.y)), Math.min(...cells.map(c => c.z))];
+  const size = [
+    Math.max(...cells.map(c => c.x)) - min[0] + 1,
+    Math.max(...cells.map(c => c.y)) - min[1] + 1,
+    Math.max(...cells.map(c => c.z)) - min[2] + 1
+  ];
+  const volume = size[0] * size[1] * size[2];
+  // Base64 turns 3 bytes into 4 characters
+  if (Math.ceil(volume / 8) * 4 / 3 > MAX_EMBEDDED_CELLS_LENGTH) return null;
+
+  const header: number[] = [CELLS_FORMAT_VERSION];
+  min.forEach(value => writeVarint(header, zigzag(value)));
+  size.forEach(value => writeVarint(header, value));
+
+  const bits = new Uint8Array(Math.ceil(volume / 8));
+  cells.forEach(cell => {
+    const index = ((cell.x - min[0]) * size[1] + (cell.y - min[1])) * size[2] + (cell.z - min[2]);
+    bits[index >> 3] |= 1 << (index & 7);
+  });
+
+  const bytes = new Uint8Array(header.length + bits.length);
+  bytes.set(header);
+  bytes.set(bits, header.length);
+  const encoded = toBase64Url(bytes);
+  return encoded.length <= MAX_EMBEDDED_CELLS_LENGTH ? encoded : null;
+}
+
+/**
+ * Cells from encodeCells text, or null when the text is malformed
+ */
+export function decodeCells(text: string): FCCCoord[] | null {
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64Url(text);
+  } catch (err) {
+    return null;
+  }
+
+  let offset = 0;
+  const readVarint = (): number | null => {
+    let value = 0;
+    let scale = 1;
+    while (offset < bytes.length) {
+      const byte = bytes[offset++];
+      value += (byte & 0x7f) * scale;
+      if (!(byte & 0x80)) return value;
+      scale *= 128;
+      if (scale > 2 ** 28) return null;
+    }
+    return null;
+  };
+
+  if (bytes[offset++] !== CELLS_FORMAT_VERSION) return null;
+  const header = [readVarint(), readVarint(), readVarint(), readVarint(), readVarint(), readVarint()];
+  if (header.some(value => value === null)) return null;
+  const min = header.slice(0, 3).map(value => unzigzag(value!));
+  const size = header.slice(3).map(value => value!);
+  const volume = size[0] * size[1] * size[2];
+  if (volume === 0 || bytes.length - offset !== Math.ceil(volume / 8)) return null;
+
+  const cells: FCCCoord[] = [];
+  for (let index = 0; index < volume; index++) {
+    if (bytes[offset + (index >> 3)] & (1 << (index & 7))) {
+      cells.push({
+        x: min[0] + Math.floor(index / (size[1] * size[2])),
+        y: min[1] + Math.floor(index / size[2]) % size[1],
+        z: min[2] + index % size[2]
+      });
+    }
+  }
+  return cells.length > 0 ? cells : null;
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * View state as query parameters (cam, lens, color, n, colors); only the fields that are set
+ */
+export function viewToParams(view: LinkView, params = new URLSearchParams()): URLSearchParams {
+  if (view.camera) {
+    const values = [...view.camera.position, ...view.camera.target].map(round);
+    if (view.camera.zoom !== 1) values.push(round(view.camera.zoom));
+    params.set('cam', values.join('_'));
+  }
+  if (view.lens) {
+    params.set('lens', view.lens.orthographic ? 'ortho' : String(view.lens.focalLength));
+  }
+  if (view.color) {
+    params.set('color', view.color.replace('#', ''));
+  }
+  if (view.visiblePieceCount !== undefined) {
+    params.set('n', String(view.visiblePieceCount));
+  }
+  if (view.pieceColors && Object.keys(view.pieceColors).length > 0) {
+    params.set('colors', Object.entries(view.pieceColors).map(([piece, color]) => `${piece}.${color.replace('#', '')}`).join('_'));
+  }
+  return params;
+}
+
+/**
+ * View state from query parameters; malformed values are ignored
+ */
+export function paramsToView(params: URLSearchParams): LinkView {
+  const view: LinkView = {};
+
+  const cam = (params.get('cam') || '').split('_').map(Number);
+  if ((cam.length === 6 || cam.length === 7) && cam.every(Number.isFinite)) {
+    view.camera = {
+      position: [cam[0], cam[1], cam[2]],
+      target: [cam[3], cam[4], cam[5]],
+      zoom: cam.length === 7 && cam[6] > 0 ? cam[6] : 1
+    };
+  }
+
+  const lens = params.get('lens');
+  if (lens === 'ortho') {
+    view.lens = { orthographic: true, focalLength: 50 };
+  } else if (lens && Number(lens) > 0) {
+    view.lens = { orthographic: false, focalLength: Number(lens) };
+  }
+
+  const color = params.get('color');
+  if (color && COLOR_PATTERN.test(color)) {
+    view.color = `#${color}`;
+  }
+
+  const count = Number(params.get('n'));
+  if (params.has('n') && Number.isInteger(count) && count >= 0) {
+    view.visiblePieceCount = count;
+  }
+
+  const colors = params.get('colors');
+  if (colors) {
+    const pieceColors: Record<string, string> = {};
+    colors.split('_').forEach(entry => {
+      const [piece, hex] = entry.split('.');
+      if (piece && hex && COLOR_PATTERN.test(hex)) pieceColors[piece] = `#${hex}`;
+    });
+    if (Object.keys(pieceColors).length > 0) view.pieceColors = pieceColors;
+  }
+
+  return view;
+}
+
+export const hasLinkView = (view: LinkView): boolean => Object.keys(view).length > 0;
+
+/** Route of a library container, by its sha256 CID */
+export const shapeRoute = (cid: string): string => `/shape/${cid.replace(/^sha256:/, '')}`;
+
+/** Route of a library solution, by file name */
+export const solutionRoute = (file: string): string => `/solution/${encodeURIComponent(file)}`;
+
+/**
+ * Absolute link to a hash route of this app
+ */
+export function shareURL(route: string, params: URLSearchParams = new URLSearchParams()): string {
+  const query = params.toString();
+  return `${window.location.origin}${window.location.pathname}#${route}${query ? `?${query}` : ''}`;
+}
@@ -0,0 +1,50 @@
+// UI-only port; engines remain upstream.
+// STL, OBJ and glTF/GLB export of ball models built by lib/geometry/exportModel
+
+import * as THREE from 'three';
+import { STLExporter } from 'three/addons/exporters/STLExporter.js';
+import { OBJExporter } from 'three/addons/exporters/OBJExporter.js';
+import { GLTFExporter } from 'three/addons/exporters/GLTFExporter.js';
+import { saveBlobFile } from './files';
+
+export type ExportFormat = 'stl' | 'obj' | 'gltf' | 'glb';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mime: string }> = {
+  stl: { label: 'STL (binary, for slicers)', extension: '.stl', mime: 'model/stl' },
+  obj: { label: 'OBJ', extension: '.obj', mime: 'model/obj' },
+  gltf: { label: 'glTF (JSON)', extension: '.gltf', mime: 'model/gltf+json' },
+  glb: { label: 'GLB (binary glTF)', extension: '.glb', mime: 'model/gltf-binary' }
+};
+
+/**
+ * Serialize a model to the given format
+ */
+export async function exportModelBlob(model: THREE.Object3D, format: ExportFormat): Promise<Blob> {
+  model.updateMatrixWorld(true);
+  const { mime } = EXPORT_FORMATS[format];
+
+  switch (format) {
+    case 'stl': {
+      const data = new STLExporter().parse(model, { binary: true }) as DataView;
+      return new Blob([data.buffer as ArrayBuffer], { type: mime });
+    }
+    case 'obj':
+      return new Blob([new OBJExporter().parse(model)], { type: mime });
+    case 'gltf':
+    case 'glb': {
+      const binary = format === 'glb';
+      const data = await new GLTFExporter().parseAsync(model, { binary });
+      return new Blob([binary ? data as ArrayBuffer : JSON.stringify(data)], { type: mime });
+    }
+  }
+}
+
+/**
+ * Export a model and save it as <baseName>.<extension>
+ */
+export async function saveModelFile(model: THREE.Object3D, format: ExportFormat, baseName: string): Promise<void> {
+  const { label, extension, mime } = EXPORT_FORMATS[format];
+  const blob = await exportModelBlob(model, format);
+  console.log(`📦 EXPORT: ${baseName}${extension} (${(blob.size / 1024).toFixed(0)} KB)`);
+  await saveBlobFile(blob, `${baseName}${extension}`, label, { [mime]: [extension] });
+}
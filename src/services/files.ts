@@ -64,22 +64,29 @@ export async function loadJSONFile(): Promise<any> {
  */
 export async function saveJSONFile(data: any, suggestedName: string = 'container.fcc.json'): Promise<void> {
   const jsonString = JSON.stringify(data, null, 2);
-  
+  const blob = new Blob([jsonString], { type: 'application/json' });
+  await saveBlobFile(blob, suggestedName, 'FCC Container files', { 'application/json': ['.json', '.fcc.json'] });
+}
+
+/**
+ * Save any file contents using File System Access API or download fallback
+ */
+export async function saveBlobFile(
+  blob: Blob,
+  suggestedName: string,
+  description: string,
+  accept: Record<string, string[]>
+): Promise<void> {
   // Try File System Access API first (modern browsers)
   if ('showSaveFilePicker' in window) {
     try {
       const fileHandle = await (window as any).showSaveFilePicker({
         suggestedName,
-        types: [{
-          description: 'FCC Container files',
-          accept: {
-            'application/json': ['.json', '.fcc.json']
-          }
-        }]
+        types: [{ description, accept }]
       });
       
       const writable = await fileHandle.createWritable();
-      await writable.write(jsonString);
+      await writable.write(blob);
       await writable.close();
       return;
     } catch (error) {
@@ -91,7 +98,6 @@ export async function saveJSONFile(data: any, suggestedName: string = 'container
   }
   
   // Fallback to download
-  const blob = new Blob([jsonString], { type: 'application/json' });
   const url = URL.createObjectURL(blob);
   
   const a = document.createElement('a');
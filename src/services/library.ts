@@ -6,6 +6,8 @@ export interface LibraryItem {
   size: number | null;
   url: string;
   updated: string;
+  hash?: string; // SHA-256 of the file bytes ("sha256:<hex>"), changes whenever the file does
+  sid?: string; // Solutions only: canonical solution ID, equal for rotated copies (src/lib/sid.ts)
 }
 
 export interface LibraryManifest {
@@ -17,14 +19,36 @@ const LIBRARY_BASE_URL = (window.location.hostname === 'localhost' || window.loc
   ? window.location.origin // Local development server (localhost or local IP)
   : window.location.origin; // Production GitHub Pages (koospuzzle.com)
 
+export const LIBRARY_MANIFEST_URL = `${LIBRARY_BASE_URL}/content/index.json`;
+
+/**
+ * URL of a library file, versioned by the hash of its bytes when the manifest has one.
+ * The service worker keeps versioned files cache-first, so an edited file gets a new URL and is fetched again.
+ */
+export function libraryFileURL(item: LibraryItem): string {
+  const version = item.hash ? item.hash.replace(/^sha256:/, '').substring(0, 16) : '';
+  return `${LIBRARY_BASE_URL}${item.url}${version ? `?v=${version}` : ''}`;
+}
+
+/**
+ * URL of a library solution by file name (keyed through the manifest when it can be read)
+ */
+export async function librarySolutionURL(filename: string): Promise<string> {
+  try {
+    const item = getSolutionsFromManifest(await fetchLibraryManifest()).find(solution => solution.name === filename);
+    if (item) return libraryFileURL(item);
+  } catch (err) {
+    console.warn('📚 LIBRARY: Manifest unavailable, fetching solution by name:', err);
+  }
+  return `${LIBRARY_BASE_URL}/content/solutions/${filename}`;
+}
+
 /**
  * Fetch the library manifest from GitHub Pages
  */
 export async function fetchLibraryManifest(): Promise<LibraryItem[]> {
-  const url = `${LIBRARY_BASE_URL}/content/index.json`;
-  
   try {
-    const response = await fetch(url);
+    const response = await fetch(LIBRARY_MANIFEST_URL);
     
     if (!response.ok) {
       throw new Error(`Failed to fetch library: ${response.status}`);
@@ -45,7 +69,7 @@ export async function fetchLibraryManifest(): Promise<LibraryItem[]> {
  */
 export async function fetchLibraryContainer(item: LibraryItem): Promise<any> {
   try {
-    const response = await fetch(`${LIBRARY_BASE_URL}${item.url}`);
+    const response = await fetch(libraryFileURL(item));
     if (!response.ok) {
       throw new Error(`Failed to fetch container: ${response.status} ${response.statusText}`);
     }
@@ -98,3 +122,175 @@ export function sortContainers(containers: LibraryItem[], sortBy: 'name' | 'size
     }
   });
 }
+
+/**
+ * Normalize a CID to the "sha256:<hex>" form used by the manifest
+ * (solution files store the bare hex digest in containerCidSha256)
+ */
+export function normalizeCID(cid: string): string {
+  if (!cid) return '';
+  const trimmed = cid.trim().toLowerCase();
+  return trimmed.startsWith('sha256:') ? trimmed : `sha256:${trimmed}`;
+}
+
+/**
+ * Find a container in the manifest by CID
+ */
+export function findContainerByCID(items: LibraryItem[], cid: string): LibraryItem | undefined {
+  const target = normalizeCID(cid);
+  if (!target) return undefined;
+  return getContainersFromManifest(items).find(item => item.cid && normalizeCID(item.cid) === target);
+}
+
+/**
+ * Get solutions only from the library manifest
+ */
+export function getSolutionsFromManifest(items: LibraryItem[]): LibraryItem[] {
+  return items.filter(item => item.type === 'solution');
+}
+
+/**
+ * Container name a solution file belongs to, from its filename
+ * (e.g. "Shape_10.result1.json", "Shape_1__sol-001.json" -> "Shape_10", "Shape_1")
+ */
+export function getSolutionContainerName(item: LibraryItem): string {
+  return item.name.split(/\.|__/)[0] || item.name;
+}
+
+export interface SolutionGroup {
+  key: string;
+  label: string;
+  container?: LibraryItem; // Library container with the same CID, when there is one
+  solutions: LibraryItem[];
+}
+
+/**
+ * Group solutions by container CID (labelled with the matching container when known) or by container name
+ */
+export function groupSolutions(solutions: LibraryItem[], items: LibraryItem[], groupBy: 'cid' | 'name'): SolutionGroup[] {
+  const groups = new Map<string, SolutionGroup>();
+
+  solutions.forEach(solution => {
+    const cid = normalizeCID(solution.cid);
+    const key = groupBy === 'cid' && cid ? cid : getSolutionContainerName(solution);
+
+    if (!groups.has(key)) {
+      const container = cid ? findContainerByCID(items, cid) : undefined;
+      const label = groupBy === 'cid' && container
+        ? container.name.replace('.fcc.json', '')
+        : getSolutionContainerName(solution);
+      groups.set(key, { key, label, container, solutions: [] });
+    }
+    groups.get(key)!.solutions.push(solution);
+  });
+
+  return Array.from(groups.values()).sort((a, b) => a.label.localeCompare(b.label, undefined, { numeric: true }));
+}
+
+/**
+ * Keep the first solution per canonical SID; duplicates maps each kept URL to the copies it hides
+ */
+export function collapseDuplicateSolutions(solutions: LibraryItem[]): { solutions: LibraryItem[]; duplicates: Map<string, LibraryItem[]> } {
+  const firstBySid = new Map<string, LibraryItem>();
+  const duplicates = new Map<string, LibraryItem[]>();
+  const kept: LibraryItem[] = [];
+
+  solutions.forEach(solution => {
+    const first = solution.sid ? firstBySid.get(solution.sid) : undefined;
+    if (!first) {
+      if (solution.sid) firstBySid.set(solution.sid, solution);
+      kept.push(solution);
+      return;
+    }
+    if (!duplicates.has(first.url)) duplicates.set(first.url, []);
+    duplicates.get(first.url)!.push(solution);
+  });
+
+  return { solutions: kept, duplicates };
+}
+
+export interface CIDIndex {
+  containersByCid: Map<string, LibraryItem[]>;
+  solutionsByCid: Map<string, LibraryItem[]>;
+  containersByName: Map<string, LibraryItem[]>; // Container name key (filename without .fcc.json)
+  solutionsByName: Map<string, LibraryItem[]>;  // Container name key taken from the solution filename
+}
+
+export interface CIDMatch<T> {
+  result: T;
+  matchedBy: 'cid' | 'name' | null; // How the link was made; name is the fallback when CIDs disagree
+}
+
+// "16 cell container" and "16_cell_container" name the same container
+const containerNameKey = (name: string): string =>
+  name.replace('.fcc.json', '').trim().toLowerCase().replace(/[\s_-]+/g, '_');
+
+const addToIndex = (map: Map<string, LibraryItem[]>, key: string, item: LibraryItem) => {
+  if (!key) return;
+  if (!map.has(key)) map.set(key, []);
+  map.get(key)!.push(item);
+};
+
+/**
+ * Index manifest containers and solutions by normalized CID and by container name
+ */
+export function buildCIDIndex(items: LibraryItem[]): CIDIndex {
+  const index: CIDIndex = {
+    containersByCid: new Map(),
+    solutionsByCid: new Map(),
+    containersByName: new Map(),
+    solutionsByName: new Map()
+  };
+
+  getContainersFromManifest(items).forEach(item => {
+    addToIndex(index.containersByCid, normalizeCID(item.cid), item);
+    addToIndex(index.containersByName, containerNameKey(item.name), item);
+  });
+  getSolutionsFromManifest(items).forEach(item => {
+    addToIndex(index.solutionsByCid, normalizeCID(item.cid), item);
+    addToIndex(index.solutionsByName, containerNameKey(getSolutionContainerName(item)), item);
+  });
+
+  return index;
+}
+
+let cidIndexPromise: Promise<CIDIndex> | null = null;
+
+/**
+ * CID index over the library manifest (fetched once per session)
+ */
+export function fetchCIDIndex(): Promise<CIDIndex> {
+  if (!cidIndexPromise) {
+    cidIndexPromise = fetchLibraryManifest().then(buildCIDIndex);
+    cidIndexPromise.catch(() => {
+      cidIndexPromise = null; // Retry on next call
+    });
+  }
+  return cidIndexPromise;
+}
+
+/**
+ * Solutions for a container: same container CID, else solutions named after the container
+ */
+export function findSolutionsForContainer(index: CIDIndex, cid: string, containerName: string): CIDMatch<LibraryItem[]> {
+  const byCid = index.solutionsByCid.get(normalizeCID(cid));
+  if (byCid && byCid.length > 0) return { result: byCid, matchedBy: 'cid' };
+
+  const byName = index.solutionsByName.get(containerNameKey(containerName));
+  if (byName && byName.length > 0) return { result: byName, matchedBy: 'name' };
+
+  return { result: [], matchedBy: null };
+}
+
+/**
+ * Container for a solution: same CID, else the container the solution filename is named after
+ */
+export function findContainerForSolution(index: CIDIndex, containerCid: string, solutionName: string): CIDMatch<LibraryItem | undefined> {
+  const byCid = index.containersByCid.get(normalizeCID(containerCid));
+  if (byCid && byCid.length > 0) return { result: byCid[0], matchedBy: 'cid' };
+
+  const byName = index.containersByName.get(containerNameKey(solutionName.split(/\.|__/)[0]));
+  if (byName && byName.length > 0) return { result: byName[0], matchedBy: 'name' };
+
+  return { result: undefined, matchedBy: null };
+}
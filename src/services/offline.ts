@@ -0,0 +1,114 @@
+// UI-only port; engines remain upstream.
+// Offline copy of the hosted library: manifest, containers, solutions and HDR environments in the service worker's caches
+
+import { LibraryItem, LIBRARY_MANIFEST_URL, fetchLibraryManifest, libraryFileURL } from './library';
+import { HDR_ENVIRONMENTS } from '../lib/materials/pbrPresets';
+
+// Same cache names as the runtime caching rules in vite.config.js
+const MANIFEST_CACHE = 'library-manifest';
+const FILES_CACHE = 'library-files';
+const HDRI_CACHE = 'hdri';
+
+const DOWNLOAD_CONCURRENCY = 4;
+
+export interface OfflineStatus {
+  cachedFiles: number;  // Library files and HDRs already cached
+  totalFiles: number;
+  usage: number | null; // Bytes stored by this site (all storage), when the browser reports it
+  quota: number | null;
+}
+
+export const offlineCachingSupported = (): boolean => typeof caches !== 'undefined';
+
+const absolute = (url: string) => new URL(url, window.location.href).href;
+
+const isLibraryFile = (item: LibraryItem) => item.type === 'container' || item.type === 'solution' || item.type === 'partial';
+
+/**
+ * Every file an offline session needs, with the cache it belongs in
+ */
+async function offlineFiles(): Promise<{ url: string; cache: string }[]> {
+  const items = await fetchLibraryManifest();
+  const hdris = Array.from(new Set(Object.values(HDR_ENVIRONMENTS).flatMap(env => [env.lowResPath, env.highResPath])));
+  return [
+    ...items.filter(isLibraryFile).map(item => ({ url: absolute(libraryFileURL(item)), cache: FILES_CACHE })),
+    ...hdris.map(path => ({ url: absolute(path), cache: HDRI_CACHE }))
+  ];
+}
+
+async function cachedURLs(): Promise<Set<string>> {
+  const urls = new Set<string>();
+  for (const name of [FILES_CACHE, HDRI_CACHE]) {
+    const requests = await (await caches.open(name)).keys();
+    requests.forEach(request => urls.add(request.url));
+  }
+  return urls;
+}
+
+export async function getOfflineStatus(): Promise<OfflineStatus> {
+  const [files, cached] = await Promise.all([offlineFiles(), cachedURLs()]);
+  const estimate = navigator.storage?.estimate ? await navigator.storage.estimate() : null;
+  return {
+    cachedFiles: files.filter(file => cached.has(file.url)).length,
+    totalFiles: files.length,
+    usage: estimate?.usage ?? null,
+    quota: estimate?.quota ?? null
+  };
+}
+
+/**
+ * Cache the manifest and every file not cached yet; returns how many files failed to download
+ */
+export async function downloadLibraryForOffline(onProgress: (done: number, total: number) => void): Promise<number> {
+  await (await caches.open(MANIFEST_CACHE)).add(LIBRARY_MANIFEST_URL);
+
+  const files = await offlineFiles();
+  const cached = await cachedURLs();
+  const missing = files.filter(file => !cached.has(file.url));
+
+  // Drop copies of earlier versions of library files; an edited file is cached under its new hash
+  const current = new Set(files.map(file => file.url));
+  const filesCache = await caches.open(FILES_CACHE);
+  for (const request of await filesCache.keys()) {
+    if (new URL(request.url).searchParams.has('v') && !current.has(request.url)) await filesCache.delete(request);
+  }
+
+  let done = 0;
+  let failed = 0;
+  onProgress(0, missing.length);
+
+  const queue = [...missing];
+  const worker = async () => {
+    for (let file = queue.shift(); file; file = queue.shift()) {
+      try {
+        await (await caches.open(file.cache)).add(file.url);
+      } catch (err) {
+        failed++;
+        console.warn(`📶 OFFLINE: Could not cache ${file.url}:`, err);
+      }
+      onProgress(++done, missing.length);
+    }
+  };
+  await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker));
+
+  // Keep the copy when the browser runs short of space
+  if (navigator.storage?.persist) {
+    await navigator.storage.persist().catch(() => false);
+  }
+  console.log(`📶 OFFLINE: Cached ${missing.length - failed} of ${missing.length} missing files`);
+  return failed;
+}
+
+/**
+ * Drop the offline copy; files are cached again as they are opened
+ */
+export async function removeOfflineLibrary(): Promise<void> {
+  await Promise.all([MANIFEST_CACHE, FILES_CACHE, HDRI_CACHE].map(name => caches.delete(name)));
+  console.log('📶 OFFLINE: Removed offline library');
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
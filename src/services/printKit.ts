@@ -0,0 +1,237 @@
+// UI-only port; engines remain upstream.
+// Workshop print kit for a solution: one STL or 3MF per piece, bill of materials and assembly sheet, zipped in the browser
+
+import * as THREE from 'three';
+import { STLExporter } from 'three/addons/exporters/STLExporter.js';
+import { mergeVertices } from 'three/addons/utils/BufferGeometryUtils.js';
+import { zipSync, strToU8 } from 'three/addons/libs/fflate.module.js';
+import { ModelOptions, buildPieceMesh, placementCells, disposeModel } from '../lib/geometry/exportModel';
+import { findTouchingPlacements } from '../lib/pieces/contacts';
+import { SolutionFile } from '../types/solution';
+import { saveBlobFile } from './files';
+
+export type PieceFileFormat = 'stl' | '3mf';
+
+export interface BillOfMaterialsRow {
+  piece: string;
+  color: string;
+  count: number; // Copies from piecesUsed
+  balls: number; // Balls across all copies
+}
+
+export interface BuildStep {
+  step: number;           // 1-based position in build order
+  placementIndex: number;
+  piece: string;
+  color: string;
+  cells: number[][];      // Engine i,j,k cells
+  restsOn: string[];      // Pieces placed earlier that this one touches
+  fileName: string;       // Piece model inside the kit
+}
+
+const safeName = (name: string) => name.replace(/\.json$/i, '').replace(/[^\w.-]+/g, '_') || 'solution';
+
+/**
+ * Bill of materials from piecesUsed (falling back to counting placements), sorted by piece ID
+ */
+export function billOfMaterials(solution: SolutionFile, pieceColors: Record<string, string>): BillOfMaterialsRow[] {
+  const counted: Record<string, number> = {};
+  solution.placements.forEach(placement => {
+    counted[placement.piece] = (counted[placement.piece] || 0) + 1;
+  });
+  const used = solution.piecesUsed && Object.keys(solution.piecesUsed).length > 0 ? solution.piecesUsed : counted;
+
+  return Object.keys(used)
+    .filter(piece => used[piece] > 0)
+    .sort()
+    .map(piece => ({
+      piece,
+      color: pieceColors[piece] || '#888888',
+      count: used[piece],
+      balls: used[piece] * 4
+    }));
+}
+
+export function billOfMaterialsCSV(rows: BillOfMaterialsRow[]): string {
+  return ['piece,color,count,balls', ...rows.map(row => `${row.piece},${row.color},${row.count},${row.balls}`)].join('\n') + '\n';
+}
+
+/**
+ * Placements in build order with the earlier pieces each one rests against
+ */
+export function buildSteps(solution: SolutionFile, order: number[], pieceColors: Record<string, string>, format: PieceFileFormat): BuildStep[] {
+  const placements = solution.placements.map(placement => ({
+    piece: placement.piece,
+    cells_ijk: placementCells(placement).map(c => [c.x, c.y, c.z])
+  }));
+  // Any placement missing from the order (e.g. hidden by replay) goes last, in file order
+  const fullOrder = [...order.filter(index => placements[index]), ...placements.map((_, index) => index).filter(index => !order.includes(index))];
+  const digits = String(fullOrder.length).length;
+
+  return fullOrder.map((placementIndex, position) => {
+    const earlier = new Set(fullOrder.slice(0, position));
+    const piece = placements[placementIndex].piece;
+    return {
+      step: position + 1,
+      placementIndex,
+      piece,
+      color: pieceColors[piece] || '#888888',
+      cells: placements[placementIndex].cells_ijk,
+      restsOn: findTouchingPlacements(placements, placementIndex)
+        .filter(other => earlier.has(other))
+        .map(other => placements[other].piece),
+      fileName: `pieces/${String(position + 1).padStart(digits, '0')}_${piece}.${format}`
+    };
+  });
+}
+
+/**
+ * Printable HTML assembly sheet: bill of materials, then one row per piece in build order
+ */
+export function assemblySheetHTML(name: string, rows: BillOfMaterialsRow[], steps: BuildStep[]): string {
+  const escape = (text: string) => text.replace(/[&<>"]/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[char]!));
+  const swatch = (color: string) => `<span class="swatch" style="background:${escape(color)}"></span>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Assembly sheet – ${escape(name)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 24px; color: #222; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 24px 0 8px; }
+  table { border-collapse: collapse; width: 100%; font-size: 13px; }
+  th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; vertical-align: top; }
+  th { background: #f3f3f3; }
+  tr { page-break-inside: avoid; }
+  .swatch { display: inline-block; width: 12px; height: 12px; border: 1px solid #999; border-radius: 50%; margin-right: 6px; vertical-align: middle; }
+  .mono { font-family: monospace; }
+  .muted { color: #666; font-size: 12px; }
+</style>
+</head>
+<body>
+<h1>${escape(name)}</h1>
+<div class="muted">${steps.length} pieces · ${steps.length * 4} balls · generated ${new Date().toISOString().split('T')[0]}</div>
+
+<h2>Bill of materials</h2>
+<table>
+<tr><th>Piece</th><th>Colour</th><th>Count</th><th>Balls</th></tr>
+${rows.map(row => `<tr><td>${escape(row.piece)}</td><td>${swatch(row.color)}<span class="mono">${escape(row.color)}</span></td><td>${row.count}</td><td>${row.balls}</td></tr>`).join('\n')}
+</table>
+
+<h2>Build order (bottom to top)</h2>
+<table>
+<tr><th>Step</th><th>Piece</th><th>Rests against</th><th>Cells (i,j,k)</th><th>File</th></tr>
+${steps.map(step => `<tr><td>${step.step}</td><td>${swatch(step.color)}${escape(step.piece)}</td><td>${step.restsOn.length > 0 ? escape(step.restsOn.join(', ')) : '<span class="muted">first layer</span>'}</td><td class="mono">${step.cells.map(cell => cell.join(',')).join(' ')}</td><td class="mono">${escape(step.fileName)}</td></tr>`).join('\n')}
+</table>
+</body>
+</html>
+`;
+}
+
+/**
+ * A single-object 3MF package (millimetres, one base material in the piece colour)
+ */
+export function meshTo3MF(mesh: THREE.Mesh, color: string): Uint8Array {
+  // Weld the sphere seams so the slicer sees closed shells
+  const source = mesh.geometry.clone();
+  source.deleteAttribute('normal');
+  source.deleteAttribute('uv');
+  const geometry = mergeVertices(source);
+  source.dispose();
+
+  const position = geometry.getAttribute('position');
+  const index = geometry.getIndex()!;
+  const vertices: string[] = [];
+  for (let i = 0; i < position.count; i++) {
+    vertices.push(`<vertex x="${position.getX(i).toFixed(4)}" y="${position.getY(i).toFixed(4)}" z="${position.getZ(i).toFixed(4)}"/>`);
+  }
+  const triangles: string[] = [];
+  for (let i = 0; i < index.count; i += 3) {
+    triangles.push(`<triangle v1="${index.getX(i)}" v2="${index.getX(i + 1)}" v3="${index.getX(i + 2)}"/>`);
+  }
+  geometry.dispose();
+
+  const displayColor = `${new THREE.Color(color).getHexString().toUpperCase()}FF`;
+  const model = `<?xml version="1.0" encoding="UTF-8"?>
+<model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">
+<resources>
+<basematerials id="1"><base name="${mesh.name}" displaycolor="#${displayColor}"/></basematerials>
+<object id="2" type="model" pid="1" pindex="0" name="${mesh.name}">
+<mesh>
+<vertices>${vertices.join('')}</vertices>
+<triangles>${triangles.join('')}</triangles>
+</mesh>
+</object>
+</resources>
+<build><item objectid="2"/></build>
+</model>
+`;
+
+  return zipSync({
+    '[Content_Types].xml': strToU8('<?xml version="1.0" encoding="UTF-8"?>\n<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/></Types>\n'),
+    '_rels/.rels': strToU8('<?xml version="1.0" encoding="UTF-8"?>\n<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/></Relationships>\n'),
+    '3D/3dmodel.model': strToU8(model)
+  });
+}
+
+/**
+ * Zip of every piece model, bom.csv, bom.json and assembly.html
+ */
+export function buildPrintKit(
+  solution: SolutionFile,
+  name: string,
+  order: number[],
+  pieceColors: Record<string, string>,
+  options: ModelOptions,
+  format: PieceFileFormat
+): Uint8Array {
+  const rows = billOfMaterials(solution, pieceColors);
+  const steps = buildSteps(solution, order, pieceColors, format);
+  const files: Record<string, Uint8Array> = {};
+
+  steps.forEach(step => {
+    const mesh = buildPieceMesh(step.piece, step.cells.map(([x, y, z]) => ({ x, y, z })), options, step.color);
+    files[step.fileName] = format === 'stl'
+      ? new Uint8Array((new STLExporter().parse(mesh, { binary: true }) as DataView).buffer)
+      : meshTo3MF(mesh, step.color);
+    disposeModel(mesh);
+  });
+
+  files['bom.csv'] = strToU8(billOfMaterialsCSV(rows));
+  files['bom.json'] = strToU8(JSON.stringify({ solution: name, pieces: rows }, null, 2));
+  files['assembly.html'] = strToU8(assemblySheetHTML(name, rows, steps));
+
+  const folder = safeName(name);
+  return zipSync(Object.fromEntries(Object.entries(files).map(([path, data]) => [`${folder}/${path}`, data])));
+}
+
+/**
+ * Build the kit and save it as <solution>.print-kit.zip
+ */
+export async function savePrintKit(
+  solution: SolutionFile,
+  name: string,
+  order: number[],
+  pieceColors: Record<string, string>,
+  options: ModelOptions,
+  format: PieceFileFormat
+): Promise<void> {
+  const zip = buildPrintKit(solution, name, order, pieceColors, options, format);
+  console.log(`🖨️ PRINT KIT: ${solution.placements.length} ${format.toUpperCase()} pieces, ${(zip.length / 1024).toFixed(0)} KB`);
+  await saveBlobFile(new Blob([zip.slice()], { type: 'application/zip' }), `${safeName(name)}.print-kit.zip`, 'Print kit', { 'application/zip': ['.zip'] });
+}
+
+/**
+ * Open the assembly sheet in a new window and bring up the print dialog
+ */
+export function printAssemblySheet(solution: SolutionFile, name: string, order: number[], pieceColors: Record<string, string>, format: PieceFileFormat): boolean {
+  const sheet = window.open('', '_blank');
+  if (!sheet) return false;
+  sheet.document.write(assemblySheetHTML(name, billOfMaterials(solution, pieceColors), buildSteps(solution, order, pieceColors, format)));
+  sheet.document.close();
+  sheet.focus();
+  sheet.print();
+  return true;
+}
@@ -0,0 +1,85 @@
+// UI-only port; engines remain upstream.
+// Starts the in-browser DLX solver worker and forwards its messages
+
+import { ContainerV1 } from '../lib/guards/containerV1';
+import { PieceSet, SolverFinishReason, SolverMessage, SolverOptions, SolverProgress } from '../lib/solver/dlx';
+import { SolutionFile } from '../types/solution';
+
+export interface SolverHandlers {
+  onProgress?: (progress: SolverProgress) => void;
+  onSolution?: (solution: SolutionFile, index: number) => void;
+  onDone?: (reason: SolverFinishReason, progress: SolverProgress | null, message?: string) => void;
+  onError?: (message: string) => void;
+}
+
+export interface SolverHandle {
+  cancel: () => void;    // Ask the worker to stop after its current slice
+  terminate: () => void; // Stop immediately (e.g. on unmount); no further callbacks
+}
+
+export const DEFAULT_SOLVER_OPTIONS: SolverOptions = {
+  maxSolutions: 1,
+  timeBudgetMs: 60000
+};
+
+/**
+ * Solve a container with the given piece set in a Web Worker
+ */
+export function startSolver(
+  container: ContainerV1,
+  pieces: PieceSet,
+  options: SolverOptions,
+  handlers: SolverHandlers
+): SolverHandle {
+  const worker = new Worker(new URL('../lib/solver/dlx.worker.ts', import.meta.url), { type: 'module' });
+  let finished = false;
+
+  const finish = () => {
+    finished = true;
+    worker.terminate();
+  };
+
+  worker.onmessage = (event: MessageEvent<SolverMessage>) => {
+    if (finished) return;
+    const message = event.data;
+
+    switch (message.type) {
+      case 'progress':
+        handlers.onProgress?.(message.progress);
+        break;
+      case 'solution':
+        console.log(`🧩 SOLVER: Solution ${message.index + 1} found`);
+        handlers.onSolution?.(message.solution, message.index);
+        break;
+      case 'done':
+        console.log(`🧩 SOLVER: Finished (${message.reason})`, message.progress);
+        finish();
+        handlers.onDone?.(message.reason, message.progress, message.message);
+        break;
+      case 'error':
+        console.error('🧩 SOLVER: Worker error:', message.message);
+        finish();
+        handlers.onError?.(message.message);
+        break;
+    }
+  };
+
+  worker.onerror = (event: ErrorEvent) => {
+    if (finished) return;
+    console.error('🧩 SOLVER: Worker crashed:', event.message);
+    finish();
+    handlers.onError?.(event.message || 'Solver worker failed');
+  };
+
+  console.log(`🧩 SOLVER: Starting (${(container.cells || []).length} cells)`, pieces, options);
+  worker.postMessage({ type: 'start', container, pieces, options });
+
+  return {
+    cancel: () => {
+      if (!finished) worker.postMessage({ type: 'cancel' });
+    },
+    terminate: () => {
+      if (!finished) finish();
+    }
+  };
+}
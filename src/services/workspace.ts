@@ -0,0 +1,127 @@
+// UI-only port; engines remain upstream.
+// Private workspace in IndexedDB: the user's own containers, solutions and partials with thumbnails, never uploaded
+
+import { CaptureTarget, capturePNG } from './capture';
+
+export type WorkspaceItemType = 'container' | 'solution' | 'partial';
+
+export interface WorkspaceItem {
+  id: string;
+  type: WorkspaceItemType;
+  name: string;
+  data: any;         // Container v1 or solution file, as it would be saved to disk
+  cid: string;       // Container CID (solutions: their container's)
+  size: number;      // Cells for containers, placements for solutions and partials
+  thumbnail: string; // PNG data URL, empty when the view could not be captured
+  created: string;   // ISO timestamps
+  updated: string;
+}
+
+export type WorkspaceSave = Pick<WorkspaceItem, 'type' | 'name' | 'data' | 'cid' | 'size' | 'thumbnail'>;
+
+const DB_NAME = 'koospuzzle-workspace';
+const DB_VERSION = 1;
+const STORE = 'items';
+const THUMBNAIL_SIZE = { width: 160, height: 120 };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+function openWorkspace(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('This browser has no IndexedDB, so the workspace is unavailable'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('type', 'type');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('Workspace is open in an older tab; close it and try again'));
+    });
+    dbPromise.catch(() => {
+      dbPromise = null; // Retry on next call
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openWorkspace();
+  return requestResult(run(db.transaction(STORE, mode).objectStore(STORE)));
+}
+
+/**
+ * Items of the given types, most recently updated first
+ */
+export async function listWorkspaceItems(types: WorkspaceItemType[]): Promise<WorkspaceItem[]> {
+  const items = await withStore<WorkspaceItem[]>('readonly', store => store.getAll());
+  return items
+    .filter(item => types.includes(item.type))
+    .sort((a, b) => b.updated.localeCompare(a.updated));
+}
+
+/**
+ * Named save: an item of the same type and name is replaced (keeping its creation time), otherwise a new one is added
+ */
+export async function saveWorkspaceItem(save: WorkspaceSave): Promise<WorkspaceItem> {
+  const existing = (await listWorkspaceItems([save.type])).find(item => item.name === save.name);
+  const now = new Date().toISOString();
+  const item: WorkspaceItem = {
+    ...save,
+    id: existing ? existing.id : `${save.type}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    created: existing ? existing.created : now,
+    updated: now
+  };
+  await withStore('readwrite', store => store.put(item));
+
+  // Ask once for storage the browser will not evict under pressure
+  if (!existing && navigator.storage?.persist) {
+    navigator.storage.persist().catch(() => undefined);
+  }
+  console.log(`💾 WORKSPACE: ${existing ? 'Replaced' : 'Saved'} ${item.type} "${item.name}"`);
+  return item;
+}
+
+export async function renameWorkspaceItem(id: string, name: string): Promise<void> {
+  const item = await withStore<WorkspaceItem | undefined>('readonly', store => store.get(id));
+  if (!item) throw new Error('This item is no longer in the workspace');
+  if ((await listWorkspaceItems([item.type])).some(other => other.id !== id && other.name === name)) {
+    throw new Error(`Another ${item.type} is already called "${name}"`);
+  }
+  await withStore('readwrite', store => store.put({ ...item, name, updated: new Date().toISOString() }));
+  console.log(`💾 WORKSPACE: Renamed "${item.name}" to "${name}"`);
+}
+
+export async function deleteWorkspaceItem(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+  console.log(`💾 WORKSPACE: Deleted ${id}`);
+}
+
+/**
+ * Small PNG of the current 3D view for the workspace list ('' when there is no view)
+ */
+export async function captureThumbnail(target: CaptureTarget | null): Promise<string> {
+  if (!target) return '';
+  try {
+    const blob = await capturePNG(target, { ...THUMBNAIL_SIZE, transparent: false });
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  } catch (err) {
+    console.warn('💾 WORKSPACE: Thumbnail capture failed:', err);
+    return '';
+  }
+}
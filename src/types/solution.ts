@@ -1,8 +1,6 @@
 // Solution Data Types
 // Types for solution file format and rendering
 
-import { FCCCoord } from '../lib/coords/fcc';
-
 // Solution file format (standardized ijk-only format)
 export interface SolutionFile {
   version: number;
@@ -25,8 +23,8 @@ export interface SolutionFile {
 export interface SolutionPlacement {
   piece: string; // Piece ID (A, B, C, ...)
   ori: number;   // Orientation
-  t: FCCCoord;   // Translation
-  cells_ijk: FCCCoord[]; // 4 cells forming the tetromino
+  t: number[];   // Translation [i, j, k]
+  cells_ijk: number[][]; // 4 cells [i, j, k] forming the tetromino
 }
 
 // Piece rendering data
@@ -34,7 +32,9 @@ export interface PieceRenderData {
   id: string;
   color: string;
   visible: boolean;
-  cells: FCCCoord[];
+  cells: number[][]; // Engine [i, j, k] cells
+  highlighted?: boolean; // Flagged placement (e.g. failed validation)
+  placementIndex?: number; // Index into solution.placements
 }
 
 // Solution settings for UI
@@ -102,7 +102,7 @@ export const DEFAULT_PIECE_COLORS: Record<string, string> = {
 };
 
 // Generate default solution settings
-export function createDefaultSolutionSettings(piecesUsed: Record<string, boolean>): SolutionSettings {
+export function createDefaultSolutionSettings(piecesUsed: SolutionFile['piecesUsed']): SolutionSettings {
   return {
     pieceColors: Object.keys(piecesUsed).reduce((colors, piece) => {
       colors[piece] = DEFAULT_PIECE_COLORS[piece] || '#888888';
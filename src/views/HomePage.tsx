@@ -58,6 +58,24 @@ export default function HomePage() {
         >
           View Solution
         </Link>
+        
+        <Link 
+          to="/status-monitor" 
+          style={{
+            display: 'block',
+            padding: '1rem 2rem',
+            backgroundColor: '#6c757d',
+            color: 'white',
+            textDecoration: 'none',
+            borderRadius: '8px',
+            fontSize: '1.1rem',
+            fontWeight: 'bold',
+            width: '100%',
+            boxSizing: 'border-box'
+          }}
+        >
+          Status Monitor
+        </Link>
       </div>
     </div>
   );
@@ -1,34 +1,82 @@
 // Placeholder notice removed—page now functional.
-import React, { useState, useEffect, useRef } from 'react';
-import { Link } from 'react-router-dom';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Link, useNavigate, useLocation, useParams } from 'react-router-dom';
 import * as THREE from 'three';
 import ShapeEditor3D, { ShapeEditor3DRef } from '../components/shape/ShapeEditor3D';
 import ShapeToolbar from '../components/shape/ShapeToolbar';
 import LibraryBrowser from '../components/shape/LibraryBrowser';
 import SettingsModal, { AppSettings } from '../components/shape/SettingsModal';
+import SolverPanel from '../components/shape/SolverPanel';
+import ContainerSolutionsPanel from '../components/shape/ContainerSolutionsPanel';
+import ContainerSymmetryPanel from '../components/shape/ContainerSymmetryPanel';
+import FeasibilityPanel from '../components/shape/FeasibilityPanel';
+import Export3DDialog from '../components/export/Export3DDialog';
+import CaptureDialog from '../components/export/CaptureDialog';
+import ShareLinkDialog from '../components/export/ShareLinkDialog';
+import ShapeTransformPanel from '../components/shape/ShapeTransformPanel';
+import SelectionPanel from '../components/shape/SelectionPanel';
+import ShapeGeneratorDialog from '../components/shape/ShapeGeneratorDialog';
 import { FCCCoord, fccToWorld } from '../lib/coords/fcc';
-import { computeShortCID } from '../lib/cid';
+import { ShapeTransform, IDENTITY_TRANSFORM, applyShapeTransform, isIdentityTransform } from '../lib/coords/transform';
+import {
+  CellOffset,
+  cellKey,
+  selectConnectedLayer,
+  deleteCells,
+  duplicateCells,
+  moveCells,
+  findMoveCollisions,
+  offsetCells
+} from '../lib/coords/selection';
+import { computeCID, computeShortCID, verifyCID, CIDCheck } from '../lib/cid';
 import { saveJSONFile } from '../services/files';
 import { validateContainerV1, containerToV1Format } from '../lib/guards/containerV1';
+import { buildContainerModel } from '../lib/geometry/exportModel';
 import { analyzeConvexHull, calculateOptimalCameraPosition } from '../lib/geometry/hull';
 import { PBRIntegrationService } from '../services/pbrIntegration';
+import { SolutionFile } from '../types/solution';
+import { LibraryItem, fetchCIDIndex, fetchLibraryContainer, normalizeCID } from '../services/library';
+import { saveWorkspaceItem, captureThumbnail } from '../services/workspace';
+import { CameraView, ShareLink, encodeCells, decodeCells, paramsToView, viewToParams, shapeRoute, shareURL } from '../services/deepLinks';
 
 export default function PuzzleShapePage() {
   // Removed excessive logging to prevent console spam
   
   const [coordinates, setCoordinates] = useState<FCCCoord[]>([]);
   const [coordinatesHistory, setCoordinatesHistory] = useState<FCCCoord[][]>([]);
-  const [editMode, setEditMode] = useState<'add' | 'delete'>('add');
+  const [editMode, setEditMode] = useState<'add' | 'delete' | 'select'>('add');
   const [editingEnabled, setEditingEnabled] = useState(false);
   const [currentCID, setCurrentCID] = useState<string>('');
   const [originalCID, setOriginalCID] = useState<string>('');
+  const [containerFileCID, setContainerFileCID] = useState<string>(''); // Full CID stored in the loaded container
+  const [cidCheck, setCidCheck] = useState<CIDCheck | null>(null); // Stored CID vs recomputed, for the loaded file
   const [containerName, setContainerName] = useState<string>('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string>('');
   const [showLibraryBrowser, setShowLibraryBrowser] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [showSolver, setShowSolver] = useState(false);
+  const [showSolutions, setShowSolutions] = useState(false);
+  const [showSymmetry, setShowSymmetry] = useState(false);
+  const [showFeasibility, setShowFeasibility] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showCapture, setShowCapture] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+  const [showTransform, setShowTransform] = useState(false);
+  const [showGenerator, setShowGenerator] = useState(false);
+  const [pendingTransform, setPendingTransform] = useState<ShapeTransform>(IDENTITY_TRANSFORM);
+  const [selectedCells, setSelectedCells] = useState<FCCCoord[]>([]);
+  const [selectTool, setSelectTool] = useState<'tap' | 'box'>('tap');
+  const [selectionOffset, setSelectionOffset] = useState<CellOffset>([0, 0, 0]);
   const [needsAutoOrient, setNeedsAutoOrient] = useState(false);
   
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { cid: linkCID } = useParams();
+  
+  // Camera from a share link, applied once the linked shape has been auto-oriented
+  const pendingViewRef = useRef<CameraView | null>(null);
+  
   // Ref to access ShapeEditor3D for center & orient functionality
   const shapeEditorRef = useRef<ShapeEditor3DRef>(null);
   // Load settings from localStorage or use defaults
@@ -104,6 +152,89 @@ export default function PuzzleShapePage() {
     setCoordinates(newCoordinates);
   };
 
+  // Pending whole-shape transform, shown as a ghost until applied
+  const transformPreview = useMemo(
+    () => (showTransform && !isIdentityTransform(pendingTransform) ? applyShapeTransform(coordinates, pendingTransform) : null),
+    [showTransform, pendingTransform, coordinates]
+  );
+
+  // Selection limited to cells that still exist (edits and undo can remove selected cells)
+  const liveSelection = useMemo(() => {
+    const keys = new Set(coordinates.map(cellKey));
+    return selectedCells.filter(cell => keys.has(cellKey(cell)));
+  }, [selectedCells, coordinates]);
+
+  const selecting = editingEnabled && editMode === 'select';
+
+  // Ghost of where a duplicate or move would put the selected cells
+  const selectionPreview = useMemo(
+    () => (selecting && liveSelection.length > 0 && selectionOffset.some(step => step !== 0)
+      ? offsetCells(liveSelection, selectionOffset)
+      : null),
+    [selecting, liveSelection, selectionOffset]
+  );
+
+  // Bulk edits are one undo step each; duplicated and moved cells stay selected for the next step
+  const handleDeleteSelection = () => {
+    console.log(`▢ SELECT: Deleting ${liveSelection.length} cells`);
+    handleCoordinatesChange(deleteCells(coordinates, liveSelection));
+    setSelectedCells([]);
+  };
+
+  const handleDuplicateSelection = () => {
+    console.log(`▢ SELECT: Duplicating ${liveSelection.length} cells by (${selectionOffset.join(',')})`);
+    handleCoordinatesChange(duplicateCells(coordinates, liveSelection, selectionOffset));
+    setSelectedCells(offsetCells(liveSelection, selectionOffset));
+  };
+
+  // Filled cells outside the selection in the way of a move; the move is blocked while there are any
+  const moveCollisions = useMemo(
+    () => (selectionPreview ? findMoveCollisions(coordinates, liveSelection, selectionOffset) : []),
+    [selectionPreview, coordinates, liveSelection, selectionOffset]
+  );
+
+  const handleMoveSelection = () => {
+    const moved = moveCells(coordinates, liveSelection, selectionOffset);
+    if (!moved) {
+      console.log(`▢ SELECT: Move by (${selectionOffset.join(',')}) blocked, ${moveCollisions.length} target cells are filled`);
+      return;
+    }
+    console.log(`▢ SELECT: Moving ${liveSelection.length} cells by (${selectionOffset.join(',')})`);
+    handleCoordinatesChange(moved);
+    setSelectedCells(offsetCells(liveSelection, selectionOffset));
+  };
+
+  // Layers follow the on-screen up direction, so use the displayed world height of each cell
+  const handleSelectLayer = () => {
+    const records = shapeEditorRef.current?.getCellRecords() || [];
+    const heights = new Map(records.map(record => [cellKey(record.engineCoord), record.worldCoord.y]));
+    const layer = selectConnectedLayer(coordinates, liveSelection, cell => heights.get(cellKey(cell)) ?? fccToWorld(cell).y);
+    console.log(`▢ SELECT: Connected layer has ${layer.length} cells`);
+    setSelectedCells(layer);
+  };
+
+  // Problem cells from the feasibility check become the selection, ready to delete or inspect
+  const handleSelectProblemCells = (cells: FCCCoord[]) => {
+    console.log(`🧪 FEASIBILITY: Selecting ${cells.length} problem cells`);
+    setSelectedCells(cells);
+    setEditMode('select');
+    setEditingEnabled(true);
+    setShowFeasibility(false);
+  };
+
+  // Apply the pending transform as one undoable step
+  const handleApplyTransform = () => {
+    if (!transformPreview) return;
+    console.log(`⟲ TRANSFORM: mirror=${pendingTransform.mirror || 'none'} rotation=R${pendingTransform.rotation} offset=(${pendingTransform.offset.join(',')})`);
+    handleCoordinatesChange(transformPreview);
+    setPendingTransform(IDENTITY_TRANSFORM);
+  };
+
+  const handleCloseTransform = () => {
+    setShowTransform(false);
+    setPendingTransform(IDENTITY_TRANSFORM);
+  };
+
   // Undo function
   const handleUndo = () => {
     if (coordinatesHistory.length > 0) {
@@ -133,6 +264,7 @@ export default function PuzzleShapePage() {
           setCoordinates(state.coordinates);
           setContainerName(state.containerName || 'Restored Container');
           setOriginalCID(state.originalCID || '');
+          setContainerFileCID(state.containerFileCID || '');
         }
       } catch (err) {
         console.error('Failed to restore state:', err);
@@ -224,6 +356,11 @@ export default function PuzzleShapePage() {
               
               // Mark that we've successfully loaded at least once
               (window as any).hasLoadedBefore = true;
+              
+              if (pendingViewRef.current) {
+                shapeEditorRef.current.setCameraView(pendingViewRef.current);
+                pendingViewRef.current = null;
+              }
             } catch (err) {
               console.warn('🎯 AUTO-ORIENT: Auto-orient failed:', err);
             }
@@ -247,11 +384,12 @@ export default function PuzzleShapePage() {
       const state = {
         coordinates,
         containerName,
-        originalCID
+        originalCID,
+        containerFileCID
       };
       sessionStorage.setItem('puzzleShapeState', JSON.stringify(state));
     }
-  }, [coordinates, containerName, originalCID]);
+  }, [coordinates, containerName, originalCID, containerFileCID]);
 
 
   const handleSave = async () => {
@@ -271,15 +409,14 @@ export default function PuzzleShapePage() {
       const coordsArray = coordinates.map(coord => [coord.x, coord.y, coord.z]);
       console.log(`💾 SAVE: Engine coordinates:`, coordsArray);
       
-      // Generate proper full CID from current coordinates
-      const fullCID = await computeShortCID(coordinates);
-      const properCID = `sha256:${fullCID}${'0'.repeat(64 - fullCID.length)}`;
-      console.log(`💾 SAVE: Generated CID: ${properCID}`);
+      // Full content address of the current cells
+      const fullCID = await computeCID(coordinates);
+      console.log(`💾 SAVE: Generated CID: ${fullCID}`);
       
       const container = containerToV1Format(
         coordsArray,
         containerName || 'Untitled Container',
-        properCID,
+        fullCID,
         {
           name: 'Mobile Shape Editor',
           date: new Date().toISOString().split('T')[0],
@@ -297,10 +434,12 @@ export default function PuzzleShapePage() {
       await saveJSONFile(container, filename);
       
       // Update original CID after successful save
-      setOriginalCID(currentCID);
+      setOriginalCID(fullCID.substring(7, 15));
+      setContainerFileCID(fullCID);
+      setCidCheck({ status: 'match', stored: fullCID, computed: fullCID });
       
       console.log('💾 SAVE: File saved successfully!');
-      console.log(`💾 SAVE: Updated original CID to: ${currentCID}`);
+      console.log(`💾 SAVE: Updated original CID to: ${fullCID.substring(7, 15)}`);
       
     } catch (err) {
       setError(`Save failed: ${(err as Error).message}`);
@@ -309,6 +448,35 @@ export default function PuzzleShapePage() {
     }
   };
 
+  // Named save to the on-device workspace, with a thumbnail of the current view
+  const handleSaveToWorkspace = async (name: string) => {
+    const fullCID = await computeCID(coordinates);
+    const container = containerToV1Format(
+      coordinates.map(coord => [coord.x, coord.y, coord.z]),
+      name,
+      fullCID,
+      {
+        name: 'Mobile Shape Editor',
+        date: new Date().toISOString().split('T')[0],
+        email: 'user@koospuzzle.com'
+      }
+    );
+    await saveWorkspaceItem({
+      type: 'container',
+      name,
+      data: container,
+      cid: fullCID,
+      size: coordinates.length,
+      thumbnail: await captureThumbnail(shapeEditorRef.current?.getCaptureTarget() || null)
+    });
+
+    // Same as a file save: the saved cells become the unedited state
+    setContainerName(name);
+    setOriginalCID(fullCID.substring(7, 15));
+    setContainerFileCID(fullCID);
+    setCidCheck({ status: 'match', stored: fullCID, computed: fullCID });
+  };
+
   const handleBrowseLibrary = () => {
     setShowLibraryBrowser(true);
   };
@@ -384,6 +552,8 @@ export default function PuzzleShapePage() {
     setContainerName('');
     setCurrentCID('');
     setOriginalCID('');
+    setContainerFileCID('');
+    setCidCheck(null);
     setError('');
     setLoading(false); // Ensure loading state is cleared
     
@@ -421,12 +591,15 @@ export default function PuzzleShapePage() {
     
     console.log('📦 CONTAINER LOAD: Container data loaded, coordinates set');
     
-    // Set original CID for comparison
-    if (validContainer.cid) {
-      const shortOriginalCID = validContainer.cid.substring(7, 15);
-      setOriginalCID(shortOriginalCID);
+    // Verify the stored CID; edits are then tracked against the recomputed one
+    const check = await verifyCID(fccCoords, validContainer.cid);
+    setCidCheck(check);
+    setOriginalCID(check.computed.substring(7, 15));
+    setContainerFileCID(validContainer.cid || '');
+    if (check.status === 'match') {
+      console.log(`📦 CONTAINER LOAD: Stored CID verified (${check.computed.substring(7, 15)})`);
     } else {
-      setOriginalCID('');
+      console.warn(`📦 CONTAINER LOAD: Stored CID ${check.status}: stored ${check.stored || '(none)'}, computed ${check.computed}`);
     }
 
     // Mark that we want to auto-orient this shape (will be handled by useEffect)
@@ -442,6 +615,24 @@ export default function PuzzleShapePage() {
     }
   };
 
+  // Cells without a file (generated, or embedded in a share link) load like library containers, with their own CID
+  const handleCellsLoad = async (cells: FCCCoord[], name: string, designer: string) => {
+    const fullCID = await computeCID(cells);
+    const container = containerToV1Format(
+      cells.map(coord => [coord.x, coord.y, coord.z]),
+      name,
+      fullCID,
+      { name: designer, date: new Date().toISOString().split('T')[0] }
+    );
+    console.log(`📦 CONTAINER LOAD: ${name} from ${designer} (${cells.length} cells, CID ${fullCID.substring(7, 15)})`);
+    await handleLibraryContainerSelect(container, name);
+  };
+
+  const handleGenerateShape = async (cells: FCCCoord[], name: string) => {
+    setShowGenerator(false);
+    await handleCellsLoad(cells, name, 'Shape Generator');
+  };
+
   const handleLibraryClose = () => {
     setShowLibraryBrowser(false);
   };
@@ -475,6 +666,106 @@ export default function PuzzleShapePage() {
     // Controls will be re-enabled automatically through the settings effect
   };
 
+  // Open a solver result directly in the solution viewer
+  const handleOpenSolution = (solution: SolutionFile, name: string) => {
+    console.log(`🧩 SOLVER: Opening ${name} in solution viewer`);
+    setShowSolver(false);
+    navigate('/view-solution', { state: { solution, solutionName: name } });
+  };
+
+  // Open a library solution of this container in the solution viewer
+  const handleOpenLibrarySolution = (item: LibraryItem) => {
+    console.log(`🔗 LINK: Opening ${item.name} in solution viewer`);
+    setShowSolutions(false);
+    navigate('/view-solution', { state: { solutionFile: item.name } });
+  };
+
+  // Containers handed over by the solution viewer arrive as router state
+  useEffect(() => {
+    const state = location.state as { container?: any; containerName?: string } | null;
+    if (!state?.container) return;
+
+    // Drop the router state so a reload keeps the user's edits (sessionStorage) instead of reloading the container
+    navigate(location.pathname, { replace: true, state: null });
+    handleLibraryContainerSelect(state.container, state.containerName || 'Container');
+  }, []);
+
+  // Share links: #/shape/<cid> opens a library container, #/shape?cells=... cells embedded in the link
+  useEffect(() => {
+    const params = new URLSearchParams(location.search);
+    const embedded = params.get('cells');
+    if (!linkCID && !embedded) return;
+
+    const view = paramsToView(params);
+    pendingViewRef.current = view.camera || null;
+    if (view.lens || view.color) {
+      setSettings(prev => ({
+        ...prev,
+        material: { ...prev.material, color: view.color || prev.material.color },
+        camera: view.lens || prev.camera
+      }));
+    }
+
+    // Like router state, leave the link route so a reload keeps the user's edits
+    navigate('/puzzle-shape', { replace: true });
+
+    const openLink = async () => {
+      if (embedded) {
+        const cells = decodeCells(embedded);
+        if (!cells) {
+          setError('The shape in this link could not be read; the link may have been cut short.');
+          return;
+        }
+        console.log(`🔗 LINK: Opening ${cells.length} cells from a share link`);
+        await handleCellsLoad(cells, params.get('name') || 'Shared shape', 'Share link');
+        return;
+      }
+
+      try {
+        const index = await fetchCIDIndex();
+        const item = index.containersByCid.get(normalizeCID(linkCID!))?.[0];
+        if (!item) {
+          throw new Error(`No library shape has CID ${linkCID!.substring(0, 8)}`);
+        }
+        console.log(`🔗 LINK: Opening library container ${item.name} from a share link`);
+        await handleLibraryContainerSelect(await fetchLibraryContainer(item), item.name);
+      } catch (err) {
+        setError((err as Error).message);
+      }
+    };
+    openLink();
+  }, []);
+
+  // Library shapes are linked by CID (the file's own while unedited); other shapes embed their cells when small enough
+  const createShareLink = async (includeView: boolean): Promise<ShareLink> => {
+    const view = shapeEditorRef.current?.getCameraView();
+    const params = includeView
+      ? viewToParams({ camera: view || undefined, lens: settings.camera, color: settings.material.color })
+      : new URLSearchParams();
+
+    const fullCID = await computeCID(coordinates);
+    const unedited = !originalCID || currentCID === originalCID;
+    try {
+      const index = await fetchCIDIndex();
+      for (const cid of unedited && containerFileCID ? [containerFileCID, fullCID] : [fullCID]) {
+        const item = index.containersByCid.get(normalizeCID(cid))?.[0];
+        if (item) {
+          return { url: shareURL(shapeRoute(normalizeCID(cid)), params), description: `Opens ${item.name.replace('.fcc.json', '')} from the library.` };
+        }
+      }
+    } catch (err) {
+      console.warn('🔗 SHARE: Library lookup failed, embedding the cells instead:', err);
+    }
+
+    const cells = encodeCells(coordinates);
+    if (!cells) {
+      throw new Error(`This ${coordinates.length}-cell shape is not in the library and is too large to put in a link. Save it and send the file instead.`);
+    }
+    const linkParams = new URLSearchParams({ cells, name: containerName || 'Shared shape' });
+    params.forEach((value, key) => linkParams.set(key, value));
+    return { url: shareURL('/shape', linkParams), description: `The ${coordinates.length} cells travel inside the link; no library needed.` };
+  };
+
   return (
     <div style={{ 
       display: 'flex',
@@ -491,16 +782,27 @@ export default function PuzzleShapePage() {
           cellCount={coordinates.length}
           currentCID={currentCID}
           originalCID={originalCID}
+          cidCheck={cidCheck}
           editMode={editMode}
           editingEnabled={editingEnabled}
           canUndo={coordinatesHistory.length > 0}
           onSave={handleSave}
+          onExport={() => setShowExport(true)}
+          onCapture={() => setShowCapture(true)}
+          onShare={() => setShowShare(true)}
           onBrowseLibrary={handleBrowseLibrary}
+          onGenerate={() => setShowGenerator(true)}
           onSettings={handleSettings}
           onEditModeChange={setEditMode}
           onEditingEnabledChange={setEditingEnabled}
           onUndo={handleUndo}
+          transformActive={showTransform}
+          onTransform={() => (showTransform ? handleCloseTransform() : setShowTransform(true))}
           onCenterOrient={handleCenterOrient}
+          onSolve={() => setShowSolver(true)}
+          onShowSolutions={() => setShowSolutions(true)}
+          onShowSymmetry={() => setShowSymmetry(true)}
+          onCheckFeasibility={() => setShowFeasibility(true)}
           loading={loading}
         />
       </div>
@@ -515,9 +817,40 @@ export default function PuzzleShapePage() {
           coordinates={coordinates}
           onCoordinatesChange={handleCoordinatesChange}
           editMode={editMode}
-          editingEnabled={editingEnabled}
+          editingEnabled={editingEnabled && !showTransform}
           settings={settings}
+          previewCoordinates={transformPreview || selectionPreview}
+          selectedCells={selecting ? liveSelection : []}
+          selectTool={selectTool}
+          onSelectionChange={setSelectedCells}
         />
+
+        {selecting && !showTransform && (
+          <SelectionPanel
+            selectedCount={liveSelection.length}
+            totalCount={coordinates.length}
+            selectTool={selectTool}
+            offset={selectionOffset}
+            moveCollisionCount={moveCollisions.length}
+            onSelectToolChange={setSelectTool}
+            onSelectAll={() => setSelectedCells(coordinates)}
+            onClearSelection={() => setSelectedCells([])}
+            onSelectLayer={handleSelectLayer}
+            onOffsetChange={setSelectionOffset}
+            onDelete={handleDeleteSelection}
+            onDuplicate={handleDuplicateSelection}
+            onMove={handleMoveSelection}
+          />
+        )}
+
+        {showTransform && (
+          <ShapeTransformPanel
+            transform={pendingTransform}
+            onTransformChange={setPendingTransform}
+            onApply={handleApplyTransform}
+            onClose={handleCloseTransform}
+          />
+        )}
       </div>
       
       {/* Back to Home - floating button */}
@@ -581,6 +914,89 @@ export default function PuzzleShapePage() {
           onContainerSelect={handleLibraryContainerSelect}
           onClose={handleLibraryClose}
           loading={loading}
+          currentName={containerName}
+          onSaveToWorkspace={coordinates.length > 0 ? handleSaveToWorkspace : undefined}
+        />
+      )}
+
+      {/* Shape Generator */}
+      {showGenerator && (
+        <ShapeGeneratorDialog
+          onGenerate={handleGenerateShape}
+          onClose={() => setShowGenerator(false)}
+        />
+      )}
+
+      {/* Solver Panel */}
+      {showSolver && (
+        <SolverPanel
+          coordinates={coordinates}
+          containerName={containerName}
+          onOpenSolution={handleOpenSolution}
+          onClose={() => setShowSolver(false)}
+        />
+      )}
+
+      {/* Known solutions for this container */}
+      {showSolutions && (
+        <ContainerSolutionsPanel
+          containerCid={containerFileCID}
+          containerName={containerName}
+          onOpenSolution={handleOpenLibrarySolution}
+          onClose={() => setShowSolutions(false)}
+        />
+      )}
+
+      {/* Symmetry of the current shape */}
+      {showSymmetry && (
+        <ContainerSymmetryPanel
+          coordinates={coordinates}
+          containerName={containerName}
+          onClose={() => setShowSymmetry(false)}
+        />
+      )}
+
+      {/* Feasibility pre-check of the current shape */}
+      {showFeasibility && (
+        <FeasibilityPanel
+          coordinates={coordinates}
+          containerName={containerName}
+          onSelectCells={handleSelectProblemCells}
+          onClose={() => setShowFeasibility(false)}
+        />
+      )}
+
+      {/* STL / OBJ / glTF export of the current shape */}
+      {showExport && (
+        <Export3DDialog
+          title="Export Shape"
+          baseName={(containerName || 'container').toLowerCase().replace(/\s+/g, '_')}
+          ballCount={coordinates.length}
+          buildModel={(options) => buildContainerModel(
+            containerToV1Format(coordinates.map(c => [c.x, c.y, c.z]), containerName || 'container'),
+            options,
+            settings.material.color
+          )}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {/* PNG snapshot and turntable video */}
+      {showCapture && (
+        <CaptureDialog
+          title="Capture Shape"
+          baseName={(containerName || 'container').toLowerCase().replace(/\s+/g, '_')}
+          getTarget={() => shapeEditorRef.current?.getCaptureTarget() || null}
+          onClose={() => setShowCapture(false)}
+        />
+      )}
+
+      {/* Link to this shape and view */}
+      {showShare && (
+        <ShareLinkDialog
+          title="Share Shape"
+          createLink={createShareLink}
+          onClose={() => setShowShare(false)}
         />
       )}
 
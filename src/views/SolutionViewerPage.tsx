@@ -1,26 +1,80 @@
 // Solution Viewer Page
 // Main page for viewing puzzle solutions with piece-based rendering
 
-import React, { useState, useEffect, useRef } from 'react';
-import { Link } from 'react-router-dom';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Link, useLocation, useNavigate, useParams } from 'react-router-dom';
 import SolutionEditor3D, { SolutionEditor3DRef } from '../components/solution/SolutionEditor3D';
 import SolutionToolbar from '../components/solution/SolutionToolbar';
 import SolutionSettingsModal from '../components/solution/SolutionSettingsModal';
+import SolutionValidationPanel from '../components/solution/SolutionValidationPanel';
+import ReplayControls from '../components/solution/ReplayControls';
+import AssemblyControls from '../components/solution/AssemblyControls';
+import PieceInspectorPanel from '../components/solution/PieceInspectorPanel';
+import SolutionLibraryBrowser from '../components/solution/SolutionLibraryBrowser';
+import Export3DDialog from '../components/export/Export3DDialog';
+import PrintKitDialog from '../components/export/PrintKitDialog';
+import CaptureDialog from '../components/export/CaptureDialog';
+import ShareLinkDialog from '../components/export/ShareLinkDialog';
 import { SolutionFile, SolutionSettings, createDefaultSolutionSettings } from '../types/solution';
+import { validateSolutionStructure, validateSolutionFile, getOffendingPlacements, SolutionValidationReport } from '../lib/guards/solutionV1';
+import { validateContainerV1 } from '../lib/guards/containerV1';
+import { fetchLibraryContainer, fetchCIDIndex, findContainerForSolution, normalizeCID, librarySolutionURL } from '../services/library';
+import { WorkspaceItem, saveWorkspaceItem, captureThumbnail } from '../services/workspace';
+import { parseEventLog } from '../lib/guards/eventsV1';
+import { ReplayTimeline } from '../lib/replay/timeline';
+import { findTouchingPlacements } from '../lib/pieces/contacts';
+import { buildSolutionModel } from '../lib/geometry/exportModel';
+import { LinkView, ShareLink, hasLinkView, paramsToView, viewToParams, solutionRoute, shareURL } from '../services/deepLinks';
 
 export default function SolutionViewerPage() {
   // Solution data state
   const [solution, setSolution] = useState<SolutionFile | null>(null);
   const [solutionName, setSolutionName] = useState<string>('');
+  const [libraryFile, setLibraryFile] = useState<string>(''); // Library file name, when the solution came from the library
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string>('');
   
   // UI state
   const [showSettings, setShowSettings] = useState(false);
+  const [showSolutionLibrary, setShowSolutionLibrary] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showCapture, setShowCapture] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+  const [printKitOrder, setPrintKitOrder] = useState<number[] | null>(null); // Build order while the print kit dialog is open
+  
+  // Validation report for the loaded solution
+  const [validationReport, setValidationReport] = useState<SolutionValidationReport | null>(null);
+  const [showValidation, setShowValidation] = useState(false);
+  
+  // Event log replay
+  const [replay, setReplay] = useState<{ timeline: ReplayTimeline; name: string } | null>(null);
+  const [replayIndex, setReplayIndex] = useState(-1);
+  const [replayPlaying, setReplayPlaying] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(5);
+  
+  // Step-by-step assembly animation (pieces in render order, bottom to top)
+  const [assemblyOrder, setAssemblyOrder] = useState<string[] | null>(null);
+  const [assemblyPlaying, setAssemblyPlaying] = useState(false);
+  const [secondsPerPiece, setSecondsPerPiece] = useState(1);
+  
+  // Exploded view: 0 = assembled
+  const [explodeFactor, setExplodeFactor] = useState(0);
+  
+  // Tapped piece and per-placement hiding (inspector actions)
+  const [selectedPlacement, setSelectedPlacement] = useState<number | null>(null);
+  const [hiddenPlacements, setHiddenPlacements] = useState<number[]>([]);
   
   // Ref to access SolutionEditor3D
   const solutionEditorRef = useRef<SolutionEditor3DRef>(null);
   
+  // Solutions handed over by other pages (e.g. the in-browser solver) arrive as router state
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { file: linkFile } = useParams();
+  
+  // View state from a share link: settings parts merge into the loaded settings, the camera follows auto-orient
+  const linkViewRef = useRef<LinkView | null>(null);
+  
   // Load settings from localStorage or use defaults
   const loadSettings = (): SolutionSettings => {
     try {
@@ -75,7 +129,15 @@ export default function SolutionViewerPage() {
   // Update settings when solution changes
   useEffect(() => {
     if (solution) {
-      setSettings(loadSettings());
+      const loaded = loadSettings();
+      const view = linkViewRef.current;
+      // Linked colours are changes from the defaults, so start from the defaults rather than this browser's colours
+      setSettings(view && hasLinkView(view) ? {
+        ...loaded,
+        pieceColors: { ...createDefaultSolutionSettings(solution.piecesUsed).pieceColors, ...view.pieceColors },
+        visiblePieceCount: Math.min(view.visiblePieceCount ?? loaded.visiblePieceCount, solution.placements.length),
+        camera: view.lens || loaded.camera
+      } : loaded);
     }
   }, [solution]);
   
@@ -91,6 +153,39 @@ export default function SolutionViewerPage() {
     }
   }, [settings, solution]);
   
+  // Look up the solution's container in the library by CID, else by the container name in the solution name (null if unavailable)
+  const loadContainerCells = async (containerCid: string, name: string): Promise<number[][] | null> => {
+    try {
+      const index = await fetchCIDIndex();
+      const { result: item, matchedBy } = findContainerForSolution(index, containerCid, name);
+      if (!item) return null;
+      
+      console.log(`🔍 VALIDATE: Checking against container ${item.name} (matched by ${matchedBy})`);
+      const validation = validateContainerV1(await fetchLibraryContainer(item));
+      return validation.valid ? validation.container!.cells! : null;
+    } catch (err) {
+      console.warn('🔍 VALIDATE: Container lookup failed:', err);
+      return null;
+    }
+  };
+  
+  // Solution whose validation report is wanted; reports for anything else arrive too late and are dropped
+  const validationTargetRef = useRef<SolutionFile | null>(null);
+  
+  // Run full solution validation (pieces, overlaps, container coverage, piecesUsed)
+  const runSolutionValidation = async (solutionData: SolutionFile, name: string) => {
+    validationTargetRef.current = solutionData;
+    setValidationReport(null);
+    
+    const containerCells = await loadContainerCells(solutionData.containerCidSha256, name);
+    if (validationTargetRef.current !== solutionData) return;
+    const report = validateSolutionFile(solutionData, containerCells);
+    
+    console.log(`🔍 VALIDATE: ${report.valid ? 'valid' : 'invalid'} solution, ${report.issues.length} issue(s)`, report.issues);
+    setValidationReport(report);
+    setShowValidation(!report.valid);
+  };
+  
   // Handle solution file loading
   const handleSolutionLoad = async (file: File) => {
     setLoading(true);
@@ -101,12 +196,15 @@ export default function SolutionViewerPage() {
       const solutionData: SolutionFile = JSON.parse(text);
       
       // Validate solution format
-      if (!solutionData.version || !solutionData.placements || !solutionData.piecesUsed) {
-        throw new Error('Invalid solution file format');
+      const structure = validateSolutionStructure(solutionData);
+      if (!structure.valid) {
+        throw new Error(`Invalid solution file: ${structure.error}`);
       }
       
       setSolution(solutionData);
       setSolutionName(file.name.replace('.json', ''));
+      setLibraryFile('');
+      runSolutionValidation(solutionData, file.name);
       
       console.log('✅ Solution loaded:', {
         name: file.name,
@@ -136,8 +234,7 @@ export default function SolutionViewerPage() {
     setError('');
     
     try {
-      const url = `/content/solutions/${filename}`;
-      const response = await fetch(url);
+      const response = await fetch(await librarySolutionURL(filename));
       
       if (!response.ok) {
         throw new Error(`Failed to fetch solution: ${response.statusText}`);
@@ -146,12 +243,15 @@ export default function SolutionViewerPage() {
       const solutionData: SolutionFile = await response.json();
       
       // Validate solution format
-      if (!solutionData.version || !solutionData.placements || !solutionData.piecesUsed) {
-        throw new Error('Invalid solution file format');
+      const structure = validateSolutionStructure(solutionData);
+      if (!structure.valid) {
+        throw new Error(`Invalid solution file: ${structure.error}`);
       }
       
       setSolution(solutionData);
       setSolutionName(filename.replace('.json', ''));
+      setLibraryFile(filename);
+      runSolutionValidation(solutionData, filename);
       
       console.log('✅ Solution loaded from URL:', {
         filename,
@@ -159,11 +259,14 @@ export default function SolutionViewerPage() {
         placements: solutionData.placements.length
       });
       
-      // Auto-center and orient the solution
+      // Auto-center and orient the solution, then restore a share link's camera
       setTimeout(() => {
         if (solutionEditorRef.current) {
           solutionEditorRef.current.centerAndOrientSolution();
+          const camera = linkViewRef.current?.camera;
+          if (camera) solutionEditorRef.current.setCameraView(camera);
         }
+        linkViewRef.current = null;
       }, 100);
       
     } catch (err) {
@@ -175,6 +278,263 @@ export default function SolutionViewerPage() {
     }
   };
   
+  // Open the library solution of a share link, again whenever another link is followed while on the viewer
+  useEffect(() => {
+    if (!linkFile) return;
+    
+    setReplay(null);
+    setReplayPlaying(false);
+    setReplayIndex(-1);
+    setExplodeFactor(0);
+    linkViewRef.current = paramsToView(new URLSearchParams(location.search));
+    console.log(`🔗 LINK: Opening library solution ${linkFile} from a share link`);
+    handleSolutionLoadFromUrl(linkFile);
+  }, [linkFile, location.search]);
+  
+  // Open a solution passed in router state on mount (a solution object, or a library file name)
+  useEffect(() => {
+    if (linkFile) return;
+    
+    const state = location.state as { solution?: SolutionFile; solutionName?: string; solutionFile?: string } | null;
+    if (state?.solutionFile) {
+      handleSolutionLoadFromUrl(state.solutionFile);
+      return;
+    }
+    if (!state?.solution) return;
+    
+    const structure = validateSolutionStructure(state.solution);
+    if (!structure.valid) {
+      setError(`Invalid solution: ${structure.error}`);
+      return;
+    }
+    
+    setSolution(state.solution);
+    setSolutionName(state.solutionName || 'Solver result');
+    setLibraryFile('');
+    runSolutionValidation(state.solution, state.solutionName || '');
+    console.log('✅ Solution received from router state:', state.solutionName);
+    
+    setTimeout(() => {
+      if (solutionEditorRef.current) {
+        solutionEditorRef.current.centerAndOrientSolution();
+      }
+    }, 100);
+  }, []);
+  
+  // Open a solution or partial saved in the workspace
+  const handleWorkspaceSolutionOpen = (item: WorkspaceItem) => {
+    const structure = validateSolutionStructure(item.data);
+    if (!structure.valid) {
+      setError(`Invalid solution: ${structure.error}`);
+      return;
+    }
+    
+    setSolution(item.data);
+    setSolutionName(item.name);
+    setLibraryFile('');
+    runSolutionValidation(item.data, item.name);
+    console.log(`💾 WORKSPACE: Opened ${item.type} "${item.name}"`);
+    
+    setTimeout(() => {
+      if (solutionEditorRef.current) {
+        solutionEditorRef.current.centerAndOrientSolution();
+      }
+    }, 100);
+  };
+  
+  // Solutions that leave container cells uncovered are kept as partials
+  const workspaceSaveType = validationReport && validationReport.containerCellCount !== null && validationReport.cellCount < validationReport.containerCellCount
+    ? 'partial'
+    : 'solution';
+  
+  const handleSaveToWorkspace = async (name: string) => {
+    if (!solution) return;
+    await saveWorkspaceItem({
+      type: workspaceSaveType,
+      name,
+      data: solution,
+      cid: normalizeCID(solution.containerCidSha256),
+      size: solution.placements.length,
+      thumbnail: await captureThumbnail(solutionEditorRef.current?.getCaptureTarget() || null)
+    });
+    setSolutionName(name);
+  };
+  
+  // Open the solution's container in the shape editor (matched by CID, else by the container name in the file name)
+  const handleOpenContainer = async () => {
+    if (!solution) return;
+    setLoading(true);
+    setError('');
+    try {
+      const index = await fetchCIDIndex();
+      const { result: item, matchedBy } = findContainerForSolution(index, solution.containerCidSha256, solutionName);
+      if (!item) {
+        throw new Error('This solution\'s container is not in the library');
+      }
+      
+      console.log(`🔗 LINK: Opening container ${item.name} (matched by ${matchedBy})`);
+      const container = await fetchLibraryContainer(item);
+      navigate('/puzzle-shape', { state: { container, containerName: item.name } });
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+  
+  // Load a JSONL solver trace and enter replay mode
+  const handleReplayLoad = async (file: File) => {
+    setError('');
+    try {
+      const { events, errors } = parseEventLog(await file.text());
+      if (events.length === 0) {
+        throw new Error(errors[0] || 'No events found');
+      }
+      if (errors.length > 0) {
+        console.warn(`🎞️ REPLAY: Skipped ${errors.length} invalid line(s)`, errors);
+      }
+      
+      const timeline = new ReplayTimeline(events);
+      console.log(`🎞️ REPLAY: Loaded ${events.length} events from ${file.name}`, timeline.stats);
+      setReplay({ timeline, name: file.name });
+      setReplayIndex(-1);
+      setReplayPlaying(false);
+    } catch (err) {
+      setError(`Failed to load event log: ${(err as Error).message}`);
+    }
+  };
+  
+  const handleReplayClose = () => {
+    setReplay(null);
+    setReplayPlaying(false);
+    setReplayIndex(-1);
+  };
+  
+  // Frame the camera once on every cell the trace touches
+  const replayFrameSolution = useMemo((): SolutionFile | null => {
+    if (!replay) return null;
+    const cells = replay.timeline.getAllCells();
+    return {
+      version: 1,
+      containerCidSha256: '',
+      lattice: 'fcc',
+      piecesUsed: {},
+      placements: cells.length > 0
+        ? [{ piece: 'replay', ori: 0, t: cells[0], cells_ijk: cells }]
+        : []
+    };
+  }, [replay]);
+  
+  const replayPlacements = useMemo(
+    () => (replay ? replay.timeline.stateAt(replayIndex) : null),
+    [replay, replayIndex]
+  );
+  
+  // Advance playback; fast speeds apply several events per tick
+  useEffect(() => {
+    if (!replay || !replayPlaying) return;
+    
+    const tickMs = Math.max(16, 1000 / replaySpeed);
+    const eventsPerTick = Math.max(1, Math.round((replaySpeed * tickMs) / 1000));
+    const interval = setInterval(() => {
+      setReplayIndex(prev => Math.min(replay.timeline.length - 1, prev + eventsPerTick));
+    }, tickMs);
+    
+    return () => clearInterval(interval);
+  }, [replay, replayPlaying, replaySpeed]);
+  
+  // Playback stops at the last event
+  useEffect(() => {
+    if (replay && replayPlaying && replayIndex >= replay.timeline.length - 1) {
+      setReplayPlaying(false);
+    }
+  }, [replay, replayPlaying, replayIndex]);
+  
+  // Assembly stops when another solution or a replay is loaded
+  useEffect(() => {
+    setAssemblyOrder(null);
+    setAssemblyPlaying(false);
+  }, [solution, replay]);
+  
+  const assemblyTotal = solution ? solution.placements.length : 0;
+  
+  // Selection and hidden pieces belong to one solution
+  useEffect(() => {
+    setSelectedPlacement(null);
+    setHiddenPlacements([]);
+  }, [solution]);
+  
+  const selectedNeighbors = useMemo(
+    () => (solution && selectedPlacement !== null ? findTouchingPlacements(solution.placements, selectedPlacement) : []),
+    [solution, selectedPlacement]
+  );
+  
+  // Hide every placement except the given ones
+  const showOnlyPlacements = (keep: number[]) => {
+    if (!solution) return;
+    setHiddenPlacements(solution.placements.map((_, index) => index).filter(index => !keep.includes(index)));
+  };
+  
+  // Library solutions are linked by file name; the view adds camera, lens, visible pieces and changed colours
+  const createShareLink = async (includeView: boolean): Promise<ShareLink> => {
+    if (!solution || !libraryFile) {
+      throw new Error('Only library solutions can be linked. Send the solution file instead.');
+    }
+    
+    const params = new URLSearchParams();
+    if (includeView) {
+      const defaults = createDefaultSolutionSettings(solution.piecesUsed).pieceColors;
+      const changedColors = Object.fromEntries(
+        Object.entries(settings.pieceColors).filter(([piece, color]) => solution.piecesUsed[piece] && defaults[piece]?.toLowerCase() !== color.toLowerCase())
+      );
+      viewToParams({
+        camera: solutionEditorRef.current?.getCameraView() || undefined,
+        lens: settings.camera,
+        visiblePieceCount: settings.visiblePieceCount,
+        pieceColors: changedColors
+      }, params);
+    }
+    return { url: shareURL(solutionRoute(libraryFile), params), description: `Opens ${libraryFile} from the library.` };
+  };
+  
+  const handleAssembleStart = () => {
+    if (replay || !solutionEditorRef.current) return;
+    setAssemblyOrder(solutionEditorRef.current.getAssemblyOrder());
+    setSettings(prev => ({ ...prev, visiblePieceCount: 0 }));
+    setAssemblyPlaying(true);
+    console.log(`🧱 ASSEMBLY: Starting ${assemblyTotal}-piece assembly`);
+  };
+  
+  const handleAssemblyStep = (delta: 1 | -1) => {
+    const count = settings.visiblePieceCount;
+    if (delta > 0) {
+      if (count >= assemblyTotal) return;
+      solutionEditorRef.current?.animatePieceIn(count, secondsPerPiece * 800);
+      setSettings(prev => ({ ...prev, visiblePieceCount: count + 1 }));
+    } else if (count > 0) {
+      setAssemblyPlaying(false);
+      setSettings(prev => ({ ...prev, visiblePieceCount: count - 1 }));
+    }
+  };
+  
+  const handleAssemblyClose = () => {
+    setAssemblyOrder(null);
+    setAssemblyPlaying(false);
+    setSettings(prev => ({ ...prev, visiblePieceCount: assemblyTotal }));
+  };
+  
+  // Place the next piece every secondsPerPiece while playing
+  useEffect(() => {
+    if (!assemblyOrder || !assemblyPlaying) return;
+    if (settings.visiblePieceCount >= assemblyTotal) {
+      setAssemblyPlaying(false);
+      return;
+    }
+    
+    const timeout = setTimeout(() => handleAssemblyStep(1), settings.visiblePieceCount === 0 ? 0 : secondsPerPiece * 1000);
+    return () => clearTimeout(timeout);
+  }, [assemblyOrder, assemblyPlaying, settings.visiblePieceCount, secondsPerPiece]);
+  
   // Handle settings changes
   const handleSettingsChange = (newSettings: SolutionSettings) => {
     setSettings(newSettings);
@@ -203,14 +563,23 @@ export default function SolutionViewerPage() {
       <div style={{ flexShrink: 0 }}>
         <SolutionToolbar
           onLoadFile={handleSolutionLoad}
-          onLoadFromUrl={handleSolutionLoadFromUrl}
+          onBrowseLibrary={() => setShowSolutionLibrary(true)}
           onSettings={handleSettings}
+          onLoadReplay={handleReplayLoad}
+          onAssemble={handleAssembleStart}
+          onOpenContainer={handleOpenContainer}
+          onExport={() => setShowExport(true)}
+          onPrintKit={() => setPrintKitOrder(solutionEditorRef.current?.getBuildOrder() || [])}
+          onCapture={() => setShowCapture(true)}
+          onShare={() => setShowShare(true)}
           loading={loading}
           hasSolution={!!solution}
           solutionName={solutionName}
           visiblePieceCount={settings.visiblePieceCount}
           totalPieces={solution ? Object.keys(solution.piecesUsed).length : 0}
           onVisibilityChange={(count) => setSettings(prev => ({ ...prev, visiblePieceCount: count }))}
+          explodeFactor={explodeFactor}
+          onExplodeChange={setExplodeFactor}
         />
       </div>
       
@@ -219,11 +588,24 @@ export default function SolutionViewerPage() {
         position: 'relative',
         backgroundColor: '#f0f0f0' // Container background (not 3D scene)
       }}>
-        {solution ? (
+        {replayFrameSolution ? (
+          <SolutionEditor3D
+            ref={solutionEditorRef}
+            solution={replayFrameSolution}
+            settings={settings}
+            replayPlacements={replayPlacements}
+            replayAnimationMs={replayPlaying ? Math.min(200, 800 / replaySpeed) : 150}
+          />
+        ) : solution ? (
           <SolutionEditor3D
             ref={solutionEditorRef}
             solution={solution}
             settings={settings}
+            highlightedPlacements={validationReport ? getOffendingPlacements(validationReport) : []}
+            explodeFactor={explodeFactor}
+            selectedPlacement={selectedPlacement}
+            hiddenPlacements={hiddenPlacements}
+            onPlacementSelect={setSelectedPlacement}
           />
         ) : (
           <div style={{
@@ -241,6 +623,106 @@ export default function SolutionViewerPage() {
             </p>
           </div>
         )}
+        
+        {/* Event replay */}
+        {replay && (
+          <ReplayControls
+            timeline={replay.timeline}
+            name={replay.name}
+            index={replayIndex}
+            playing={replayPlaying}
+            speed={replaySpeed}
+            onIndexChange={setReplayIndex}
+            onPlayingChange={setReplayPlaying}
+            onSpeedChange={setReplaySpeed}
+            onClose={handleReplayClose}
+          />
+        )}
+        
+        {/* Assembly animation */}
+        {!replay && solution && assemblyOrder && (
+          <AssemblyControls
+            step={settings.visiblePieceCount}
+            total={assemblyTotal}
+            currentPiece={assemblyOrder[settings.visiblePieceCount - 1] || ''}
+            playing={assemblyPlaying}
+            secondsPerPiece={secondsPerPiece}
+            onStep={handleAssemblyStep}
+            onRestart={() => setSettings(prev => ({ ...prev, visiblePieceCount: 0 }))}
+            onPlayingChange={setAssemblyPlaying}
+            onSpeedChange={setSecondsPerPiece}
+            onClose={handleAssemblyClose}
+          />
+        )}
+        
+        {/* Piece inspector */}
+        {!replay && solution && selectedPlacement !== null && solution.placements[selectedPlacement] && (
+          <PieceInspectorPanel
+            placement={solution.placements[selectedPlacement]}
+            placementIndex={selectedPlacement}
+            color={settings.pieceColors[solution.placements[selectedPlacement].piece] || '#888888'}
+            neighborCount={selectedNeighbors.length}
+            hiddenCount={hiddenPlacements.length}
+            onIsolate={() => showOnlyPlacements([selectedPlacement])}
+            onHide={() => {
+              setHiddenPlacements(prev => [...prev, selectedPlacement]);
+              setSelectedPlacement(null);
+            }}
+            onShowNeighbors={() => showOnlyPlacements([selectedPlacement, ...selectedNeighbors])}
+            onShowAll={() => setHiddenPlacements([])}
+            onClose={() => setSelectedPlacement(null)}
+          />
+        )}
+        {!replay && solution && selectedPlacement === null && hiddenPlacements.length > 0 && (
+          <button
+            onClick={() => setHiddenPlacements([])}
+            style={{
+              position: 'absolute',
+              top: '12px',
+              left: '12px',
+              padding: '6px 10px',
+              backgroundColor: 'rgba(255, 255, 255, 0.9)',
+              border: 'none',
+              borderRadius: '4px',
+              fontSize: '12px',
+              cursor: 'pointer',
+              boxShadow: '0 2px 6px rgba(0,0,0,0.2)',
+              zIndex: 10
+            }}
+            title="Unhide all pieces"
+          >
+            👁️ Show all ({hiddenPlacements.length} hidden)
+          </button>
+        )}
+        
+        {/* Validation report */}
+        {!replay && solution && validationReport && showValidation && (
+          <SolutionValidationPanel
+            report={validationReport}
+            onClose={() => setShowValidation(false)}
+          />
+        )}
+        {!replay && solution && validationReport && !showValidation && (
+          <button
+            onClick={() => setShowValidation(true)}
+            style={{
+              position: 'absolute',
+              top: '12px',
+              right: '12px',
+              padding: '6px 10px',
+              backgroundColor: 'rgba(255, 255, 255, 0.9)',
+              border: 'none',
+              borderRadius: '4px',
+              fontSize: '12px',
+              cursor: 'pointer',
+              boxShadow: '0 2px 6px rgba(0,0,0,0.2)',
+              zIndex: 10
+            }}
+            title="Show validation report"
+          >
+            {validationReport.valid ? (validationReport.issues.length > 0 ? '⚠️' : '✅') : '❌'} Report
+          </button>
+        )}
       </div>
       
       {/* Back to Home - floating button */}
@@ -298,6 +780,64 @@ export default function SolutionViewerPage() {
         </div>
       )}
       
+      {/* Solution Library */}
+      {showSolutionLibrary && (
+        <SolutionLibraryBrowser
+          onSolutionSelect={(item) => handleSolutionLoadFromUrl(item.name)}
+          onWorkspaceSelect={handleWorkspaceSolutionOpen}
+          onClose={() => setShowSolutionLibrary(false)}
+          currentName={solutionName}
+          saveType={workspaceSaveType}
+          onSaveToWorkspace={solution ? handleSaveToWorkspace : undefined}
+        />
+      )}
+      
+      {/* STL / OBJ / glTF export, one node per piece */}
+      {showExport && solution && (
+        <Export3DDialog
+          title="Export Solution"
+          baseName={(solutionName || 'solution').replace(/\.json$/, '').replace(/\s+/g, '_')}
+          ballCount={solution.placements.reduce((sum, placement) => sum + placement.cells_ijk.length, 0)}
+          buildModel={(options) => buildSolutionModel(solution, options, settings.pieceColors, solutionName || 'solution')}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+      
+      {/* Per-piece models, bill of materials and assembly sheet */}
+      {printKitOrder && solution && (
+        <PrintKitDialog
+          solution={solution}
+          solutionName={solutionName}
+          settings={settings}
+          buildOrder={printKitOrder}
+          onClose={() => setPrintKitOrder(null)}
+        />
+      )}
+      
+      {/* PNG snapshot and turntable / assembly video */}
+      {showCapture && solution && (
+        <CaptureDialog
+          title="Capture Solution"
+          baseName={(solutionName || 'solution').replace(/\.json$/, '').replace(/\s+/g, '_')}
+          getTarget={() => solutionEditorRef.current?.getCaptureTarget() || null}
+          assembly={replay ? undefined : {
+            start: handleAssembleStart,
+            // Last piece lands secondsPerPiece after it starts; keep a second of the finished solution
+            durationMs: assemblyTotal * secondsPerPiece * 1000 + 1000
+          }}
+          onClose={() => setShowCapture(false)}
+        />
+      )}
+      
+      {/* Link to this solution and view */}
+      {showShare && solution && (
+        <ShareLinkDialog
+          title="Share Solution"
+          createLink={createShareLink}
+          onClose={() => setShowShare(false)}
+        />
+      )}
+      
       {/* Settings Modal */}
       {showSettings && solution && (
         <SolutionSettingsModal
@@ -0,0 +1,273 @@
+// Status Monitor Page
+// Follow upstream solver progress from status snapshot files or a polled status URL
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import StatusMonitor from '../components/monitors/StatusMonitor';
+import { StatusSnapshot, parseStatusSnapshots } from '../lib/guards/statusV1';
+
+const MAX_HISTORY = 500;
+const POLL_INTERVALS = [1, 2, 5, 10]; // seconds
+
+/**
+ * Append snapshots, skipping ones already seen (same timestamp), oldest first
+ */
+function mergeSnapshots(history: StatusSnapshot[], incoming: StatusSnapshot[]): StatusSnapshot[] {
+  const seen = new Set(history.map(s => s.timestamp));
+  const merged = [...history, ...incoming.filter(s => !seen.has(s.timestamp))];
+  merged.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  return merged.slice(-MAX_HISTORY);
+}
+
+export default function StatusMonitorPage() {
+  const [history, setHistory] = useState<StatusSnapshot[]>([]);
+  const [sourceName, setSourceName] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  // URL watching
+  const [watchUrl, setWatchUrl] = useState<string>(() => localStorage.getItem('statusMonitorUrl') || '');
+  const [pollSeconds, setPollSeconds] = useState(2);
+  const [watching, setWatching] = useState(false);
+  const [lastPoll, setLastPoll] = useState<string>('');
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileLoad = async (file: File) => {
+    setError('');
+    try {
+      const { snapshots, errors } = parseStatusSnapshots(await file.text());
+      if (snapshots.length === 0) {
+        throw new Error(errors[0] || 'No status snapshots found');
+      }
+      if (errors.length > 0) {
+        console.warn(`📈 STATUS: Skipped ${errors.length} invalid snapshot(s)`, errors);
+        setError(`Skipped ${errors.length} invalid snapshot${errors.length !== 1 ? 's' : ''}: ${errors[0]}`);
+      }
+
+      setWatching(false);
+      setHistory(snapshots.slice(-MAX_HISTORY));
+      setSourceName(file.name);
+      console.log(`📈 STATUS: Loaded ${snapshots.length} snapshot(s) from ${file.name}`);
+    } catch (err) {
+      setError(`Failed to load status file: ${(err as Error).message}`);
+    }
+  };
+
+  // Poll the status URL while watching
+  useEffect(() => {
+    if (!watching || !watchUrl) return;
+
+    let cancelled = false;
+    const poll = async () => {
+      try {
+        const response = await fetch(watchUrl, { cache: 'no-store' });
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        const { snapshots, errors } = parseStatusSnapshots(await response.text());
+        if (cancelled) return;
+        if (snapshots.length === 0) {
+          throw new Error(errors[0] || 'No status snapshot in response');
+        }
+
+        setHistory(prev => mergeSnapshots(prev, snapshots));
+        setLastPoll(new Date().toLocaleTimeString());
+        setError('');
+      } catch (err) {
+        if (!cancelled) setError(`Status poll failed: ${(err as Error).message}`);
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, pollSeconds * 1000);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [watching, watchUrl, pollSeconds]);
+
+  const handleToggleWatch = () => {
+    if (watching) {
+      setWatching(false);
+      return;
+    }
+    if (!watchUrl.trim()) {
+      setError('Enter a status URL to watch');
+      return;
+    }
+
+    localStorage.setItem('statusMonitorUrl', watchUrl.trim());
+    if (sourceName !== watchUrl.trim()) setHistory([]);
+    setSourceName(watchUrl.trim());
+    setWatching(true);
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '6px 12px',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '12px',
+    fontWeight: '500',
+    cursor: 'pointer'
+  };
+
+  return (
+    <div style={{
+      display: 'flex',
+      flexDirection: 'column',
+      width: '100vw',
+      minHeight: '100dvh',
+      margin: 0,
+      padding: 0,
+      fontFamily: 'system-ui, sans-serif',
+      boxSizing: 'border-box'
+    }}>
+      {/* Toolbar */}
+      <div style={{
+        backgroundColor: '#ffffff',
+        borderBottom: '1px solid #e0e0e0',
+        padding: '8px 12px',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+        boxShadow: '0 2px 4px rgba(0,0,0,0.1)'
+      }}>
+        <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap', alignItems: 'center' }}>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            style={{ ...buttonStyle, backgroundColor: '#17a2b8' }}
+          >
+            Load Snapshot
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.jsonl"
+            style={{ display: 'none' }}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFileLoad(file);
+              e.target.value = '';
+            }}
+          />
+          <button
+            onClick={() => {
+              setHistory([]);
+              setSourceName('');
+              setWatching(false);
+              setError('');
+            }}
+            disabled={history.length === 0}
+            style={{ ...buttonStyle, backgroundColor: '#6c757d', opacity: history.length === 0 ? 0.6 : 1 }}
+          >
+            Clear
+          </button>
+          {sourceName && (
+            <span style={{ fontSize: '12px', color: '#495057', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+              {sourceName}
+            </span>
+          )}
+        </div>
+
+        <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap', alignItems: 'center' }}>
+          <input
+            type="url"
+            placeholder="http://host:port/status.json"
+            value={watchUrl}
+            onChange={(e) => setWatchUrl(e.target.value)}
+            disabled={watching}
+            style={{
+              flex: 1,
+              minWidth: '180px',
+              padding: '6px 8px',
+              border: '1px solid #ced4da',
+              borderRadius: '4px',
+              fontSize: '12px'
+            }}
+          />
+          <select
+            value={pollSeconds}
+            onChange={(e) => setPollSeconds(Number(e.target.value))}
+            style={{ padding: '6px', border: '1px solid #ced4da', borderRadius: '4px', fontSize: '12px' }}
+          >
+            {POLL_INTERVALS.map(seconds => (
+              <option key={seconds} value={seconds}>every {seconds}s</option>
+            ))}
+          </select>
+          <button
+            onClick={handleToggleWatch}
+            style={{ ...buttonStyle, backgroundColor: watching ? '#dc3545' : '#28a745' }}
+          >
+            {watching ? '■ Stop' : '▶ Watch'}
+          </button>
+        </div>
+        {watching && (
+          <div style={{ fontSize: '10px', color: '#6c757d' }}>
+            Watching{lastPoll && ` · last update ${lastPoll}`}
+          </div>
+        )}
+      </div>
+
+      <div style={{ flex: 1, padding: '16px', maxWidth: '640px', width: '100%', margin: '0 auto', boxSizing: 'border-box' }}>
+        <StatusMonitor history={history} />
+      </div>
+
+      {/* Back to Home - floating button */}
+      <Link
+        to="/"
+        style={{
+          position: 'fixed',
+          bottom: '20px',
+          left: '20px',
+          display: 'inline-block',
+          padding: '12px 16px',
+          backgroundColor: '#6c757d',
+          color: 'white',
+          textDecoration: 'none',
+          borderRadius: '25px',
+          fontSize: '14px',
+          fontWeight: '500',
+          boxShadow: '0 2px 8px rgba(0,0,0,0.2)',
+          zIndex: 1000
+        }}
+      >
+        ← Home
+      </Link>
+
+      {/* Error display */}
+      {error && (
+        <div style={{
+          position: 'fixed',
+          top: '160px',
+          left: '20px',
+          right: '20px',
+          backgroundColor: '#f8d7da',
+          color: '#721c24',
+          padding: '12px',
+          borderRadius: '6px',
+          border: '1px solid #f5c6cb',
+          zIndex: 1000,
+          fontSize: '14px'
+        }}>
+          {error}
+          <button
+            onClick={() => setError('')}
+            style={{
+              float: 'right',
+              background: 'none',
+              border: 'none',
+              color: '#721c24',
+              fontSize: '16px',
+              cursor: 'pointer',
+              padding: '0 4px'
+            }}
+          >
+            ×
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
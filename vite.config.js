@@ -10,6 +10,35 @@ export default defineConfig({
     VitePWA({
       registerType: 'autoUpdate',
       includeAssets: ['icons/icon.svg', 'vite.svg'],
+      // Cache names are shared with src/services/offline.ts ("Download for offline")
+      workbox: {
+        runtimeCaching: [
+          {
+            // Library manifest: answer from cache at once, refresh in the background
+            urlPattern: ({ url }) => url.pathname === '/content/index.json',
+            handler: 'StaleWhileRevalidate',
+            options: { cacheName: 'library-manifest', cacheableResponse: { statuses: [200] } }
+          },
+          {
+            // Library files requested with the hash of their bytes (?v=) never change, so the first copy is kept
+            urlPattern: ({ url }) => /^\/content\/(containers|solutions|partials)\//.test(url.pathname) && url.searchParams.has('v'),
+            handler: 'CacheFirst',
+            options: { cacheName: 'library-files', cacheableResponse: { statuses: [200] } }
+          },
+          {
+            // Library files without a hash can change in place
+            urlPattern: ({ url }) => /^\/content\/(containers|solutions|partials)\//.test(url.pathname),
+            handler: 'StaleWhileRevalidate',
+            options: { cacheName: 'library-files', cacheableResponse: { statuses: [200] } }
+          },
+          {
+            // HDR environments are large, so they are cached the first time a material uses them
+            urlPattern: ({ url }) => url.pathname.startsWith('/assets/hdri/'),
+            handler: 'CacheFirst',
+            options: { cacheName: 'hdri', cacheableResponse: { statuses: [200] } }
+          }
+        ]
+      },
       manifest: {
         name: 'Koos Puzzle',
         short_name: 'Koos',